@@ -10,12 +10,30 @@ import {
   StyleSheet,
   Modal
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { CameraView, Camera } from 'expo-camera';
 import HeaderWithBack from './components/HeaderWithBack';
+import NutritionFields from './components/NutritionFields';
 import { SERVER_URL } from '../constants/config';
+import { joinHousehold, parseInviteQr } from '../utils/household';
+import {
+  NutritionalInfo,
+  PRODUCT_BARCODE_TYPES,
+  Product,
+  isProductBarcode,
+  lookupProduct,
+  saveProductCorrection,
+} from '../utils/products';
+import { InventoryLocation, LOCATION_ICONS, fetchLocations } from '../utils/locations';
+import {
+  STORAGE_LOCATIONS,
+  ShelfLifeSuggestion,
+  StorageLocation,
+  describeShelfLife,
+  fetchShelfLifeSuggestion,
+} from '../utils/shelfLife';
 
 interface ItemData {
   name: string;
@@ -26,9 +44,16 @@ interface ItemData {
   };
   expirationDate: Date;
   notes: string;
+  storageLocation?: StorageLocation;
+  // Location key: a built-in kind or a custom location id
+  location?: string;
+  barcode?: string;
+  nutritionalInfo?: NutritionalInfo;
 }
 
 export default function AddItem() {
+  // ?scan=invite opens the scanner straight away to join a household
+  const params = useLocalSearchParams<{ scan?: string }>();
   const [itemData, setItemData] = useState<ItemData>({
     name: '',
     category: 'other',
@@ -44,6 +69,15 @@ export default function AddItem() {
   const [showScanner, setShowScanner] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
+  const [shelfLife, setShelfLife] = useState<ShelfLifeSuggestion | null>(null);
+  // Once the user picks these themselves, suggestions stop overwriting them
+  const [expiryEdited, setExpiryEdited] = useState(false);
+  const [locationEdited, setLocationEdited] = useState(false);
+  const [locations, setLocations] = useState<InventoryLocation[]>(
+    STORAGE_LOCATIONS.map(({ label, value }) => ({ key: value, name: label, kind: value, custom: false }))
+  );
+  // Catalog result for a scanned barcode (product is null when not found)
+  const [scannedProduct, setScannedProduct] = useState<{ barcode: string; product: Product | null } | null>(null);
 
   const categories = [
     { label: 'Vegetables', value: 'vegetables' },
@@ -68,16 +102,135 @@ export default function AddItem() {
     (async () => {
       const { status } = await Camera.requestCameraPermissionsAsync();
       setHasPermission(status === 'granted');
+      if (status === 'granted' && params.scan === 'invite') {
+        setShowScanner(true);
+      }
     })();
+  }, [params.scan]);
+
+  useEffect(() => {
+    fetchLocations()
+      .then(setLocations)
+      .catch(error => console.error('Error fetching locations:', error));
   }, []);
 
+  // Suggest a storage location and expiry date as the item details change
+  useEffect(() => {
+    if (!itemData.name.trim()) {
+      setShelfLife(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const suggestion = await fetchShelfLifeSuggestion({
+          name: itemData.name.trim(),
+          category: itemData.category,
+          storageLocation: locationEdited ? itemData.storageLocation : undefined,
+        });
+        if (!suggestion) return;
+
+        setShelfLife(suggestion);
+        setItemData(prev => ({
+          ...prev,
+          storageLocation: locationEdited ? prev.storageLocation : suggestion.storageLocation,
+          location: locationEdited ? prev.location : suggestion.storageLocation,
+          expirationDate: expiryEdited ? prev.expirationDate : new Date(suggestion.expirationDate),
+        }));
+      } catch (error) {
+        console.error('Shelf life suggestion error:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [itemData.name, itemData.category, itemData.storageLocation, locationEdited, expiryEdited]);
+
+  const confirmJoinHousehold = (code: string) => {
+    Alert.alert(
+      'Join Household',
+      'Join this household? Your items will be shared with its members.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Join',
+          onPress: async () => {
+            try {
+              const household = await joinHousehold(code);
+              Alert.alert('Success', `You joined ${household.name}!`, [
+                { text: 'OK', onPress: () => router.replace('./household') }
+              ]);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Could not join household');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleProductBarcode = async (barcode: string) => {
+    try {
+      const product = await lookupProduct(barcode);
+      setScannedProduct({ barcode, product });
+
+      if (product) {
+        setItemData(prev => ({
+          ...prev,
+          name: product.name,
+          category: product.category,
+          quantity: product.defaultQuantity,
+          barcode,
+          nutritionalInfo: product.nutritionalInfo
+        }));
+        Alert.alert('Product Found', `${product.name}${product.brand ? ` (${product.brand})` : ''} loaded. Check the details before adding.`);
+      } else {
+        setItemData(prev => ({ ...prev, barcode }));
+        Alert.alert('Product Not Found', 'Fill in the details and they will be saved for the next time this barcode is scanned.');
+      }
+    } catch (error) {
+      console.error('Product lookup error:', error);
+      Alert.alert('Error', 'Could not look up this barcode. Please enter the details manually.');
+    }
+  };
+
+  // Save edits to a scanned product back to the catalog so the next scan is right
+  const rememberScannedProduct = () => {
+    if (!scannedProduct || scannedProduct.barcode !== itemData.barcode) return;
+
+    const { barcode, product } = scannedProduct;
+    const name = itemData.name.trim();
+    const unitChanged = !product || product.defaultQuantity.unit !== itemData.quantity.unit;
+
+    if (product && product.name === name && product.category === itemData.category && !unitChanged) {
+      return;
+    }
+
+    saveProductCorrection(barcode, {
+      name,
+      category: itemData.category,
+      ...(unitChanged && { defaultQuantity: itemData.quantity })
+    }).catch(error => console.error('Save product correction error:', error));
+  };
+
   const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
     setScanned(true);
+
+    // Grocery barcodes are looked up in the product catalog
+    if (isProductBarcode(data)) {
+      setShowScanner(false);
+      handleProductBarcode(data.trim());
+      return;
+    }
+
     try {
       const scannedData = JSON.parse(data);
+      const inviteCode = parseInviteQr(scannedData);
 
-      // Validate the scanned data structure
-      if (scannedData.name && scannedData.category) {
+      // Household invite QR codes are scanned here too
+      if (inviteCode) {
+        setShowScanner(false);
+        confirmJoinHousehold(inviteCode);
+      } else if (scannedData.name && scannedData.category) {
         const newItemData: ItemData = {
           name: scannedData.name || '',
           category: scannedData.category || 'other',
@@ -92,6 +245,7 @@ export default function AddItem() {
         };
 
         setItemData(newItemData);
+        setExpiryEdited(Boolean(scannedData.expirationDate));
         setShowScanner(false);
         Alert.alert('Success', 'Item details loaded from QR code!');
       } else {
@@ -155,6 +309,7 @@ export default function AddItem() {
       const data = await response.json();
 
       if (response.ok) {
+        rememberScannedProduct();
         Alert.alert('Success', 'Item added successfully!', [
           { text: 'OK', onPress: () => router.back() }
         ]);
@@ -173,6 +328,7 @@ export default function AddItem() {
     setShowDatePicker(false);
     if (selectedDate) {
       setItemData({ ...itemData, expirationDate: selectedDate });
+      setExpiryEdited(true);
     }
   };
 
@@ -297,6 +453,35 @@ export default function AddItem() {
           </View>
         </View>
 
+        {/* Storage Location */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Storage</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.categoryContainer}>
+              {locations.map((location) => (
+                <TouchableOpacity
+                  key={location.key}
+                  style={[
+                    styles.categoryButton,
+                    itemData.location === location.key && styles.selectedCategory
+                  ]}
+                  onPress={() => {
+                    setItemData({ ...itemData, location: location.key, storageLocation: location.kind });
+                    setLocationEdited(true);
+                  }}
+                >
+                  <Text style={[
+                    styles.categoryText,
+                    itemData.location === location.key && styles.selectedCategoryText
+                  ]}>
+                    {LOCATION_ICONS[location.kind]} {location.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
         {/* Expiration Date */}
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Expiration Date *</Text>
@@ -308,6 +493,23 @@ export default function AddItem() {
               {itemData.expirationDate.toLocaleDateString()}
             </Text>
           </TouchableOpacity>
+          {shelfLife && (
+            <View style={styles.shelfLifeRow}>
+              <Text style={[styles.shelfLifeText, !shelfLife.recommended && styles.shelfLifeWarning]}>
+                {describeShelfLife(shelfLife)}
+              </Text>
+              {expiryEdited && shelfLife.recommended && (
+                <TouchableOpacity
+                  onPress={() => {
+                    setItemData({ ...itemData, expirationDate: new Date(shelfLife.expirationDate) });
+                    setExpiryEdited(false);
+                  }}
+                >
+                  <Text style={styles.shelfLifeAction}>Use suggestion</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
 
           {showDatePicker && (
             <DateTimePicker
@@ -320,6 +522,16 @@ export default function AddItem() {
           )}
         </View>
 
+        {/* Nutrition */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Nutrition per 100 g (Optional)</Text>
+          <NutritionFields
+            value={itemData.nutritionalInfo}
+            onChange={(nutritionalInfo) => setItemData({ ...itemData, nutritionalInfo })}
+          />
+          <Text style={styles.nutritionHint}>Leave empty to fill in from the item name</Text>
+        </View>
+
         {/* Notes */}
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Notes (Optional)</Text>
@@ -349,7 +561,7 @@ export default function AddItem() {
           style={styles.scanButton}
           onPress={openScanner}
         >
-          <Text style={styles.scanButtonText}>📷 Scan QR Code</Text>
+          <Text style={styles.scanButtonText}>📷 Scan Barcode or QR Code</Text>
         </TouchableOpacity>
       </View>
 
@@ -365,12 +577,12 @@ export default function AddItem() {
             facing="back"
             onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
             barcodeScannerSettings={{
-              barcodeTypes: ['qr'],
+              barcodeTypes: ['qr', ...PRODUCT_BARCODE_TYPES],
             }}
           >
             <View style={styles.scannerOverlay}>
               <View style={styles.scannerHeader}>
-                <Text style={styles.scannerTitle}>Scan QR Code</Text>
+                <Text style={styles.scannerTitle}>Scan Code</Text>
                 <TouchableOpacity
                   style={styles.closeButton}
                   onPress={() => setShowScanner(false)}
@@ -387,7 +599,7 @@ export default function AddItem() {
               </View>
 
               <Text style={styles.scannerInstruction}>
-                Position the QR code within the frame
+                Position the barcode or QR code within the frame
               </Text>
             </View>
           </CameraView>
@@ -540,6 +752,31 @@ const styles = StyleSheet.create({
     color: '#111',
     fontFamily: 'LexendDeca-Regular',
   },
+  shelfLifeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  shelfLifeText: {
+    fontSize: 12,
+    color: '#666',
+    flex: 1,
+  },
+  shelfLifeWarning: {
+    color: '#dc2626',
+  },
+  shelfLifeAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#111',
+    textDecorationLine: 'underline',
+  },
+  nutritionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
   submitButton: {
     backgroundColor: '#111',
     borderRadius: 12,
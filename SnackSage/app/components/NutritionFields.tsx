@@ -0,0 +1,79 @@
+// frontend/app/components/NutritionFields.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { NutritionalInfo } from '../../utils/products';
+import { NUTRIENTS, Nutrient } from '../../utils/nutrition';
+
+interface Props {
+  value?: NutritionalInfo;
+  onChange: (value: NutritionalInfo) => void;
+}
+
+const EMPTY: NutritionalInfo = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+const toText = (value?: NutritionalInfo) =>
+  Object.fromEntries(NUTRIENTS.map(({ key }) => [key, value?.[key] ? String(value[key]) : ''])) as {
+    [key in Nutrient]: string;
+  };
+
+// Nutrients per 100 g. Left empty, the server fills them in from the item name.
+export default function NutritionFields({ value, onChange }: Props) {
+  // Kept as text so partly typed decimals ("3.") survive re-renders
+  const [text, setText] = useState(toText(value));
+
+  useEffect(() => {
+    setText(current => {
+      const changed = NUTRIENTS.some(({ key }) => (parseFloat(current[key]) || 0) !== (value?.[key] || 0));
+      return changed ? toText(value) : current;
+    });
+  }, [value]);
+
+  const handleChange = (key: Nutrient, input: string) => {
+    const cleaned = input.replace(/[^0-9.]/g, '');
+    setText({ ...text, [key]: cleaned });
+    onChange({ ...EMPTY, ...value, [key]: parseFloat(cleaned) || 0 });
+  };
+
+  return (
+    <View style={styles.grid}>
+      {NUTRIENTS.map(({ key, label, unit }) => (
+        <View key={key} style={styles.field}>
+          <Text style={styles.fieldLabel}>{label} ({unit})</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Auto"
+            placeholderTextColor="#aaa"
+            keyboardType="decimal-pad"
+            value={text[key]}
+            onChangeText={(input) => handleChange(key, input)}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  field: {
+    width: '31%',
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    padding: 10,
+    fontSize: 15,
+    color: '#111',
+    backgroundColor: '#fafafa',
+  },
+});
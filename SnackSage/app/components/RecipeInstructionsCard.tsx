@@ -0,0 +1,225 @@
+// frontend/app/components/RecipeInstructionsCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { InstructionIngredient, RecipeInstructions } from '../../utils/recipes';
+
+interface Props {
+  recipe: RecipeInstructions;
+}
+
+// Pantry matches below this confidence are a similar item (red onion for
+// white onion) rather than the ingredient itself
+const CLOSE_MATCH = 0.8;
+
+const formatQuantity = ({ amount, unit }: InstructionIngredient) =>
+  [amount, unit].filter(part => part !== null && part !== '').join(' ');
+
+// Structured recipe shown in the chat: pantry matches, timed steps, equipment
+export default function RecipeInstructionsCard({ recipe }: Props) {
+  const details = [
+    recipe.totalTimeMinutes ? `⏱️ ${recipe.totalTimeMinutes} min` : null,
+    recipe.difficulty ? `📊 ${recipe.difficulty}` : null,
+    recipe.servings ? `🍽️ Serves ${recipe.servings}` : null,
+  ].filter(Boolean);
+  const inPantry = recipe.ingredients.filter(ingredient => ingredient.inventoryMatch).length;
+
+  return (
+    <View>
+      <Text style={styles.title}>{recipe.name}</Text>
+      {recipe.description ? <Text style={styles.description}>{recipe.description}</Text> : null}
+      {details.length > 0 && <Text style={styles.details}>{details.join(' · ')}</Text>}
+
+      {recipe.equipment.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Equipment</Text>
+          <View style={styles.chipRow}>
+            {recipe.equipment.map(item => (
+              <View key={item} style={styles.chip}>
+                <Text style={styles.chipText}>{item}</Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>
+        Ingredients <Text style={styles.sectionHint}>({inPantry}/{recipe.ingredients.length} in your pantry)</Text>
+      </Text>
+      {recipe.ingredients.map((ingredient, index) => (
+        <View key={`${ingredient.name}-${index}`} style={styles.ingredientRow}>
+          <Text style={[styles.matchIcon, ingredient.inventoryMatch ? styles.matched : styles.missing]}>
+            {ingredient.inventoryMatch ? '✓' : '×'}
+          </Text>
+          <View style={styles.ingredientInfo}>
+            <Text style={styles.ingredientText}>
+              {formatQuantity(ingredient) ? <Text style={styles.quantity}>{formatQuantity(ingredient)} </Text> : null}
+              {ingredient.name}
+              {ingredient.notes ? <Text style={styles.notes}>, {ingredient.notes}</Text> : null}
+              {ingredient.optional ? <Text style={styles.notes}> (optional)</Text> : null}
+            </Text>
+            {ingredient.inventoryMatch && (
+              <Text style={styles.pantryText}>
+                {ingredient.inventoryMatch.confidence < CLOSE_MATCH ? 'Closest match: you have' : 'You have'}{' '}
+                {ingredient.inventoryMatch.amount} {ingredient.inventoryMatch.unit} of {ingredient.inventoryMatch.name}
+              </Text>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>Steps</Text>
+      {recipe.steps.map(step => (
+        <View key={step.number} style={styles.stepRow}>
+          <View style={styles.stepNumber}>
+            <Text style={styles.stepNumberText}>{step.number}</Text>
+          </View>
+          <View style={styles.stepInfo}>
+            <Text style={styles.stepText}>{step.instruction}</Text>
+            <View style={styles.chipRow}>
+              {step.durationMinutes ? (
+                <View style={styles.chip}>
+                  <Text style={styles.chipText}>⏱️ {step.durationMinutes} min</Text>
+                </View>
+              ) : null}
+              {step.timer && (
+                <View style={[styles.chip, styles.timerChip]}>
+                  <Text style={[styles.chipText, styles.timerChipText]}>⏲️ {step.timer.label} · {step.timer.minutes} min</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        </View>
+      ))}
+
+      {recipe.tips.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Tips</Text>
+          {recipe.tips.map(tip => (
+            <Text key={tip} style={styles.tipText}>💡 {tip}</Text>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+  },
+  description: {
+    fontSize: 14,
+    color: '#444',
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  details: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111',
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  sectionHint: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: '#888',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#eee',
+    marginTop: 4,
+  },
+  chipText: {
+    fontSize: 11,
+    color: '#555',
+  },
+  timerChip: {
+    backgroundColor: '#111',
+  },
+  timerChipText: {
+    color: '#fff',
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 3,
+  },
+  matchIcon: {
+    width: 18,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  matched: {
+    color: '#10b981',
+  },
+  missing: {
+    color: '#ef4444',
+  },
+  ingredientInfo: {
+    flex: 1,
+  },
+  ingredientText: {
+    fontSize: 14,
+    color: '#222',
+    lineHeight: 20,
+  },
+  quantity: {
+    fontWeight: '600',
+  },
+  notes: {
+    color: '#777',
+  },
+  pantryText: {
+    fontSize: 11,
+    color: '#10b981',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  stepNumber: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#111',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginTop: 1,
+  },
+  stepNumberText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  stepInfo: {
+    flex: 1,
+  },
+  stepText: {
+    fontSize: 14,
+    color: '#222',
+    lineHeight: 20,
+  },
+  tipText: {
+    fontSize: 13,
+    color: '#444',
+    marginBottom: 4,
+    lineHeight: 19,
+  },
+});
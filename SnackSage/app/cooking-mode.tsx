@@ -0,0 +1,431 @@
+// cooking-mode.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Speech from 'expo-speech';
+import HeaderWithBack from './components/HeaderWithBack';
+import { confirmAndCookRecipe } from '../utils/cooking';
+import {
+  CookingProgress,
+  cancelStepTimer,
+  clearCookingProgress,
+  formatCountdown,
+  loadCookingProgress,
+  saveCookingProgress,
+  startStepTimer,
+} from '../utils/cookingProgress';
+
+const speak = (text: string) => {
+  Speech.stop();
+  Speech.speak(text, { language: 'en-US', rate: 0.95 });
+};
+
+export default function CookingMode() {
+  const params = useLocalSearchParams<{ key?: string }>();
+  const [progress, setProgress] = useState<CookingProgress | null>(null);
+  const [voiceEnabled, setVoiceEnabled] = useState(true);
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  // Read from the timer interval, which outlives individual renders
+  const progressRef = useRef<CookingProgress | null>(null);
+  const voiceRef = useRef(true);
+
+  const updateProgress = (next: CookingProgress) => {
+    progressRef.current = next;
+    setProgress(next);
+    saveCookingProgress(next).catch(error => console.error('Error saving cooking progress:', error));
+  };
+
+  useEffect(() => {
+    loadProgress(params.key);
+  }, [params.key]);
+
+  // Tick the countdowns and announce timers that just finished
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      const current = progressRef.current;
+      if (!current) return;
+
+      const finished = Object.entries(current.timers).filter(([, timer]) => new Date(timer.endsAt).getTime() <= Date.now());
+      if (finished.length === 0) return;
+
+      const timers = { ...current.timers };
+      finished.forEach(([stepNumber]) => {
+        const step = current.recipe.steps.find(s => s.number === Number(stepNumber));
+        if (voiceRef.current) speak(`Timer done: ${step?.timer?.label || `step ${stepNumber}`}.`);
+        delete timers[Number(stepNumber)];
+      });
+      updateProgress({ ...current, timers });
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      Speech.stop();
+    };
+  }, []);
+
+  const loadProgress = async (key?: string) => {
+    const stored = key ? await loadCookingProgress(key) : null;
+    if (!stored) {
+      Alert.alert('Cooking Mode', 'Nothing to cook yet. Open a recipe and start cooking mode from there.');
+      router.back();
+      return;
+    }
+    progressRef.current = stored;
+    setProgress(stored);
+    const step = stored.recipe.steps[stored.stepIndex];
+    if (step && voiceRef.current) speak(`Step ${step.number}. ${step.instruction}`);
+  };
+
+  const toggleVoice = () => {
+    voiceRef.current = !voiceEnabled;
+    setVoiceEnabled(!voiceEnabled);
+    if (voiceEnabled) Speech.stop();
+  };
+
+  if (!progress) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+      </View>
+    );
+  }
+
+  const { recipe, stepIndex } = progress;
+  const step = recipe.steps[stepIndex];
+  const isLastStep = stepIndex === recipe.steps.length - 1;
+  const stepTimer = step.timer ? progress.timers[step.number] : undefined;
+  const otherTimers = Object.entries(progress.timers).filter(([stepNumber]) => Number(stepNumber) !== step.number);
+
+  const goToStep = (index: number) => {
+    const next = recipe.steps[index];
+    updateProgress({ ...progress, stepIndex: index });
+    if (voiceEnabled) speak(`Step ${next.number}. ${next.instruction}`);
+  };
+
+  const handleRepeat = () => {
+    speak(`Step ${step.number}. ${step.instruction}`);
+  };
+
+  const handleStartTimer = async () => {
+    if (!step.timer) return;
+    const timer = await startStepTimer(recipe.name, step.timer.label, step.timer.minutes);
+    updateProgress({ ...progress, timers: { ...progress.timers, [step.number]: timer } });
+    if (voiceEnabled) speak(`Timer started for ${step.timer.minutes} minutes.`);
+  };
+
+  const handleCancelTimer = async (stepNumber: number) => {
+    const timers = { ...progress.timers };
+    await cancelStepTimer(timers[stepNumber]);
+    delete timers[stepNumber];
+    updateProgress({ ...progress, timers });
+  };
+
+  const handleFinish = async () => {
+    Speech.stop();
+    await clearCookingProgress(progress);
+    progressRef.current = null;
+
+    Alert.alert('Enjoy your meal! 🍽️', 'Deduct the ingredients from your pantry?', [
+      { text: 'Not now', style: 'cancel', onPress: () => router.back() },
+      {
+        text: 'Mark as cooked',
+        onPress: async () => {
+          await confirmAndCookRecipe({
+            name: recipe.name,
+            ingredients: recipe.ingredients.map(({ name, amount, unit }) => ({
+              name,
+              amount: amount ?? undefined,
+              unit: unit ?? undefined,
+            })),
+            servings: recipe.servings ?? undefined,
+          });
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <HeaderWithBack title="Cooking Mode" />
+
+      <View style={styles.topBar}>
+        <View style={styles.topInfo}>
+          <Text style={styles.recipeName} numberOfLines={1}>{recipe.name}</Text>
+          <Text style={styles.stepCounter}>Step {step.number} of {recipe.steps.length}</Text>
+        </View>
+        <TouchableOpacity style={styles.voiceButton} onPress={toggleVoice}>
+          <Text style={styles.voiceButtonText}>{voiceEnabled ? '🔊' : '🔇'}</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${((stepIndex + 1) / recipe.steps.length) * 100}%` }]} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        <Text style={styles.stepText}>{step.instruction}</Text>
+        {step.durationMinutes ? <Text style={styles.duration}>About {step.durationMinutes} min</Text> : null}
+
+        {step.timer && (
+          stepTimer ? (
+            <View style={styles.timerPanel}>
+              <Text style={styles.timerLabel}>{step.timer.label}</Text>
+              <Text style={styles.countdown}>{formatCountdown(new Date(stepTimer.endsAt).getTime() - now)}</Text>
+              <TouchableOpacity onPress={() => handleCancelTimer(step.number)}>
+                <Text style={styles.cancelTimerText}>Cancel timer</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.startTimerButton} onPress={handleStartTimer}>
+              <Text style={styles.startTimerText}>⏲️ Start {step.timer.minutes} min timer</Text>
+              <Text style={styles.startTimerLabel}>{step.timer.label}</Text>
+            </TouchableOpacity>
+          )
+        )}
+
+        {otherTimers.length > 0 && (
+          <View style={styles.otherTimers}>
+            {otherTimers.map(([stepNumber, timer]) => {
+              const timedStep = recipe.steps.find(s => s.number === Number(stepNumber));
+              return (
+                <View key={stepNumber} style={styles.otherTimerRow}>
+                  <Text style={styles.otherTimerText}>
+                    ⏲️ {timedStep?.timer?.label || `Step ${stepNumber}`}: {formatCountdown(new Date(timer.endsAt).getTime() - now)}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleCancelTimer(Number(stepNumber))}>
+                    <Text style={styles.cancelTimerText}>Cancel</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        <TouchableOpacity onPress={() => setShowIngredients(value => !value)}>
+          <Text style={styles.ingredientsToggle}>{showIngredients ? 'Hide ingredients ▲' : 'Show ingredients ▼'}</Text>
+        </TouchableOpacity>
+        {showIngredients && recipe.ingredients.map((ingredient, index) => (
+          <Text key={`${ingredient.name}-${index}`} style={styles.ingredientText}>
+            • {[ingredient.amount, ingredient.unit, ingredient.name].filter(part => part !== null && part !== '').join(' ')}
+          </Text>
+        ))}
+      </ScrollView>
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={[styles.controlButton, stepIndex === 0 && styles.controlButtonDisabled]}
+          onPress={() => goToStep(stepIndex - 1)}
+          disabled={stepIndex === 0}
+        >
+          <Text style={styles.controlIcon}>◀</Text>
+          <Text style={styles.controlText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={handleRepeat}>
+          <Text style={styles.controlIcon}>🔁</Text>
+          <Text style={styles.controlText}>Repeat</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlButton, styles.nextButton]}
+          onPress={() => (isLastStep ? handleFinish() : goToStep(stepIndex + 1))}
+        >
+          <Text style={[styles.controlIcon, styles.nextText]}>{isLastStep ? '✓' : '▶'}</Text>
+          <Text style={[styles.controlText, styles.nextText]}>{isLastStep ? 'Finish' : 'Next'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+  },
+  topInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  stepCounter: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  voiceButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fafafa',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  voiceButtonText: {
+    fontSize: 22,
+  },
+  progressTrack: {
+    height: 4,
+    backgroundColor: '#eee',
+    marginHorizontal: 24,
+    borderRadius: 2,
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#111',
+    borderRadius: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+  },
+  stepText: {
+    fontSize: 26,
+    lineHeight: 36,
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  duration: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 12,
+  },
+  timerPanel: {
+    marginTop: 24,
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: '#111',
+    alignItems: 'center',
+  },
+  timerLabel: {
+    fontSize: 15,
+    color: '#ccc',
+  },
+  countdown: {
+    fontSize: 56,
+    fontWeight: '700',
+    color: 'white',
+    marginVertical: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  cancelTimerText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  startTimerButton: {
+    marginTop: 24,
+    paddingVertical: 20,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#111',
+    alignItems: 'center',
+  },
+  startTimerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111',
+  },
+  startTimerLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  otherTimers: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fafafa',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  otherTimerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  otherTimerText: {
+    fontSize: 15,
+    color: '#111',
+    fontVariant: ['tabular-nums'],
+  },
+  ingredientsToggle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    marginTop: 28,
+    marginBottom: 8,
+  },
+  ingredientText: {
+    fontSize: 15,
+    color: '#444',
+    lineHeight: 24,
+  },
+  controls: {
+    flexDirection: 'row',
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  controlButton: {
+    flex: 1,
+    height: 96,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fafafa',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  controlButtonDisabled: {
+    opacity: 0.4,
+  },
+  nextButton: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  controlIcon: {
+    fontSize: 28,
+    color: '#111',
+  },
+  controlText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111',
+    marginTop: 4,
+  },
+  nextText: {
+    color: 'white',
+  },
+});
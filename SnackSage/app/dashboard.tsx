@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -16,18 +16,27 @@ import {
 import { router } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
 
 import { SERVER_URL } from '../constants/config';
+import { confirmAndCookRecipe } from '../utils/cooking';
+import { fetchUserSettings } from '../utils/expiry';
+import { addRecipeIngredients, describeAddResult } from '../utils/shoppingList';
+import { saveRecipe } from '../utils/recipes';
 
 const { width } = Dimensions.get('window');
 
+// Whether notifications are shown while the app is open (settings channel)
+let showInAppNotifications = true;
+
 // Configure notification behavior
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
+    shouldShowAlert: showInAppNotifications,
+    shouldPlaySound: showInAppNotifications,
     shouldSetBadge: false,
-    shouldShowBanner: true,
+    shouldShowBanner: showInAppNotifications,
     shouldShowList: true,
   }),
 });
@@ -37,11 +46,19 @@ interface User {
   userId: string;
 }
 
+// Item count for one slice of the pantry chart (a category or a location)
+interface ChartStat {
+  _id: string;
+  name?: string;
+  count: number;
+}
+
 interface DashboardStats {
   totalItems: number;
   expiringSoonCount: number;
   expiredCount: number;
-  categoryStats: Array<{ _id: string; count: number }>;
+  categoryStats: ChartStat[];
+  locationStats?: ChartStat[];
   recentItemsCount: number;
 }
 
@@ -56,12 +73,8 @@ interface RecipeRecommendation {
   servings: number;
   availableIngredients: string[];
   missingIngredients: string[];
-}
-
-interface ExpiringItem {
-  _id: string;
-  name: string;
-  expirationDate: string;
+  // Allergen groups found in (or absent from) the recipe's ingredients
+  dietaryLabels?: { contains: string[] };
 }
 
 export default function Dashboard() {
@@ -70,30 +83,42 @@ export default function Dashboard() {
   const [recommendations, setRecommendations] = useState<RecipeRecommendation[]>([]);
   const [loading, setLoading] = useState(true);
   const [recommendationsLoading, setRecommendationsLoading] = useState(false);
+  // Why the last refresh produced no recommendations
+  const [recommendationsError, setRecommendationsError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [dropdownVisible, setDropdownVisible] = useState(false);
+  const [chartBreakdown, setChartBreakdown] = useState<'category' | 'location'>('category');
+  const [savingRecipe, setSavingRecipe] = useState<string | null>(null);
+  const [savedRecipeNames, setSavedRecipeNames] = useState<string[]>([]);
 
-  const notifiedItems = useRef<Set<string>>(new Set());
-  const schedulerInterval = useRef<ReturnType<typeof setInterval> | null>(null);
-
-  // Request notification permissions and configure
   useEffect(() => {
-    configureNotifications();
+    fetchData();
   }, []);
 
-  // Start notification scheduling on mount
-  useEffect(() => {
-    fetchData();
-    startNotificationScheduler();
+  // Expiry alerts are sent by the server, so it needs this device's push token
+  const registerPushToken = useCallback(async () => {
+    if (!Device.isDevice) return;
 
-    return () => {
-      if (schedulerInterval.current) {
-        clearInterval(schedulerInterval.current);
-      }
-    };
+    const token = await SecureStore.getItemAsync('token');
+    if (!token) return;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: pushToken } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    await fetch(`${SERVER_URL}/api/push-token`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        pushToken,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    });
   }, []);
 
-  const configureNotifications = async () => {
+  const configureNotifications = useCallback(async () => {
     try {
       const { status } = await Notifications.requestPermissionsAsync();
       if (status !== 'granted') {
@@ -110,96 +135,17 @@ export default function Dashboard() {
           lightColor: '#374151',
         });
       }
-    } catch (error) {
-      console.error('Error configuring notifications:', error);
-    }
-  };
-
-  const startNotificationScheduler = () => {
-    schedulerInterval.current = setInterval(() => {
-      const now = new Date();
-      const hours = now.getHours();
-      const minutes = now.getMinutes();
-
-      if ((hours === 8 || hours === 19) && minutes === 0) {
-        checkExpiringItemsAndNotify();
-      }
 
-      if (hours === 0 && minutes === 0) {
-        clearNotificationHistoryAutomatically();
-      }
-    }, 60000);
-  };
-
-  const clearNotificationHistoryAutomatically = async () => {
-    try {
-      notifiedItems.current.clear();
-      await Notifications.cancelAllScheduledNotificationsAsync();
-      console.log('Notification history automatically cleared at midnight');
+      await registerPushToken();
     } catch (error) {
-      console.error('Error automatically clearing notifications:', error);
+      console.error('Error configuring notifications:', error);
     }
-  };
-
-  const checkExpiringItemsAndNotify = async () => {
-    const token = await SecureStore.getItemAsync('token');
-    if (!token) return;
+  }, [registerPushToken]);
 
-    try {
-      const response = await fetch(`${SERVER_URL}/api/items/expiring-soon`, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch expiring items');
-      }
-
-      const data = await response.json();
-
-      if (data.expiringSoon && data.expiringSoon.length > 0) {
-        const newExpiringItems = data.expiringSoon.filter(
-          (item: ExpiringItem) => !notifiedItems.current.has(item._id)
-        );
-
-        if (newExpiringItems.length > 0) {
-          console.log(`Found ${newExpiringItems.length} new expiring items to notify about`);
-
-          for (let i = 0; i < newExpiringItems.length; i++) {
-            const item = newExpiringItems[i];
-
-            setTimeout(async () => {
-              try {
-                await Notifications.scheduleNotificationAsync({
-                  content: {
-                    title: '⏰ Item Expiring Soon',
-                    body: `${item.name} is expiring on ${new Date(item.expirationDate).toLocaleDateString()}`,
-                    sound: 'default',
-                    data: {
-                      itemId: item._id,
-                      itemName: item.name,
-                      type: 'expiring_item'
-                    },
-                  },
-                  trigger: null,
-                });
-
-                notifiedItems.current.add(item._id);
-                console.log(`Notification sent for: ${item.name}`);
-              } catch (error) {
-                console.error('Error sending notification:', error);
-              }
-            }, i * 1000);
-          }
-        }
-      }
-    } catch (err) {
-      console.error('Notification fetch error:', err);
-    }
-  };
+  // Request notification permissions and configure
+  useEffect(() => {
+    configureNotifications();
+  }, [configureNotifications]);
 
   const fetchData = async () => {
     try {
@@ -228,6 +174,12 @@ export default function Dashboard() {
         setStats(statsData);
       }
 
+      fetchUserSettings()
+        .then(settings => {
+          if (settings) showInAppNotifications = settings.notificationSettings.channels.inApp;
+        })
+        .catch(error => console.error('Error fetching settings:', error));
+
       await fetchRecommendations(headers);
     } catch (err: any) {
       if (err.message.includes('Authentication failed')) {
@@ -242,7 +194,9 @@ export default function Dashboard() {
     }
   };
 
-  const fetchRecommendations = async (headers?: any) => {
+  // Served from the server's cache while the pantry is unchanged; refresh
+  // asks for new suggestions anyway
+  const fetchRecommendations = async (headers?: any, refresh = false) => {
     try {
       setRecommendationsLoading(true);
       if (!headers) {
@@ -253,14 +207,18 @@ export default function Dashboard() {
         };
       }
 
-      const recRes = await fetch(`${SERVER_URL}/api/recipes/recommendations`, {
+      const query = refresh ? '?refresh=true' : '';
+      const recRes = await fetch(`${SERVER_URL}/api/recipes/recommendations${query}`, {
         method: 'GET',
         headers
       });
 
+      const recData = await recRes.json();
       if (recRes.ok) {
-        const recData = await recRes.json();
         setRecommendations(recData.recommendations || []);
+        setRecommendationsError(null);
+      } else {
+        setRecommendationsError(recData.message || 'Could not load recipe suggestions.');
       }
     } catch (error) {
       console.error('Error fetching recommendations:', error);
@@ -276,8 +234,17 @@ export default function Dashboard() {
 
   const handleLogout = async () => {
     try {
-      if (schedulerInterval.current) {
-        clearInterval(schedulerInterval.current);
+      const token = await SecureStore.getItemAsync('token');
+      if (token) {
+        // Stop server-side alerts for this device
+        await fetch(`${SERVER_URL}/api/push-token`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ pushToken: null }),
+        });
       }
       await Notifications.cancelAllScheduledNotificationsAsync();
       await SecureStore.deleteItemAsync('token');
@@ -293,6 +260,36 @@ export default function Dashboard() {
     router.push('./profile');
   };
 
+  const handleHousehold = () => {
+    setDropdownVisible(false);
+    router.push('./household');
+  };
+
+  const handleNutrition = () => {
+    setDropdownVisible(false);
+    router.push('./nutrition');
+  };
+
+  const handleMyRecipes = () => {
+    setDropdownVisible(false);
+    router.push('./my-recipes');
+  };
+
+  const handleShoppingList = () => {
+    setDropdownVisible(false);
+    router.push('./shopping-list');
+  };
+
+  const handleKnowledge = () => {
+    setDropdownVisible(false);
+    router.push('./knowledge');
+  };
+
+  const handleSettings = () => {
+    setDropdownVisible(false);
+    router.push('./settings');
+  };
+
   const handleDropdownLogout = () => {
     setDropdownVisible(false);
     Alert.alert(
@@ -332,7 +329,52 @@ export default function Dashboard() {
 
   const handleRecipePress = (recipe: RecipeRecommendation) => {
     trackRecipeView(); // Track the view
-    router.push(`./recipe-chat?recipeName=${encodeURIComponent(recipe.name)}`);
+    const ingredients = encodeURIComponent(JSON.stringify(recipe.mainIngredients));
+    router.push(`./recipe-chat?recipeName=${encodeURIComponent(recipe.name)}&ingredients=${ingredients}&servings=${recipe.servings}`);
+  };
+
+  const handleMarkCooked = async (recipe: RecipeRecommendation) => {
+    const cooked = await confirmAndCookRecipe({
+      name: recipe.name,
+      ingredients: recipe.availableIngredients,
+      servings: recipe.servings,
+    });
+    if (cooked) {
+      fetchData();
+    }
+  };
+
+  // Recommendations are regenerated on refresh, so keep the ones worth cooking again
+  const handleSaveRecipe = async (recipe: RecipeRecommendation) => {
+    setSavingRecipe(recipe.name);
+    try {
+      const result = await saveRecipe({
+        name: recipe.name,
+        description: recipe.description,
+        ingredients: recipe.mainIngredients,
+        cookingTime: recipe.cookingTime,
+        difficulty: recipe.difficulty,
+        cuisine: recipe.cuisine,
+        healthScore: recipe.healthScore,
+        servings: recipe.servings,
+        source: 'recommendation',
+      });
+      setSavedRecipeNames(prev => [...prev, recipe.name]);
+      Alert.alert('My Recipes', result.message);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not save recipe');
+    } finally {
+      setSavingRecipe(null);
+    }
+  };
+
+  const handleAddMissing = async (recipe: RecipeRecommendation) => {
+    try {
+      const result = await addRecipeIngredients(recipe.name, recipe.missingIngredients);
+      Alert.alert('Shopping List', describeAddResult(result));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not add to shopping list');
+    }
   };
 
   const getDifficultyColor = (difficulty: string) => {
@@ -345,7 +387,7 @@ export default function Dashboard() {
   };
 
   // Enhanced interactive donut chart component
-  const DonutChart = ({ categoryStats }: { categoryStats: Array<{ _id: string; count: number }> }) => {
+  const DonutChart = ({ categoryStats }: { categoryStats: ChartStat[] }) => {
     const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
 
     const total = categoryStats.reduce((sum, cat) => sum + cat.count, 0);
@@ -354,6 +396,8 @@ export default function Dashboard() {
     const topCategories = categoryStats.slice(0, 4);
     const centerSize = 80;
 
+    const getLabel = (stat: ChartStat) => stat.name || stat._id.charAt(0).toUpperCase() + stat._id.slice(1);
+
     const handleSegmentPress = (index: number) => {
       setSelectedSegment(selectedSegment === index ? null : index);
     };
@@ -361,6 +405,19 @@ export default function Dashboard() {
     return (
       <View style={styles.chartContainer}>
         <Text style={styles.chartTitle}>Pantry Distribution</Text>
+        <View style={styles.chartToggle}>
+          {(['category', 'location'] as const).map(breakdown => (
+            <TouchableOpacity
+              key={breakdown}
+              style={[styles.chartToggleButton, chartBreakdown === breakdown && styles.chartToggleActive]}
+              onPress={() => setChartBreakdown(breakdown)}
+            >
+              <Text style={[styles.chartToggleText, chartBreakdown === breakdown && styles.chartToggleActiveText]}>
+                {breakdown === 'category' ? 'Category' : 'Location'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
         <View style={styles.donutChartWrapper}>
           <View style={styles.donutChart}>
             <View
@@ -377,7 +434,7 @@ export default function Dashboard() {
                 {selectedSegment !== null ? topCategories[selectedSegment].count : total}
               </Text>
               <Text style={styles.totalItemsLabel}>
-                {selectedSegment !== null ? topCategories[selectedSegment]._id : 'items'}
+                {selectedSegment !== null ? getLabel(topCategories[selectedSegment]) : 'items'}
               </Text>
             </View>
           </View>
@@ -405,7 +462,7 @@ export default function Dashboard() {
                   styles.legendText,
                   selectedSegment === index && styles.selectedLegendText
                 ]}>
-                  {category._id.charAt(0).toUpperCase() + category._id.slice(1)} ({category.count})
+                  {getLabel(category)} ({category.count})
                 </Text>
               </TouchableOpacity>
             ))}
@@ -453,13 +510,48 @@ export default function Dashboard() {
           <Text style={styles.mediumIngredientBadgeText}>✓ {recipe.availableIngredients.length} available</Text>
         </View>
         {recipe.missingIngredients.length > 0 && (
-          <View style={[styles.mediumIngredientBadge, styles.mediumMissingIngredientBadge]}>
+          <TouchableOpacity
+            style={[styles.mediumIngredientBadge, styles.mediumMissingIngredientBadge]}
+            onPress={() => handleAddMissing(recipe)}
+          >
             <Text style={[styles.mediumIngredientBadgeText, styles.mediumMissingIngredientText]}>
-              × {recipe.missingIngredients.length} missing
+              × {recipe.missingIngredients.length} missing 🛒
             </Text>
-          </View>
+          </TouchableOpacity>
         )}
       </View>
+
+      {recipe.dietaryLabels && (
+        <View style={styles.dietaryLabels}>
+          {recipe.dietaryLabels.contains.length > 0 && (
+            <Text style={styles.containsText}>⚠️ Contains: {recipe.dietaryLabels.contains.join(', ')}</Text>
+          )}
+          <Text style={styles.labelNoteText}>Based on the main ingredients; check the full recipe for allergens.</Text>
+        </View>
+      )}
+
+      {recipe.availableIngredients.length > 0 && (
+        <TouchableOpacity
+          style={styles.cookedButton}
+          onPress={() => handleMarkCooked(recipe)}
+        >
+          <Text style={styles.cookedButtonText}>🍽️ Mark as cooked</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={styles.saveRecipeButton}
+        onPress={() => handleSaveRecipe(recipe)}
+        disabled={savingRecipe === recipe.name || savedRecipeNames.includes(recipe.name)}
+      >
+        {savingRecipe === recipe.name ? (
+          <ActivityIndicator size="small" color="#111111" />
+        ) : (
+          <Text style={styles.saveRecipeButtonText}>
+            {savedRecipeNames.includes(recipe.name) ? '✓ Saved' : '🔖 Save recipe'}
+          </Text>
+        )}
+      </TouchableOpacity>
     </TouchableOpacity>
   );
 
@@ -510,6 +602,48 @@ export default function Dashboard() {
               <Text style={styles.dropdownItemIcon}>👤</Text>
               <Text style={styles.dropdownItemText}>Profile</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleHousehold}
+            >
+              <Text style={styles.dropdownItemIcon}>🏠</Text>
+              <Text style={styles.dropdownItemText}>Household</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleNutrition}
+            >
+              <Text style={styles.dropdownItemIcon}>🥗</Text>
+              <Text style={styles.dropdownItemText}>Nutrition</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleShoppingList}
+            >
+              <Text style={styles.dropdownItemIcon}>🛒</Text>
+              <Text style={styles.dropdownItemText}>Shopping List</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleMyRecipes}
+            >
+              <Text style={styles.dropdownItemIcon}>📖</Text>
+              <Text style={styles.dropdownItemText}>My Recipes</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleKnowledge}
+            >
+              <Text style={styles.dropdownItemIcon}>📚</Text>
+              <Text style={styles.dropdownItemText}>Ask the Knowledge Base</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.dropdownItem}
+              onPress={handleSettings}
+            >
+              <Text style={styles.dropdownItemIcon}>⚙️</Text>
+              <Text style={styles.dropdownItemText}>Alerts & Expiry</Text>
+            </TouchableOpacity>
             <View style={styles.dropdownDivider} />
             <TouchableOpacity
               style={styles.dropdownItem}
@@ -534,7 +668,9 @@ export default function Dashboard() {
             <Text style={styles.sectionTitle}>Inventory Details</Text>
             {/* Enhanced Chart */}
             {stats.categoryStats && stats.categoryStats.length > 0 && (
-              <DonutChart categoryStats={stats.categoryStats} />
+              <DonutChart
+                categoryStats={chartBreakdown === 'location' && stats.locationStats ? stats.locationStats : stats.categoryStats}
+              />
             )}
 
             <View style={styles.inventoryStatsGrid}>
@@ -561,12 +697,17 @@ export default function Dashboard() {
         <View style={styles.recipesSection}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Recipe Suggestions</Text>
-            <TouchableOpacity
-              onPress={() => fetchRecommendations()}
-              style={styles.reloadButton}
-            >
-              <Text style={styles.reloadIcon}>↻</Text>
-            </TouchableOpacity>
+            <View style={styles.sectionActions}>
+              <TouchableOpacity onPress={() => router.push('./meal-plan')}>
+                <Text style={styles.seeAllText}>Week Plan →</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => fetchRecommendations(undefined, true)}
+                style={styles.reloadButton}
+              >
+                <Text style={styles.reloadIcon}>↻</Text>
+              </TouchableOpacity>
+            </View>
           </View>
 
           {recommendationsLoading ? (
@@ -584,8 +725,8 @@ export default function Dashboard() {
             </ScrollView>
           ) : (
             <View style={styles.emptyState}>
-              <Text style={styles.emptyStateText}>No recipes yet</Text>
-              <Text style={styles.emptyStateSubtext}>Add pantry items to get suggestions</Text>
+              <Text style={styles.emptyStateText}>{recommendationsError ? 'No suggestions right now' : 'No recipes yet'}</Text>
+              <Text style={styles.emptyStateSubtext}>{recommendationsError || 'Add pantry items to get suggestions'}</Text>
             </View>
           )}
         </View>
@@ -831,6 +972,29 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     textAlign: 'center',
   },
+  chartToggle: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 2,
+    marginTop: 8,
+  },
+  chartToggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  chartToggleActive: {
+    backgroundColor: '#111827',
+  },
+  chartToggleText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  chartToggleActiveText: {
+    color: '#ffffff',
+  },
   donutChartWrapper: {
     alignItems: 'center',
   },
@@ -916,6 +1080,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#1e293b',
   },
+  sectionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   seeAllText: {
     fontSize: 12,
     color: '#3b82f6',
@@ -1035,6 +1204,44 @@ const styles = StyleSheet.create({
   mediumMissingIngredientText: {
     color: '#dc2626',
   },
+  dietaryLabels: {
+    marginTop: 10,
+    gap: 4,
+  },
+  containsText: {
+    fontSize: 12,
+    color: '#b45309',
+    fontWeight: '600',
+  },
+  labelNoteText: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+  cookedButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#111111',
+    alignItems: 'center',
+  },
+  cookedButtonText: {
+    fontSize: 13,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  saveRecipeButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#111111',
+    alignItems: 'center',
+  },
+  saveRecipeButtonText: {
+    fontSize: 13,
+    color: '#111111',
+    fontWeight: '600',
+  },
   loadingRecommendations: {
     alignItems: 'center',
     paddingVertical: 20,
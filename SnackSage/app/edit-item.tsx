@@ -15,7 +15,17 @@ import { router, useLocalSearchParams } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import HeaderWithBack from './components/HeaderWithBack';
+import NutritionFields from './components/NutritionFields';
 import {SERVER_URL} from '../constants/config'; // Adjust the import path as necessary
+import { InventoryLocation, LOCATION_ICONS, fetchLocations } from '../utils/locations';
+import { NutritionalInfo } from '../utils/products';
+import {
+  STORAGE_LOCATIONS,
+  ShelfLifeSuggestion,
+  StorageLocation,
+  describeShelfLife,
+  fetchShelfLifeSuggestion,
+} from '../utils/shelfLife';
 interface ItemData {
   name: string;
   category: string;
@@ -25,6 +35,10 @@ interface ItemData {
   };
   expirationDate: Date;
   notes: string;
+  storageLocation?: StorageLocation;
+  // Location key: a built-in kind or a custom location id
+  location?: string;
+  nutritionalInfo?: NutritionalInfo;
 }
 
 export default function EditItem() {
@@ -44,6 +58,10 @@ export default function EditItem() {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [shelfLife, setShelfLife] = useState<ShelfLifeSuggestion | null>(null);
+  const [locations, setLocations] = useState<InventoryLocation[]>(
+    STORAGE_LOCATIONS.map(({ label, value }) => ({ key: value, name: label, kind: value, custom: false }))
+  );
 
   const categories = [
     { label: 'Vegetables', value: 'vegetables' },
@@ -68,6 +86,12 @@ export default function EditItem() {
     fetchItem();
   }, [itemId]);
 
+  useEffect(() => {
+    fetchLocations()
+      .then(setLocations)
+      .catch(error => console.error('Error fetching locations:', error));
+  }, []);
+
   const fetchItem = async () => {
     try {
       const token = await SecureStore.getItemAsync('token');
@@ -92,7 +116,10 @@ export default function EditItem() {
           category: data.item.category,
           quantity: data.item.quantity,
           expirationDate: new Date(data.item.expirationDate),
-          notes: data.item.notes || ''
+          notes: data.item.notes || '',
+          storageLocation: data.item.storageLocation,
+          location: data.item.locationId || data.item.storageLocation,
+          nutritionalInfo: data.item.nutritionalInfo
         });
       } else {
         Alert.alert('Error', data.message || 'Failed to fetch item');
@@ -107,6 +134,64 @@ export default function EditItem() {
     }
   };
 
+  // Shelf-life hint for the item's current details
+  useEffect(() => {
+    if (isLoading || !itemData.name.trim()) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setShelfLife(await fetchShelfLifeSuggestion({
+          name: itemData.name.trim(),
+          category: itemData.category,
+          storageLocation: itemData.storageLocation,
+        }));
+      } catch (error) {
+        console.error('Shelf life suggestion error:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [isLoading, itemData.name, itemData.category, itemData.storageLocation]);
+
+  // Moving an item (e.g. fridge to freezer) changes how long it keeps
+  const handleLocationChange = (location: InventoryLocation) => {
+    const currentLocation = itemData.storageLocation;
+    const storageLocation = location.kind;
+    if (location.key === itemData.location) return;
+
+    setItemData(prev => ({ ...prev, location: location.key, storageLocation }));
+    // Only a different kind of storage changes the shelf life
+    if (!currentLocation || storageLocation === currentLocation) return;
+
+    Alert.alert(
+      'Recalculate Expiry?',
+      `Moving this item to ${location.name} changes how long it keeps.`,
+      [
+        { text: 'Keep Date', style: 'cancel' },
+        {
+          text: 'Recalculate',
+          onPress: async () => {
+            try {
+              const suggestion = await fetchShelfLifeSuggestion({
+                name: itemData.name.trim(),
+                category: itemData.category,
+                storageLocation,
+                currentLocation,
+                expirationDate: itemData.expirationDate,
+              });
+              if (suggestion) {
+                setItemData(prev => ({ ...prev, expirationDate: new Date(suggestion.expirationDate) }));
+              }
+            } catch (error) {
+              console.error('Recalculate expiry error:', error);
+              Alert.alert('Error', 'Could not recalculate the expiry date');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const handleSubmit = async () => {
     if (!itemData.name.trim()) {
       Alert.alert('Error', 'Please enter item name');
@@ -287,6 +372,32 @@ export default function EditItem() {
           </View>
         </View>
 
+        {/* Storage Location */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Storage</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.categoryContainer}>
+              {locations.map((location) => (
+                <TouchableOpacity
+                  key={location.key}
+                  style={[
+                    styles.categoryButton,
+                    itemData.location === location.key && styles.selectedCategory
+                  ]}
+                  onPress={() => handleLocationChange(location)}
+                >
+                  <Text style={[
+                    styles.categoryText,
+                    itemData.location === location.key && styles.selectedCategoryText
+                  ]}>
+                    {LOCATION_ICONS[location.kind]} {location.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
         {/* Expiration Date */}
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Expiration Date *</Text>
@@ -298,6 +409,20 @@ export default function EditItem() {
               {itemData.expirationDate.toLocaleDateString()}
             </Text>
           </TouchableOpacity>
+          {shelfLife && (
+            <View style={styles.shelfLifeRow}>
+              <Text style={[styles.shelfLifeText, !shelfLife.recommended && styles.shelfLifeWarning]}>
+                {describeShelfLife(shelfLife)}{shelfLife.recommended ? ' from today' : ''}
+              </Text>
+              {shelfLife.recommended && (
+                <TouchableOpacity
+                  onPress={() => setItemData({ ...itemData, expirationDate: new Date(shelfLife.expirationDate) })}
+                >
+                  <Text style={styles.shelfLifeAction}>Use suggestion</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
 
           {showDatePicker && (
             <DateTimePicker
@@ -309,6 +434,16 @@ export default function EditItem() {
           )}
         </View>
 
+        {/* Nutrition */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Nutrition per 100 g (Optional)</Text>
+          <NutritionFields
+            value={itemData.nutritionalInfo}
+            onChange={(nutritionalInfo) => setItemData({ ...itemData, nutritionalInfo })}
+          />
+          <Text style={styles.nutritionHint}>Leave empty to fill in from the item name</Text>
+        </View>
+
         {/* Notes */}
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Notes (Optional)</Text>
@@ -477,6 +612,31 @@ const styles = StyleSheet.create({
     color: '#111',
     fontFamily: 'LexendDeca-Regular',
   },
+  shelfLifeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  shelfLifeText: {
+    fontSize: 12,
+    color: '#666',
+    flex: 1,
+  },
+  shelfLifeWarning: {
+    color: '#dc2626',
+  },
+  shelfLifeAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#111',
+    textDecorationLine: 'underline',
+  },
+  nutritionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
   submitButton: {
     backgroundColor: '#111',
     borderRadius: 12,
@@ -0,0 +1,463 @@
+// household.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Share,
+} from 'react-native';
+import { router } from 'expo-router';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  Household,
+  HouseholdMember,
+  getInviteQrUrl,
+  householdRequest,
+  joinHousehold,
+} from '../utils/household';
+
+export default function HouseholdScreen() {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+
+  useEffect(() => {
+    fetchHousehold();
+  }, []);
+
+  const fetchHousehold = async () => {
+    try {
+      const data = await householdRequest('');
+      setHousehold(data.household);
+    } catch (error: any) {
+      console.error('Error fetching household:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      } else {
+        Alert.alert('Error', 'Could not load household.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a household action, updating the screen with the returned household
+  const runAction = async (action: () => Promise<Household | null>, successMessage?: string) => {
+    setWorking(true);
+    try {
+      const updated = await action();
+      setHousehold(updated);
+      if (successMessage) Alert.alert('Success', successMessage);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Something went wrong');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!householdName.trim()) {
+      Alert.alert('Error', 'Please enter a household name');
+      return;
+    }
+    runAction(async () => {
+      const data = await householdRequest('', 'POST', { name: householdName.trim() });
+      setHouseholdName('');
+      return data.household;
+    }, 'Household created! Your items are now shared.');
+  };
+
+  const handleJoin = () => {
+    if (!inviteCode.trim()) {
+      Alert.alert('Error', 'Please enter an invite code');
+      return;
+    }
+    runAction(async () => {
+      const joined = await joinHousehold(inviteCode.trim());
+      setInviteCode('');
+      return joined;
+    }, 'You joined the household!');
+  };
+
+  const handleCreateInvite = () => {
+    runAction(async () => {
+      const data = await householdRequest('/invite', 'POST');
+      return household && { ...household, invite: data.invite };
+    });
+  };
+
+  const handleShareInvite = async () => {
+    if (!household?.invite) return;
+    try {
+      await Share.share({
+        message: `Join our SnackSage household "${household.name}" with invite code ${household.invite.code}`,
+      });
+    } catch (error) {
+      console.error('Share invite error:', error);
+    }
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      'Leave Household',
+      'Shared items stay with the household. You will start with an empty pantry.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: () => runAction(async () => {
+            await householdRequest('/leave', 'POST');
+            return null;
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleMemberOptions = (member: HouseholdMember) => {
+    const newRole = member.role === 'owner' ? 'member' : 'owner';
+    Alert.alert(member.name, member.email, [
+      {
+        text: newRole === 'owner' ? 'Make owner' : 'Make member',
+        onPress: () => runAction(async () => {
+          const data = await householdRequest(`/members/${member.userId}`, 'PUT', { role: newRole });
+          return data.household;
+        }),
+      },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => runAction(async () => {
+          const data = await householdRequest(`/members/${member.userId}`, 'DELETE');
+          return data.household;
+        }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading household...</Text>
+      </View>
+    );
+  }
+
+  if (!household) {
+    return (
+      <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+        <HeaderWithBack title="Household" />
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Share your pantry</Text>
+          <Text style={styles.hint}>
+            Create a household to share your inventory with family or flatmates, or join one with an invite.
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Create a household</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder="e.g. Home"
+            placeholderTextColor="#888"
+            value={householdName}
+            onChangeText={setHouseholdName}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, working && styles.disabledButton]}
+            onPress={handleCreate}
+            disabled={working}
+          >
+            <Text style={styles.primaryButtonText}>Create Household</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Join with an invite</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder="Invite code"
+            placeholderTextColor="#888"
+            autoCapitalize="characters"
+            value={inviteCode}
+            onChangeText={setInviteCode}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, working && styles.disabledButton]}
+            onPress={handleJoin}
+            disabled={working}
+          >
+            <Text style={styles.primaryButtonText}>Join Household</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.push('./add-item?scan=invite')}
+          >
+            <Text style={styles.secondaryButtonText}>📷 Scan Invite QR Code</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  const isOwner = household.role === 'owner';
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <HeaderWithBack title={household.name} />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Members ({household.members.length})</Text>
+        {household.members.map(member => (
+          <TouchableOpacity
+            key={member.userId}
+            style={styles.memberCard}
+            onPress={() => handleMemberOptions(member)}
+            disabled={!isOwner}
+          >
+            <View style={styles.memberAvatar}>
+              <Text style={styles.memberAvatarText}>{member.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.memberInfo}>
+              <Text style={styles.memberName}>{member.name}</Text>
+              {member.email ? <Text style={styles.hint}>{member.email}</Text> : null}
+            </View>
+            <View style={[styles.roleBadge, member.role === 'owner' && styles.ownerBadge]}>
+              <Text style={[styles.roleText, member.role === 'owner' && styles.ownerText]}>
+                {member.role}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isOwner && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Invite</Text>
+          {household.invite ? (
+            <View style={styles.inviteCard}>
+              <Image
+                source={{ uri: getInviteQrUrl(household.invite.qrData) }}
+                style={styles.qrImage}
+              />
+              <Text style={styles.inviteCode}>{household.invite.code}</Text>
+              <Text style={styles.hint}>
+                Expires {new Date(household.invite.expiresAt).toLocaleDateString()}. Scan it from Add Item.
+              </Text>
+              <View style={styles.inviteActions}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleShareInvite}>
+                  <Text style={styles.secondaryButtonText}>Share Code</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleCreateInvite} disabled={working}>
+                  <Text style={styles.secondaryButtonText}>New Code</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.primaryButton, working && styles.disabledButton]}
+              onPress={handleCreateInvite}
+              disabled={working}
+            >
+              <Text style={styles.primaryButtonText}>Create Invite</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.leaveButton} onPress={handleLeave} disabled={working}>
+        <Text style={styles.leaveButtonText}>Leave Household</Text>
+      </TouchableOpacity>
+
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 12,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    marginBottom: 8,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    color: '#111',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#111',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: '#111',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  memberCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#eee',
+    marginBottom: 8,
+    backgroundColor: '#fafafa',
+  },
+  memberAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#111',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  memberAvatarText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  roleBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  ownerBadge: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  roleText: {
+    fontSize: 11,
+    color: '#111',
+    textTransform: 'uppercase',
+  },
+  ownerText: {
+    color: 'white',
+  },
+  inviteCard: {
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fafafa',
+  },
+  qrImage: {
+    width: 200,
+    height: 200,
+    marginBottom: 12,
+  },
+  inviteCode: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 4,
+    color: '#111',
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  leaveButton: {
+    marginHorizontal: 24,
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#dc2626',
+    alignItems: 'center',
+  },
+  leaveButtonText: {
+    color: '#dc2626',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  bottomSpacing: {
+    height: 60,
+  },
+});
@@ -1,11 +1,21 @@
 // inventory.tsx
 
-import React, { useEffect, useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator, Alert, RefreshControl, TextInput } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator, Alert, RefreshControl, TextInput, Modal } from 'react-native';
 import { router } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
 import HeaderWithBack from './components/HeaderWithBack';
 import {SERVER_URL} from '../constants/config';
+import { DEFAULT_EXPIRY_SETTINGS, ExpirySettings, fetchUserSettings, isExpired, isExpiringSoon } from '../utils/expiry';
+import {
+  InventoryLocation,
+  LOCATION_ICONS,
+  createLocation,
+  deleteLocation,
+  fetchLocations,
+  moveItems,
+} from '../utils/locations';
+import { STORAGE_LOCATIONS, StorageLocation } from '../utils/shelfLife';
 
 interface Item {
   _id: string;
@@ -18,8 +28,12 @@ interface Item {
   expirationDate: string;
   isUsed: boolean;
   notes: string;
+  storageLocation?: StorageLocation;
+  locationId?: string | null;
 }
 
+type DeleteReason = 'consumed' | 'discarded-expired' | 'discarded-spoiled';
+
 export default function Inventory() {
   const [inventory, setInventory] = useState<{ [category: string]: Item[] }>({});
   const [filteredInventory, setFilteredInventory] = useState<{ [category: string]: Item[] }>({});
@@ -27,8 +41,28 @@ export default function Inventory() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'expiring' | 'expired'>('all');
+  const [expirySettings, setExpirySettings] = useState<ExpirySettings>(DEFAULT_EXPIRY_SETTINGS);
+  const [groupBy, setGroupBy] = useState<'category' | 'location'>('category');
+  const [locationNames, setLocationNames] = useState<{ [key: string]: string }>({});
+  // Items picked (long press) for a bulk move
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [moveModalVisible, setMoveModalVisible] = useState(false);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [newLocationName, setNewLocationName] = useState('');
+  const [newLocationKind, setNewLocationKind] = useState<StorageLocation>('fridge');
 
-  const fetchInventory = async () => {
+  const fetchExpirySettings = async () => {
+    try {
+      const settings = await fetchUserSettings();
+      if (settings) {
+        setExpirySettings(settings.expirySettings);
+      }
+    } catch (error) {
+      console.error('Error fetching expiry settings:', error);
+    }
+  };
+
+  const fetchInventory = useCallback(async () => {
     try {
       const token = await SecureStore.getItemAsync('token');
       if (!token) {
@@ -36,7 +70,7 @@ export default function Inventory() {
         return;
       }
 
-      const response = await fetch(`${SERVER_URL}/api/items/inventory`, {
+      const response = await fetch(`${SERVER_URL}/api/items/inventory?groupBy=${groupBy}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
@@ -48,6 +82,7 @@ export default function Inventory() {
       if (response.ok) {
         setInventory(data.inventory);
         setFilteredInventory(data.inventory);
+        setLocationNames(data.locationNames || {});
       } else {
         throw new Error(data.message || 'Failed to fetch inventory');
       }
@@ -58,15 +93,19 @@ export default function Inventory() {
       setLoading(false);
       setRefreshing(false);
     }
-  };
+  }, [groupBy]);
 
   useEffect(() => {
-    fetchInventory();
+    fetchExpirySettings();
   }, []);
 
+  useEffect(() => {
+    fetchInventory();
+  }, [fetchInventory]);
+
   useEffect(() => {
     applyFilters();
-  }, [searchQuery, selectedFilter, inventory]);
+  }, [searchQuery, selectedFilter, inventory, expirySettings]);
 
   const applyFilters = () => {
     let filtered = { ...inventory };
@@ -94,7 +133,7 @@ export default function Inventory() {
           if (selectedFilter === 'expired') {
             return isExpired(item.expirationDate);
           } else if (selectedFilter === 'expiring') {
-            return !isExpired(item.expirationDate) && isExpiringSoon(item.expirationDate);
+            return !isExpired(item.expirationDate) && isExpiringSoon(item, expirySettings);
           }
           return true;
         });
@@ -113,46 +152,84 @@ export default function Inventory() {
     fetchInventory();
   };
 
-  const handleEditItem = (itemId: string) => {
-    router.push(`./edit-item?itemId=${itemId}`);
+  const toggleSelected = (itemId: string) => {
+    setSelectedItems(prev =>
+      prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]
+    );
+  };
+
+  const openMoveModal = async () => {
+    setMoveModalVisible(true);
+    try {
+      setLocations(await fetchLocations());
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      Alert.alert('Error', 'Could not load locations');
+    }
+  };
+
+  const runMove = async (location: InventoryLocation, recalculateExpiry: boolean) => {
+    try {
+      const data = await moveItems(selectedItems, location.key, recalculateExpiry);
+      setMoveModalVisible(false);
+      setSelectedItems([]);
+      Alert.alert('Success', data.message);
+      fetchInventory();
+    } catch (error: any) {
+      console.error('Error moving items:', error);
+      Alert.alert('Error', error.message || 'Could not move items');
+    }
+  };
+
+  const handleMoveTo = (location: InventoryLocation) => {
+    const selected = Object.values(inventory).flat().filter(item => selectedItems.includes(item._id));
+    const changesKind = selected.some(item => item.storageLocation && item.storageLocation !== location.kind);
+
+    if (!changesKind) {
+      runMove(location, false);
+      return;
+    }
+
+    Alert.alert(
+      'Recalculate Expiry?',
+      `Moving to ${location.name} changes how long some of these items keep.`,
+      [
+        { text: 'Keep Dates', onPress: () => runMove(location, false) },
+        { text: 'Recalculate', onPress: () => runMove(location, true) }
+      ]
+    );
   };
 
-  const handleDeleteItem = async (itemId: string) => {
+  const handleCreateLocation = async () => {
+    if (!newLocationName.trim()) {
+      Alert.alert('Error', 'Please enter a location name');
+      return;
+    }
+    try {
+      const location = await createLocation(newLocationName.trim(), newLocationKind);
+      setLocations(prev => [...prev, location]);
+      setNewLocationName('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not create location');
+    }
+  };
+
+  const handleDeleteLocation = (location: InventoryLocation) => {
     Alert.alert(
-      'Delete Item',
-      'Are you sure you want to delete this item?',
+      'Delete Location',
+      `Items in ${location.name} will move to the ${location.kind}.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const token = await SecureStore.getItemAsync('token');
-            if (!token) {
-              router.replace('/');
-              return;
-            }
-
             try {
-              const response = await fetch(`${SERVER_URL}/api/items/${itemId}`, {
-                method: 'DELETE',
-                headers: {
-                  'Authorization': `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-              });
-
-              const data = await response.json();
-
-              if (response.ok) {
-                Alert.alert('Success', 'Item deleted successfully');
-                fetchInventory();
-              } else {
-                throw new Error(data.message || 'Failed to delete item');
-              }
-            } catch (error) {
-              console.error('Error deleting item:', error);
-              Alert.alert('Error', 'Could not delete item');
+              await deleteLocation(location.key);
+              setLocations(prev => prev.filter(l => l.key !== location.key));
+              fetchInventory();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Could not delete location');
             }
           }
         }
@@ -160,26 +237,70 @@ export default function Inventory() {
     );
   };
 
-  const isExpiringSoon = (expirationDate: string) => {
-    const today = new Date();
-    const expDate = new Date(expirationDate);
-    const threeDaysFromNow = new Date(today.getTime() + (3 * 24 * 60 * 60 * 1000));
-    return expDate <= threeDaysFromNow && expDate >= today;
+  const handleEditItem = (itemId: string) => {
+    router.push(`./edit-item?itemId=${itemId}`);
   };
 
-  const isExpired = (expirationDate: string) => {
-    return new Date(expirationDate) < new Date();
+  const deleteItem = async (itemId: string, reason: DeleteReason) => {
+    const token = await SecureStore.getItemAsync('token');
+    if (!token) {
+      router.replace('/');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${SERVER_URL}/api/items/${itemId}?reason=${reason}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        Alert.alert('Success', reason === 'consumed' ? 'Enjoy! Item marked as used' : 'Item logged as wasted');
+        fetchInventory();
+      } else {
+        throw new Error(data.message || 'Failed to delete item');
+      }
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      Alert.alert('Error', 'Could not delete item');
+    }
   };
 
-  const getStatusColor = (expirationDate: string) => {
-    if (isExpired(expirationDate)) return '#ef4444';
-    if (isExpiringSoon(expirationDate)) return '#f59e0b';
+  const handleDeleteItem = async (item: Item) => {
+    const wasteReason: DeleteReason = isExpired(item.expirationDate) ? 'discarded-expired' : 'discarded-spoiled';
+
+    Alert.alert(
+      'Remove Item',
+      `Did you use ${item.name} or was it wasted?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Wasted',
+          style: 'destructive',
+          onPress: () => deleteItem(item._id, wasteReason)
+        },
+        {
+          text: 'Used',
+          onPress: () => deleteItem(item._id, 'consumed')
+        }
+      ]
+    );
+  };
+
+  const getStatusColor = (item: Item) => {
+    if (isExpired(item.expirationDate)) return '#ef4444';
+    if (isExpiringSoon(item, expirySettings)) return '#f59e0b';
     return '#10b981';
   };
 
-  const getStatusText = (expirationDate: string) => {
-    if (isExpired(expirationDate)) return 'EXPIRED';
-    if (isExpiringSoon(expirationDate)) return 'EXPIRING SOON';
+  const getStatusText = (item: Item) => {
+    if (isExpired(item.expirationDate)) return 'EXPIRED';
+    if (isExpiringSoon(item, expirySettings)) return 'EXPIRING SOON';
     return 'FRESH';
   };
 
@@ -187,6 +308,11 @@ export default function Inventory() {
     return Object.values(filteredInventory).reduce((total, items) => total + items.length, 0);
   };
 
+  const getGroupTitle = (group: string) => {
+    if (groupBy === 'location') return locationNames[group] || group;
+    return group.charAt(0).toUpperCase() + group.slice(1);
+  };
+
   const CategoryIcon = ({ category }: { category: string }) => {
     const icons: { [key: string]: string } = {
       vegetables: '🥬',
@@ -226,7 +352,7 @@ export default function Inventory() {
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
           <Text style={styles.statNumber}>{Object.keys(filteredInventory).length}</Text>
-          <Text style={styles.statLabel}>Categories</Text>
+          <Text style={styles.statLabel}>{groupBy === 'location' ? 'Locations' : 'Categories'}</Text>
         </View>
       </View>
 
@@ -273,6 +399,23 @@ export default function Inventory() {
               Expired
             </Text>
           </TouchableOpacity>
+          <View style={styles.filterDivider} />
+          <TouchableOpacity
+            style={[styles.filterButton, groupBy === 'category' && styles.activeFilter]}
+            onPress={() => setGroupBy('category')}
+          >
+            <Text style={[styles.filterText, groupBy === 'category' && styles.activeFilterText]}>
+              By Category
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterButton, groupBy === 'location' && styles.activeFilter]}
+            onPress={() => setGroupBy('location')}
+          >
+            <Text style={[styles.filterText, groupBy === 'location' && styles.activeFilterText]}>
+              By Location
+            </Text>
+          </TouchableOpacity>
         </ScrollView>
       </View>
 
@@ -310,9 +453,15 @@ export default function Inventory() {
             <View key={category} style={styles.categoryContainer}>
               <View style={styles.categoryHeader}>
                 <View style={styles.categoryTitleContainer}>
-                  <CategoryIcon category={category} />
+                  {groupBy === 'location' ? (
+                    <Text style={styles.categoryIcon}>
+                      {LOCATION_ICONS[items[0]?.storageLocation || 'unassigned']}
+                    </Text>
+                  ) : (
+                    <CategoryIcon category={category} />
+                  )}
                   <Text style={styles.categoryTitle}>
-                    {category.charAt(0).toUpperCase() + category.slice(1)}
+                    {getGroupTitle(category)}
                   </Text>
                 </View>
                 <View style={styles.categoryCount}>
@@ -323,13 +472,19 @@ export default function Inventory() {
               <View style={styles.itemsGrid}>
                 {items.map((item) => {
                   const expired = isExpired(item.expirationDate);
-                  const expiringSoon = !expired && isExpiringSoon(item.expirationDate);
+                  const expiringSoon = !expired && isExpiringSoon(item, expirySettings);
                   
                   return (
-                    <View key={item._id} style={styles.itemCard}>
+                    <TouchableOpacity
+                      key={item._id}
+                      style={[styles.itemCard, selectedItems.includes(item._id) && styles.selectedItemCard]}
+                      activeOpacity={0.9}
+                      onLongPress={() => toggleSelected(item._id)}
+                      onPress={() => selectedItems.length > 0 && toggleSelected(item._id)}
+                    >
                       <View style={styles.itemHeader}>
                         <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
-                        <View style={[styles.statusDot, { backgroundColor: getStatusColor(item.expirationDate) }]} />
+                        <View style={[styles.statusDot, { backgroundColor: getStatusColor(item) }]} />
                       </View>
                       
                       <Text style={styles.itemQuantity}>
@@ -340,8 +495,8 @@ export default function Inventory() {
                         Exp: {new Date(item.expirationDate).toLocaleDateString()}
                       </Text>
 
-                      <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.expirationDate) }]}>
-                        <Text style={styles.statusText}>{getStatusText(item.expirationDate)}</Text>
+                      <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item) }]}>
+                        <Text style={styles.statusText}>{getStatusText(item)}</Text>
                       </View>
                       
                       {item.notes && (
@@ -357,13 +512,13 @@ export default function Inventory() {
                         </TouchableOpacity>
                         
                         <TouchableOpacity 
-                          onPress={() => handleDeleteItem(item._id)} 
+                          onPress={() => handleDeleteItem(item)} 
                           style={styles.deleteButton}
                         >
                           <Text style={styles.deleteButtonText}>Delete</Text>
                         </TouchableOpacity>
                       </View>
-                    </View>
+                    </TouchableOpacity>
                   );
                 })}
               </View>
@@ -374,13 +529,86 @@ export default function Inventory() {
         <View style={styles.bottomSpacing} />
       </ScrollView>
 
-      {/* Floating Add Button */}
-      <TouchableOpacity 
-        style={styles.floatingAddButton}
-        onPress={() => router.push('./add-item')}
+      {selectedItems.length > 0 ? (
+        /* Bulk Move Bar */
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionText}>{selectedItems.length} selected</Text>
+          <TouchableOpacity onPress={() => setSelectedItems([])} style={styles.selectionCancel}>
+            <Text style={styles.selectionCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={openMoveModal} style={styles.selectionMove}>
+            <Text style={styles.selectionMoveText}>Move</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        /* Floating Add Button */
+        <TouchableOpacity 
+          style={styles.floatingAddButton}
+          onPress={() => router.push('./add-item')}
+        >
+          <Text style={styles.floatingAddButtonText}>+</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Move Items Modal */}
+      <Modal
+        visible={moveModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setMoveModalVisible(false)}
       >
-        <Text style={styles.floatingAddButtonText}>+</Text>
-      </TouchableOpacity>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Move {selectedItems.length} item{selectedItems.length === 1 ? '' : 's'} to</Text>
+              <TouchableOpacity onPress={() => setMoveModalVisible(false)}>
+                <Text style={styles.clearSearchText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.locationList}>
+              {locations.map(location => (
+                <TouchableOpacity
+                  key={location.key}
+                  style={styles.locationRow}
+                  onPress={() => handleMoveTo(location)}
+                  onLongPress={() => location.custom && handleDeleteLocation(location)}
+                >
+                  <Text style={styles.categoryIcon}>{LOCATION_ICONS[location.kind]}</Text>
+                  <Text style={styles.locationName}>{location.name}</Text>
+                  <Text style={styles.locationCount}>{location.itemCount ?? 0}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <Text style={styles.locationHint}>Long-press a custom location to delete it</Text>
+
+            <Text style={styles.newLocationLabel}>New location</Text>
+            <TextInput
+              style={styles.newLocationInput}
+              placeholder="e.g. Garage freezer"
+              placeholderTextColor="#9ca3af"
+              value={newLocationName}
+              onChangeText={setNewLocationName}
+            />
+            <View style={styles.kindRow}>
+              {STORAGE_LOCATIONS.map(kind => (
+                <TouchableOpacity
+                  key={kind.value}
+                  style={[styles.filterButton, newLocationKind === kind.value && styles.activeFilter]}
+                  onPress={() => setNewLocationKind(kind.value)}
+                >
+                  <Text style={[styles.filterText, newLocationKind === kind.value && styles.activeFilterText]}>
+                    {LOCATION_ICONS[kind.value]} {kind.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.addButton} onPress={handleCreateLocation}>
+              <Text style={styles.addButtonText}>Add Location</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -528,6 +756,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 32,
     paddingVertical: 16,
     borderRadius: 12,
+    alignItems: 'center',
   },
   addButtonText: {
     color: '#ffffff',
@@ -704,4 +933,121 @@ const styles = StyleSheet.create({
   bottomSpacing: {
     height: 100,
   },
+  filterDivider: {
+    width: 1,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 4,
+  },
+  selectedItemCard: {
+    borderColor: '#111827',
+    borderWidth: 2,
+  },
+  selectionBar: {
+    position: 'absolute',
+    bottom: 24,
+    left: 24,
+    right: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111827',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  selectionText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  selectionCancel: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  selectionCancelText: {
+    color: '#cbd5e1',
+    fontSize: 14,
+  },
+  selectionMove: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  selectionMoveText: {
+    color: '#111827',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  locationList: {
+    maxHeight: 260,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  locationName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  locationCount: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  locationHint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 8,
+  },
+  newLocationLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  newLocationInput: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  kindRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,374 @@
+// knowledge.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import Markdown from 'react-native-markdown-display';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  KnowledgeAnswer,
+  KnowledgeDocument,
+  askKnowledge,
+  fetchKnowledgeDocuments,
+  formatSource,
+} from '../utils/knowledge';
+
+const SUGGESTED_QUESTIONS = [
+  'How long can cooked rice stay in the fridge?',
+  'Is it safe to refreeze thawed chicken?',
+  'Which foods are good sources of iron?',
+];
+
+export default function Knowledge() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  // Documents to search; empty means all of them
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  // Newest first
+  const [answers, setAnswers] = useState<KnowledgeAnswer[]>([]);
+  // "answerIndex-chunkIndex" of the source whose passage is shown
+  const [expandedSource, setExpandedSource] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  const loadDocuments = async () => {
+    try {
+      const all = await fetchKnowledgeDocuments();
+      setDocuments(all.filter(document => document.status === 'indexed'));
+    } catch (error: any) {
+      console.error('Error fetching knowledge documents:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      }
+    }
+  };
+
+  const toggleDocument = (documentId: string) => {
+    setSelectedIds(prev => (prev.includes(documentId)
+      ? prev.filter(id => id !== documentId)
+      : [...prev, documentId]));
+  };
+
+  const handleAsk = async (text = question) => {
+    const trimmed = text.trim();
+    if (!trimmed || asking) return;
+
+    setAsking(true);
+    try {
+      const answer = await askKnowledge(trimmed, selectedIds.length ? selectedIds : undefined);
+      setAnswers(prev => [answer, ...prev]);
+      setExpandedSource(null);
+      setQuestion('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not get an answer');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const bestMatch = (answer: KnowledgeAnswer) =>
+    Math.max(0, ...answer.chunks.map(chunk => chunk.similarity));
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <HeaderWithBack title="Knowledge Base" />
+
+      {documents.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow} contentContainerStyle={styles.filterContent}>
+          <TouchableOpacity
+            style={[styles.filterChip, selectedIds.length === 0 && styles.filterChipActive]}
+            onPress={() => setSelectedIds([])}
+          >
+            <Text style={[styles.filterChipText, selectedIds.length === 0 && styles.filterChipTextActive]}>All documents</Text>
+          </TouchableOpacity>
+          {documents.map(document => {
+            const active = selectedIds.includes(document._id);
+            return (
+              <TouchableOpacity
+                key={document._id}
+                style={[styles.filterChip, active && styles.filterChipActive]}
+                onPress={() => toggleDocument(document._id)}
+              >
+                <Text style={[styles.filterChipText, active && styles.filterChipTextActive]} numberOfLines={1}>
+                  📄 {document.title}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="Ask about nutrition or food safety..."
+          placeholderTextColor="#888"
+          value={question}
+          onChangeText={setQuestion}
+          onSubmitEditing={() => handleAsk()}
+          returnKeyType="send"
+          editable={!asking}
+        />
+        <TouchableOpacity
+          style={[styles.askButton, (!question.trim() || asking) && styles.askButtonDisabled]}
+          onPress={() => handleAsk()}
+          disabled={!question.trim() || asking}
+        >
+          {asking ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.askButtonText}>Ask</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {answers.length === 0 && !asking && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>📚</Text>
+            <Text style={styles.emptyText}>
+              Answers come only from the cookbooks and guides in the knowledge base, with the passages they are based on.
+            </Text>
+            {SUGGESTED_QUESTIONS.map(suggestion => (
+              <TouchableOpacity key={suggestion} style={styles.suggestion} onPress={() => handleAsk(suggestion)}>
+                <Text style={styles.suggestionText}>{suggestion}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {answers.map((answer, answerIndex) => (
+          <View key={`${answers.length - answerIndex}`} style={styles.answerCard}>
+            <Text style={styles.question}>{answer.question}</Text>
+
+            {answer.found ? (
+              <Markdown style={markdownStyles}>{answer.answer}</Markdown>
+            ) : (
+              <View style={styles.notFound}>
+                <Text style={styles.notFoundTitle}>📭 Not in the knowledge base</Text>
+                <Text style={styles.notFoundText}>
+                  {answer.chunks.length > 0
+                    ? `The closest passage was a ${Math.round(bestMatch(answer) * 100)}% match, below the ${Math.round(answer.threshold * 100)}% needed for an answer.`
+                    : 'No documents could be searched for this question.'}
+                </Text>
+              </View>
+            )}
+
+            {answer.chunks.length > 0 && (
+              <>
+                <Text style={styles.sourcesTitle}>{answer.found ? 'Sources' : 'Closest passages'}</Text>
+                {answer.chunks.map((chunk, chunkIndex) => {
+                  const key = `${answerIndex}-${chunkIndex}`;
+                  const expanded = expandedSource === key;
+                  return (
+                    <TouchableOpacity
+                      key={key}
+                      style={styles.source}
+                      onPress={() => setExpandedSource(expanded ? null : key)}
+                      activeOpacity={0.8}
+                    >
+                      <View style={styles.sourceHeader}>
+                        <Text style={styles.sourceName} numberOfLines={1}>📄 {formatSource(chunk)}</Text>
+                        <Text style={styles.sourceScore}>{Math.round(chunk.similarity * 100)}%</Text>
+                      </View>
+                      <Text style={styles.sourceText} numberOfLines={expanded ? undefined : 2}>{chunk.text}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </>
+            )}
+          </View>
+        ))}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const markdownStyles = {
+  body: { fontSize: 15, lineHeight: 22, color: '#1a1a1a' },
+  paragraph: { marginBottom: 6 },
+  list_item: { marginBottom: 3 },
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  filterContent: {
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  filterChip: {
+    maxWidth: 220,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fafafa',
+  },
+  filterChipActive: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#111',
+    fontWeight: '500',
+  },
+  filterChipTextActive: {
+    color: 'white',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    color: '#111',
+  },
+  askButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  askButtonDisabled: {
+    backgroundColor: '#999',
+  },
+  askButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 32,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  suggestion: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    backgroundColor: '#fafafa',
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#111',
+  },
+  answerCard: {
+    marginHorizontal: 24,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+  },
+  question: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111',
+    marginBottom: 10,
+  },
+  notFound: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fafafa',
+  },
+  notFoundTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    marginBottom: 4,
+  },
+  notFoundText: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
+  sourcesTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  source: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  sourceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sourceName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111',
+    marginRight: 8,
+  },
+  sourceScore: {
+    fontSize: 12,
+    color: '#666',
+  },
+  sourceText: {
+    fontSize: 13,
+    color: '#444',
+    lineHeight: 18,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
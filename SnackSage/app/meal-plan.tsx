@@ -0,0 +1,463 @@
+// meal-plan.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  MEAL_SLOT_LABELS,
+  MealPlan,
+  PlannedMeal,
+  fetchCurrentMealPlan,
+  generateMealPlan,
+  regenerateMeal,
+  swapMeals,
+  updateMeal,
+} from '../utils/mealPlans';
+import { addMealPlanIngredients, describeAddResult } from '../utils/shoppingList';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// YYYY-MM-DD -> { weekday, day } without timezone shifts
+const describeDate = (date: string) => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return { weekday: WEEKDAYS[parsed.getUTCDay()], day: parsed.getUTCDate() };
+};
+
+export default function MealPlanScreen() {
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  // Meal waiting for a second tap to swap places with
+  const [swapSource, setSwapSource] = useState<PlannedMeal | null>(null);
+  const [busyMealId, setBusyMealId] = useState<string | null>(null);
+
+  const showPlan = useCallback((updated: MealPlan | null) => {
+    setPlan(updated);
+    if (!updated) return;
+    const dates = [...new Set(updated.meals.map(meal => meal.date))];
+    setSelectedDate(current => (current && dates.includes(current) ? current : dates[0] || null));
+  }, []);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      showPlan(await fetchCurrentMealPlan());
+    } catch (error: any) {
+      console.error('Error fetching meal plan:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      } else {
+        Alert.alert('Error', 'Could not load your meal plan.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [showPlan]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      showPlan(await generateMealPlan(plan?.weekStart));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not generate a meal plan');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAddToShoppingList = async () => {
+    if (!plan) return;
+    try {
+      const result = await addMealPlanIngredients(plan._id);
+      Alert.alert('Shopping List', describeAddResult(result));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not add to shopping list');
+    }
+  };
+
+  // Run an action on one meal, showing a spinner on its card
+  const runMealAction = async (meal: PlannedMeal, action: () => Promise<MealPlan>) => {
+    setBusyMealId(meal._id);
+    try {
+      showPlan(await action());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Something went wrong');
+    } finally {
+      setBusyMealId(null);
+    }
+  };
+
+  const handleToggleLock = (meal: PlannedMeal) => {
+    if (!plan) return;
+    runMealAction(meal, () => updateMeal(plan._id, meal._id, { locked: !meal.locked }));
+  };
+
+  const handleRegenerate = (meal: PlannedMeal) => {
+    if (!plan) return;
+    runMealAction(meal, () => regenerateMeal(plan._id, meal._id));
+  };
+
+  const handleMealPress = (meal: PlannedMeal) => {
+    if (!plan) return;
+
+    if (swapSource) {
+      const source = swapSource;
+      setSwapSource(null);
+      if (source._id !== meal._id) {
+        runMealAction(meal, () => swapMeals(plan._id, source._id, meal._id));
+      }
+      return;
+    }
+
+    const ingredients = encodeURIComponent(meal.mainIngredients.join(','));
+    router.push(`./recipe-chat?recipeName=${encodeURIComponent(meal.name)}&ingredients=${ingredients}&servings=${meal.servings || plan.servings}`);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading meal plan...</Text>
+      </View>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <View style={styles.container}>
+        <HeaderWithBack title="Meal Plan" />
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyIcon}>📅</Text>
+          <Text style={styles.emptyTitle}>No plan for this week</Text>
+          <Text style={styles.emptyText}>
+            Get a 7-day plan built from your pantry that uses up expiring items first.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, generating && styles.disabledButton]}
+            onPress={handleGenerate}
+            disabled={generating}
+          >
+            {generating ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Plan My Week</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const dates = [...new Set(plan.meals.map(meal => meal.date))];
+  const dayMeals = plan.meals.filter(meal => meal.date === selectedDate);
+
+  return (
+    <View style={styles.container}>
+      <HeaderWithBack title="Meal Plan" />
+
+      {/* Day strip */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayStrip}>
+        {dates.map(date => {
+          const { weekday, day } = describeDate(date);
+          const selected = date === selectedDate;
+          return (
+            <TouchableOpacity
+              key={date}
+              style={[styles.dayButton, selected && styles.selectedDay]}
+              onPress={() => setSelectedDate(date)}
+            >
+              <Text style={[styles.dayWeekday, selected && styles.selectedDayText]}>{weekday}</Text>
+              <Text style={[styles.dayNumber, selected && styles.selectedDayText]}>{day}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {swapSource && (
+        <View style={styles.swapBanner}>
+          <Text style={styles.swapBannerText}>Tap a meal to swap with {swapSource.name}</Text>
+          <TouchableOpacity onPress={() => setSwapSource(null)}>
+            <Text style={styles.swapCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ScrollView style={styles.mealList} showsVerticalScrollIndicator={false}>
+        {dayMeals.map(meal => (
+          <TouchableOpacity
+            key={meal._id}
+            style={[styles.mealCard, swapSource?._id === meal._id && styles.swapSourceCard]}
+            onPress={() => handleMealPress(meal)}
+            activeOpacity={0.8}
+          >
+            <View style={styles.mealHeader}>
+              <Text style={styles.mealSlot}>{MEAL_SLOT_LABELS[meal.slot]}</Text>
+              {busyMealId === meal._id ? (
+                <ActivityIndicator size="small" color="#111" />
+              ) : (
+                <View style={styles.mealActions}>
+                  <TouchableOpacity onPress={() => handleToggleLock(meal)} style={styles.mealAction}>
+                    <Text style={styles.mealActionIcon}>{meal.locked ? '🔒' : '🔓'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setSwapSource(meal)} style={styles.mealAction}>
+                    <Text style={styles.mealActionIcon}>⇄</Text>
+                  </TouchableOpacity>
+                  {!meal.locked && (
+                    <TouchableOpacity onPress={() => handleRegenerate(meal)} style={styles.mealAction}>
+                      <Text style={styles.mealActionIcon}>↻</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+            </View>
+
+            <Text style={styles.mealName}>{meal.name}</Text>
+            {meal.description ? <Text style={styles.mealDescription}>{meal.description}</Text> : null}
+
+            <View style={styles.mealInfo}>
+              {meal.cookingTime ? <Text style={styles.mealInfoText}>⏱️ {meal.cookingTime}</Text> : null}
+              {meal.difficulty ? <Text style={styles.mealInfoText}>{meal.difficulty}</Text> : null}
+              {meal.cuisine ? <Text style={styles.mealInfoText}>{meal.cuisine}</Text> : null}
+            </View>
+
+            {meal.usesExpiring.length > 0 && (
+              <View style={styles.expiringBadge}>
+                <Text style={styles.expiringBadgeText}>Uses up: {meal.usesExpiring.join(', ')}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, generating && styles.disabledButton]}
+          onPress={handleGenerate}
+          disabled={generating}
+        >
+          {generating ? (
+            <ActivityIndicator color="#111" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Regenerate Unlocked Meals</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleAddToShoppingList}>
+          <Text style={styles.secondaryButtonText}>🛒 Add Missing to Shopping List</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>Lock the meals you want to keep. Tap a meal to chat about the recipe.</Text>
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 8,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  primaryButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#111',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#111',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  dayStrip: {
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  dayButton: {
+    width: 52,
+    paddingVertical: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  selectedDay: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  dayWeekday: {
+    fontSize: 12,
+    color: '#666',
+  },
+  dayNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+  },
+  selectedDayText: {
+    color: 'white',
+  },
+  swapBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 24,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  swapBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400e',
+  },
+  swapCancel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  mealList: {
+    paddingHorizontal: 24,
+  },
+  mealCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#eee',
+    backgroundColor: '#fafafa',
+    marginBottom: 12,
+  },
+  swapSourceCard: {
+    borderColor: '#f59e0b',
+    borderWidth: 2,
+  },
+  mealHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  mealSlot: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  mealActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  mealAction: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  mealActionIcon: {
+    fontSize: 18,
+  },
+  mealName: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  mealDescription: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  mealInfo: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  mealInfoText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  expiringBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#ecfdf5',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
+  expiringBadgeText: {
+    fontSize: 12,
+    color: '#047857',
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
@@ -0,0 +1,463 @@
+// my-recipes.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  RecipeFilters,
+  SavedRecipe,
+  deleteSavedRecipe,
+  fetchSavedRecipes,
+  setRecipeFavorite,
+  setRecipeTags,
+} from '../utils/recipes';
+
+export default function MyRecipes() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<SavedRecipe | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const filters: RecipeFilters = {
+    q: search.trim() || undefined,
+    tag: selectedTag || undefined,
+    favorite: favoritesOnly,
+  };
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timeout = setTimeout(() => fetchRecipes({
+      q: search.trim() || undefined,
+      tag: selectedTag || undefined,
+      favorite: favoritesOnly,
+    }), 300);
+    return () => clearTimeout(timeout);
+  }, [search, selectedTag, favoritesOnly]);
+
+  const fetchRecipes = async (recipeFilters: RecipeFilters) => {
+    try {
+      const data = await fetchSavedRecipes(recipeFilters);
+      setRecipes(data.recipes);
+      setTags(data.tags);
+    } catch (error: any) {
+      console.error('Error fetching recipes:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      } else {
+        Alert.alert('Error', 'Could not load your recipes.');
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchRecipes(filters);
+  };
+
+  const replaceRecipe = (updated: SavedRecipe) => {
+    setRecipes(prev => prev.map(recipe => (recipe._id === updated._id ? updated : recipe)));
+  };
+
+  const handleToggleFavorite = async (recipe: SavedRecipe) => {
+    try {
+      replaceRecipe(await setRecipeFavorite(recipe._id, !recipe.favorite));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not update recipe');
+    }
+  };
+
+  const openEditor = (recipe: SavedRecipe) => {
+    setEditingRecipe(recipe);
+    setTagInput(recipe.tags.join(', '));
+  };
+
+  const handleSaveTags = async () => {
+    if (!editingRecipe) return;
+    try {
+      await setRecipeTags(editingRecipe._id, tagInput.split(','));
+      setEditingRecipe(null);
+      fetchRecipes(filters);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not update tags');
+    }
+  };
+
+  const handleDelete = (recipe: SavedRecipe) => {
+    Alert.alert('Delete Recipe', `Remove ${recipe.name} from your recipes?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteSavedRecipe(recipe._id);
+            setEditingRecipe(null);
+            fetchRecipes(filters);
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Could not delete recipe');
+          }
+        },
+      },
+    ]);
+  };
+
+  const openRecipe = (recipe: SavedRecipe) => {
+    router.push(`./recipe-chat?recipeId=${recipe._id}`);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading recipes...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderWithBack title="My Recipes" />
+
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by name, ingredient or tag..."
+          placeholderTextColor="#888"
+          value={search}
+          onChangeText={setSearch}
+        />
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow} contentContainerStyle={styles.filterContent}>
+        <TouchableOpacity
+          style={[styles.filterChip, !favoritesOnly && !selectedTag && styles.filterChipActive]}
+          onPress={() => { setFavoritesOnly(false); setSelectedTag(null); }}
+        >
+          <Text style={[styles.filterChipText, !favoritesOnly && !selectedTag && styles.filterChipTextActive]}>All</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterChip, favoritesOnly && styles.filterChipActive]}
+          onPress={() => setFavoritesOnly(value => !value)}
+        >
+          <Text style={[styles.filterChipText, favoritesOnly && styles.filterChipTextActive]}>★ Favorites</Text>
+        </TouchableOpacity>
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.filterChip, selectedTag === tag && styles.filterChipActive]}
+            onPress={() => setSelectedTag(selectedTag === tag ? null : tag)}
+          >
+            <Text style={[styles.filterChipText, selectedTag === tag && styles.filterChipTextActive]}>#{tag}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {recipes.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>📖</Text>
+            <Text style={styles.emptyText}>
+              {search || selectedTag || favoritesOnly
+                ? 'No recipes match these filters.'
+                : 'No saved recipes yet. Save a recipe suggestion from the dashboard or the recipe chat.'}
+            </Text>
+          </View>
+        )}
+
+        {recipes.map(recipe => (
+          <TouchableOpacity
+            key={recipe._id}
+            style={styles.recipeCard}
+            onPress={() => openRecipe(recipe)}
+            onLongPress={() => openEditor(recipe)}
+            activeOpacity={0.8}
+          >
+            <View style={styles.recipeHeader}>
+              <Text style={styles.recipeName} numberOfLines={2}>{recipe.name}</Text>
+              <TouchableOpacity onPress={() => handleToggleFavorite(recipe)} style={styles.favoriteButton}>
+                <Text style={[styles.favoriteIcon, recipe.favorite && styles.favoriteIconActive]}>
+                  {recipe.favorite ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {recipe.description ? (
+              <Text style={styles.recipeDescription} numberOfLines={2}>{recipe.description}</Text>
+            ) : null}
+            <Text style={styles.recipeMeta}>
+              {[recipe.cookingTime, recipe.difficulty, recipe.cuisine].filter(Boolean).join(' · ')}
+              {recipe.healthScore !== undefined ? ` · ⭐ ${recipe.healthScore}/10` : ''}
+            </Text>
+            {recipe.tags.length > 0 && (
+              <View style={styles.tagRow}>
+                {recipe.tags.map(tag => (
+                  <View key={tag} style={styles.tag}>
+                    <Text style={styles.tagText}>#{tag}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+
+        {recipes.length > 0 && (
+          <Text style={styles.hint}>Tap a recipe to open it. Long-press to edit tags or delete it.</Text>
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+
+      <Modal
+        visible={!!editingRecipe}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setEditingRecipe(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalSheet}>
+            <Text style={styles.modalTitle} numberOfLines={1}>{editingRecipe?.name}</Text>
+            <Text style={styles.modalLabel}>Tags (comma separated)</Text>
+            <TextInput
+              style={styles.searchInput}
+              placeholder="weeknight, vegetarian"
+              placeholderTextColor="#888"
+              value={tagInput}
+              onChangeText={setTagInput}
+              autoCapitalize="none"
+            />
+            <TouchableOpacity style={styles.primaryButton} onPress={handleSaveTags}>
+              <Text style={styles.primaryButtonText}>Save Tags</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => editingRecipe && handleDelete(editingRecipe)}
+            >
+              <Text style={styles.deleteButtonText}>Delete Recipe</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setEditingRecipe(null)}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  searchRow: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    color: '#111',
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  filterContent: {
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fafafa',
+  },
+  filterChipActive: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#111',
+    fontWeight: '500',
+  },
+  filterChipTextActive: {
+    color: 'white',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  recipeCard: {
+    marginHorizontal: 24,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#eee',
+    backgroundColor: '#fafafa',
+  },
+  recipeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  recipeName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  favoriteButton: {
+    paddingLeft: 12,
+  },
+  favoriteIcon: {
+    fontSize: 22,
+    color: '#bbb',
+  },
+  favoriteIconActive: {
+    color: '#f59e0b',
+  },
+  recipeDescription: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  recipeMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 8,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#eee',
+  },
+  tagText: {
+    fontSize: 11,
+    color: '#555',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalSheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 16,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  modalLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  deleteButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#dc2626',
+  },
+  deleteButtonText: {
+    color: '#dc2626',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
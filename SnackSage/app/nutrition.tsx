@@ -0,0 +1,368 @@
+// nutrition.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  NUTRIENTS,
+  NutritionLogEntry,
+  NutritionSummary,
+  STATUS_COLORS,
+  deleteNutritionLogEntry,
+  fetchNutritionLog,
+  fetchNutritionSummary,
+} from '../utils/nutrition';
+
+type Period = 'today' | 'week';
+
+const STATUS_LABELS = {
+  under: 'Below target',
+  'on-track': 'On track',
+  over: 'Over target',
+};
+
+export default function NutritionScreen() {
+  const [summary, setSummary] = useState<NutritionSummary | null>(null);
+  const [entries, setEntries] = useState<NutritionLogEntry[]>([]);
+  const [period, setPeriod] = useState<Period>('today');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [summaryData, logEntries] = await Promise.all([fetchNutritionSummary(), fetchNutritionLog()]);
+      setSummary(summaryData);
+      setEntries(logEntries);
+    } catch (error: any) {
+      console.error('Error fetching nutrition:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      } else {
+        Alert.alert('Error', 'Could not load nutrition data.');
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchData();
+  };
+
+  const handleDeleteEntry = (entry: NutritionLogEntry) => {
+    Alert.alert(
+      'Remove Entry',
+      `Remove ${entry.itemName} from your intake?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteNutritionLogEntry(entry._id);
+              fetchData();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Could not remove entry');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading nutrition...</Text>
+      </View>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <View style={styles.container}>
+        <HeaderWithBack title="Nutrition" />
+      </View>
+    );
+  }
+
+  const comparison = period === 'today' ? summary.today.comparison : summary.week.comparison;
+  const maxDayCalories = Math.max(...summary.week.days.map(day => day.totals.calories), summary.targets.calories);
+
+  return (
+    <View style={styles.container}>
+      <HeaderWithBack title="Nutrition" />
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.section}>
+          <View style={styles.periodRow}>
+            {(['today', 'week'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.periodButton, period === option && styles.selectedPeriod]}
+                onPress={() => setPeriod(option)}
+              >
+                <Text style={[styles.periodText, period === option && styles.selectedPeriodText]}>
+                  {option === 'today' ? 'Today' : 'Last 7 Days'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>
+            {summary.goals.length > 0
+              ? `Targets adjusted for: ${summary.goals.join(', ')}`
+              : 'Add health goals in your profile to personalise targets'}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          {NUTRIENTS.map(({ key, label, unit }) => {
+            const nutrient = comparison[key];
+            return (
+              <View key={key} style={styles.nutrientRow}>
+                <View style={styles.nutrientHeader}>
+                  <Text style={styles.nutrientLabel}>{label}</Text>
+                  <Text style={styles.nutrientValue}>
+                    {nutrient.intake} / {nutrient.target} {unit}
+                  </Text>
+                </View>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        width: `${Math.min(nutrient.percent, 100)}%`,
+                        backgroundColor: STATUS_COLORS[nutrient.status],
+                      }
+                    ]}
+                  />
+                </View>
+                <Text style={[styles.statusText, { color: STATUS_COLORS[nutrient.status] }]}>
+                  {STATUS_LABELS[nutrient.status]} · {nutrient.percent}%
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {period === 'week' ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Calories per Day</Text>
+            <View style={styles.chart}>
+              {summary.week.days.map(day => (
+                <View key={day.date} style={styles.chartColumn}>
+                  <View style={styles.chartBarTrack}>
+                    <View
+                      style={[
+                        styles.chartBar,
+                        { height: `${(day.totals.calories / maxDayCalories) * 100}%` }
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.chartLabel}>{day.date.slice(8)}</Text>
+                </View>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              Daily average: {summary.week.dailyAverage.calories} kcal, {summary.week.dailyAverage.protein} g protein
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Eaten Today</Text>
+            {entries.length === 0 ? (
+              <Text style={styles.hint}>
+                Nothing logged yet. Nutrients are added when you mark items as used.
+              </Text>
+            ) : (
+              entries.map(entry => (
+                <TouchableOpacity
+                  key={entry._id}
+                  style={styles.entryCard}
+                  onLongPress={() => handleDeleteEntry(entry)}
+                >
+                  <View style={styles.entryInfo}>
+                    <Text style={styles.entryName}>{entry.itemName}</Text>
+                    <Text style={styles.hint}>
+                      {entry.quantity.amount} {entry.quantity.unit} · {Math.round(entry.weightGrams)} g
+                    </Text>
+                  </View>
+                  <Text style={styles.entryCalories}>{Math.round(entry.nutrients.calories)} kcal</Text>
+                </TouchableOpacity>
+              ))
+            )}
+            {entries.length > 0 && (
+              <Text style={styles.hint}>Long-press an entry to remove it</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 12,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  periodButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  selectedPeriod: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  periodText: {
+    fontSize: 14,
+    color: '#111',
+  },
+  selectedPeriodText: {
+    color: 'white',
+  },
+  nutrientRow: {
+    marginBottom: 16,
+  },
+  nutrientHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  nutrientLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  nutrientValue: {
+    fontSize: 14,
+    color: '#444',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f1f5f9',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  chart: {
+    flexDirection: 'row',
+    height: 140,
+    alignItems: 'flex-end',
+    marginBottom: 8,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+    height: '100%',
+  },
+  chartBarTrack: {
+    flex: 1,
+    width: 18,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    width: '100%',
+    backgroundColor: '#111',
+    borderRadius: 4,
+  },
+  chartLabel: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 4,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#eee',
+    marginBottom: 8,
+    backgroundColor: '#fafafa',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  entryCalories: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111',
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
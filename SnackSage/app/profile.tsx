@@ -25,6 +25,8 @@ interface UserProfile {
     skillLevel: string;
     householdSize: number;
     mealFrequency: string;
+    allergens?: string[];
+    intolerances?: string[];
   };
 }
 
@@ -51,6 +53,9 @@ export default function Profile() {
   const cuisineOptions = ['Indian', 'Mediterranean', 'Italian', 'Chinese', 'Mexican', 'American', 'Thai', 'Japanese'];
   const skillLevelOptions = ['beginner', 'intermediate', 'advanced'];
   const mealFrequencyOptions = ['2 meals/day', '3 meals/day', '4 meals/day', '5 meals/day'];
+  // Recommended recipes are checked against these on the server
+  const allergenOptions = ['nuts', 'peanuts', 'gluten', 'shellfish', 'fish', 'eggs', 'dairy', 'soy', 'sesame'];
+  const intoleranceOptions = ['lactose', 'gluten'];
 
   useEffect(() => {
     fetchProfile();
@@ -152,10 +157,13 @@ export default function Profile() {
     setEditMode(false);
   };
 
-  const toggleSelection = (field: 'healthGoals' | 'cuisinePreferences', value: string) => {
+  const toggleSelection = (
+    field: 'healthGoals' | 'cuisinePreferences' | 'allergens' | 'intolerances',
+    value: string
+  ) => {
     if (!editedProfile) return;
 
-    const currentArray = editedProfile.preferences[field];
+    const currentArray = editedProfile.preferences[field] || [];
     const newArray = currentArray.includes(value)
       ? currentArray.filter(item => item !== value)
       : [...currentArray, value];
@@ -291,6 +299,30 @@ export default function Profile() {
             </View>
           </View>
 
+          <View style={styles.infoCard}>
+            <Text style={styles.infoLabel}>Allergies & Intolerances</Text>
+            {(profile.preferences.allergens?.length || profile.preferences.intolerances?.length) ? (
+              <View style={styles.tagsContainer}>
+                {(profile.preferences.allergens || []).map((allergen) => (
+                  <View key={`allergen-${allergen}`} style={styles.tag}>
+                    <Text style={styles.tagText}>
+                      {allergen.charAt(0).toUpperCase() + allergen.slice(1)} allergy
+                    </Text>
+                  </View>
+                ))}
+                {(profile.preferences.intolerances || []).map((intolerance) => (
+                  <View key={`intolerance-${intolerance}`} style={styles.tag}>
+                    <Text style={styles.tagText}>
+                      {intolerance.charAt(0).toUpperCase() + intolerance.slice(1)} intolerance
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.infoValue}>None</Text>
+            )}
+          </View>
+
           <View style={styles.infoCard}>
             <Text style={styles.infoLabel}>Skill Level</Text>
             <View style={styles.infoTagContainer}>
@@ -419,6 +451,46 @@ export default function Profile() {
           </View>
         </View>
 
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Allergies</Text>
+          <View style={styles.optionsWrap}>
+            {allergenOptions.map((allergen) => {
+              const selected = (editedProfile.preferences.allergens || []).includes(allergen);
+              return (
+                <TouchableOpacity
+                  key={allergen}
+                  style={[styles.categoryButton, selected && styles.selectedCategory]}
+                  onPress={() => toggleSelection('allergens', allergen)}
+                >
+                  <Text style={[styles.categoryText, selected && styles.selectedCategoryText]}>
+                    {allergen.charAt(0).toUpperCase() + allergen.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Intolerances</Text>
+          <View style={styles.optionsWrap}>
+            {intoleranceOptions.map((intolerance) => {
+              const selected = (editedProfile.preferences.intolerances || []).includes(intolerance);
+              return (
+                <TouchableOpacity
+                  key={intolerance}
+                  style={[styles.categoryButton, selected && styles.selectedCategory]}
+                  onPress={() => toggleSelection('intolerances', intolerance)}
+                >
+                  <Text style={[styles.categoryText, selected && styles.selectedCategoryText]}>
+                    {intolerance.charAt(0).toUpperCase() + intolerance.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Skill Level</Text>
           <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,6 +10,7 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
+  Modal,
 } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -19,29 +20,285 @@ import { MaterialIcons } from '@expo/vector-icons';
 import HeaderWithBack from './components/HeaderWithBack';
 
 import { SERVER_URL } from '../constants/config';
+import { confirmAndCookRecipe } from '../utils/cooking';
+import { beginCooking, savedRecipeToInstructions } from '../utils/cookingProgress';
+import RecipeInstructionsCard from './components/RecipeInstructionsCard';
+import {
+  RecipeInstructions,
+  SavedRecipe,
+  fetchSavedRecipe,
+  formatRecipeMarkdown,
+  saveRecipe,
+  startRecipeChat,
+  streamChatMessage,
+} from '../utils/recipes';
 
 interface Message {
   id: string;
   text: string;
   isUser: boolean;
   timestamp: Date;
+  // Structured recipe, rendered instead of the Markdown text
+  recipe?: RecipeInstructions;
+}
+
+// Markdown stripped down to what should be read aloud
+const cleanForSpeech = (text: string) => text
+  .replace(/[#*_`]/g, '')
+  .replace(/\n+/g, '. ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Length of the text up to the end of its last finished sentence
+const finishedSentencesLength = (text: string) => {
+  let length = 0;
+  for (const match of text.matchAll(/[.!?](?=\s)|\n/g)) {
+    length = (match.index ?? 0) + match[0].length;
+  }
+  return length;
+};
+
+interface ChatSessionSummary {
+  sessionId: string;
+  recipeName?: string;
+  messageCount: number;
+  lastMessage: string;
+  updatedAt: string;
+}
+
+interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
 }
 
 export default function RecipeChat() {
-  const { recipeName } = useLocalSearchParams<{ recipeName: string }>();
+  const params = useLocalSearchParams<{
+    recipeName?: string;
+    sessionId?: string;
+    recipeId?: string;
+    ingredients?: string;
+    servings?: string;
+  }>();
+  const [recipeName, setRecipeName] = useState<string | undefined>(params.recipeName);
+  const [sessionId, setSessionId] = useState<string | null>(params.sessionId ?? null);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [historyVisible, setHistoryVisible] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTtsEnabled, setIsTtsEnabled] = useState(true);
+  // Read replies aloud sentence by sentence while they stream in
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  // Message receiving streamed text
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   /** Tracks which message (if any) is currently being spoken */
   const [currentSpeakingId, setCurrentSpeakingId] = useState<string | null>(null);
+  const [savedRecipe, setSavedRecipe] = useState<SavedRecipe | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [instructions, setInstructions] = useState<RecipeInstructions | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  const cancelStreamRef = useRef<(() => void) | null>(null);
+  // How much of the streaming reply has been queued for speech
+  const spokenLengthRef = useRef(0);
+
+  const recipeIngredients: string[] = (() => {
+    try {
+      return params.ingredients ? JSON.parse(decodeURIComponent(params.ingredients)) : [];
+    } catch {
+      return [];
+    }
+  })();
+
+  // Saved recipes and generated instructions have quantities, so cook from those
+  const cookIngredients = savedRecipe
+    ? savedRecipe.ingredients
+    : instructions
+      ? instructions.ingredients.map(({ name, amount, unit }) => ({
+          name,
+          amount: amount ?? undefined,
+          unit: unit ?? undefined,
+        }))
+      : recipeIngredients;
+
+  const handleMarkCooked = () => {
+    if (!recipeName) return;
+    confirmAndCookRecipe({
+      name: decodeURIComponent(recipeName),
+      ingredients: cookIngredients,
+      servings: savedRecipe?.servings || Number(params.servings) || undefined,
+    });
+  };
+
+  // Steps to walk through in cooking mode, from the generated or saved recipe
+  const cookingRecipe = instructions
+    ?? (savedRecipe && savedRecipe.steps.length > 0 ? savedRecipeToInstructions(savedRecipe) : null);
+
+  const handleStartCooking = async () => {
+    if (!cookingRecipe) return;
+    try {
+      await Speech.stop();
+      setCurrentSpeakingId(null);
+      const progress = await beginCooking(cookingRecipe);
+      router.push(`./cooking-mode?key=${progress.key}`);
+    } catch (err) {
+      console.error('Start cooking error:', err);
+      Alert.alert('Error', 'Could not start cooking mode.');
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!recipeName || savedRecipe) return;
+    setIsSaving(true);
+    try {
+      const result = await saveRecipe(
+        instructions
+          ? {
+              name: instructions.name,
+              description: instructions.description,
+              ingredients: cookIngredients,
+              steps: instructions.steps.map(step => step.instruction),
+              difficulty: instructions.difficulty,
+              cookingTime: instructions.totalTimeMinutes ? `${instructions.totalTimeMinutes} minutes` : undefined,
+              servings: instructions.servings ?? undefined,
+              source: 'chat',
+            }
+          : {
+              name: decodeURIComponent(recipeName),
+              ingredients: recipeIngredients,
+              servings: Number(params.servings) || undefined,
+              source: 'chat',
+            }
+      );
+      setSavedRecipe(result.recipe);
+      Alert.alert('Saved', `${result.recipe.name} is in My Recipes.`);
+    } catch (err: any) {
+      console.error('Save recipe error:', err);
+      Alert.alert('Error', err.message || 'Could not save this recipe.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Open a saved recipe from storage instead of generating it again
+  useEffect(() => {
+    if (params.recipeId) {
+      loadSavedRecipe(params.recipeId);
+    }
+  }, [params.recipeId]);
+
+  const loadSavedRecipe = async (id: string) => {
+    try {
+      const recipe = await fetchSavedRecipe(id);
+      setSavedRecipe(recipe);
+      setRecipeName(recipe.name);
+      setMessages([
+        {
+          id: `saved-${recipe._id}`,
+          text: formatRecipeMarkdown(recipe),
+          isUser: false,
+          timestamp: new Date(recipe.updatedAt),
+        },
+      ]);
+    } catch (err) {
+      console.error('Load saved recipe error:', err);
+      Alert.alert('Error', 'Could not load this recipe.');
+    }
+  };
 
   // --------------------------------------------------------------
-  // 1. INITIAL WELCOME + AUTO-ASK RECIPE
+  // 1. INITIAL WELCOME + AUTO-ASK RECIPE (or resume a past session)
   // --------------------------------------------------------------
+  const loadInstructions = useCallback(async (name: string) => {
+    setIsLoading(true);
+    try {
+      const data = await startRecipeChat(name);
+      setSessionId(data.sessionId);
+      setInstructions(data.recipe);
+      setMessages(prev => [
+        ...prev,
+        {
+          id: `${data.sessionId}-recipe`,
+          text: data.response,
+          isUser: false,
+          timestamp: new Date(),
+          recipe: data.recipe,
+        },
+      ]);
+    } catch (err) {
+      console.error('Load instructions error:', err);
+      // Fall back to asking in the chat
+      setInputText(`Can you provide me with a detailed recipe for ${name}? Please include ingredients, step-by-step instructions, cooking time, and any helpful tips.`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // --------------------------------------------------------------
+  // 1b. SESSION HISTORY
+  // --------------------------------------------------------------
+  const getAuthHeaders = useCallback(async () => {
+    const token = await SecureStore.getItemAsync('token');
+    if (!token) {
+      router.replace('/');
+      return null;
+    }
+    return {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }, []);
+
+  const stopStreaming = useCallback(() => {
+    cancelStreamRef.current?.();
+    cancelStreamRef.current = null;
+    setStreamingId(null);
+    setIsLoading(false);
+  }, []);
+
+  const loadSession = useCallback(async (id: string) => {
+    try {
+      const headers = await getAuthHeaders();
+      if (!headers) return;
+
+      const res = await fetch(`${SERVER_URL}/api/recipes/chat/sessions/${id}`, { headers });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to load conversation');
+      }
+
+      stopStreaming();
+      await Speech.stop();
+      setCurrentSpeakingId(null);
+      setSessionId(data.session.sessionId);
+      setRecipeName(data.session.recipeName);
+      setInputText('');
+      setMessages(
+        data.session.messages.map((msg: StoredChatMessage, index: number) => ({
+          id: `${data.session.sessionId}-${index}`,
+          text: msg.content,
+          isUser: msg.role === 'user',
+          timestamp: new Date(msg.createdAt),
+        }))
+      );
+    } catch (err) {
+      console.error('Load session error:', err);
+      Alert.alert('Error', 'Could not load this conversation.');
+    }
+  }, [getAuthHeaders, stopStreaming]);
+
+  // Resume the session the screen was opened with
+  useEffect(() => {
+    if (!params.recipeId && params.sessionId) {
+      loadSession(params.sessionId);
+    }
+  }, [params.recipeId, params.sessionId, loadSession]);
+
+  // Welcome a new chat and ask for the recipe. Resuming a past session
+  // changes the recipe name too, but comes with its session id.
   useEffect(() => {
-    if (recipeName) {
+    if (params.recipeId || params.sessionId) return;
+    if (recipeName && !sessionId) {
       const decoded = decodeURIComponent(recipeName);
       const welcome: Message = {
         id: Date.now().toString(),
@@ -50,11 +307,67 @@ export default function RecipeChat() {
         timestamp: new Date(),
       };
       setMessages([welcome]);
+      loadInstructions(decoded);
+    }
+  }, [params.recipeId, params.sessionId, recipeName, sessionId, loadInstructions]);
+
+  const fetchSessions = async () => {
+    try {
+      const headers = await getAuthHeaders();
+      if (!headers) return;
 
-      const initialPrompt = `Can you provide me with a detailed recipe for ${decoded}? Please include ingredients, step-by-step instructions, cooking time, and any helpful tips.`;
-      setInputText(initialPrompt);
+      const res = await fetch(`${SERVER_URL}/api/recipes/chat/sessions`, { headers });
+      const data = await res.json();
+      if (res.ok) {
+        setSessions(data.sessions || []);
+      }
+    } catch (err) {
+      console.error('Fetch sessions error:', err);
     }
-  }, [recipeName]);
+  };
+
+  const openHistory = () => {
+    setHistoryVisible(true);
+    fetchSessions();
+  };
+
+  const resumeSession = (id: string) => {
+    setHistoryVisible(false);
+    loadSession(id);
+  };
+
+  const deleteSession = (id: string) => {
+    Alert.alert('Delete Conversation', 'This conversation will be removed permanently.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const headers = await getAuthHeaders();
+            if (!headers) return;
+
+            const res = await fetch(`${SERVER_URL}/api/recipes/chat/sessions/${id}`, {
+              method: 'DELETE',
+              headers,
+            });
+            if (!res.ok) {
+              throw new Error('Failed to delete conversation');
+            }
+
+            setSessions(prev => prev.filter(s => s.sessionId !== id));
+            if (id === sessionId) {
+              setSessionId(null);
+              setMessages([]);
+            }
+          } catch (err) {
+            console.error('Delete session error:', err);
+            Alert.alert('Error', 'Could not delete this conversation.');
+          }
+        },
+      },
+    ]);
+  };
 
   // --------------------------------------------------------------
   // 2. TTS HELPERS
@@ -83,11 +396,7 @@ export default function RecipeChat() {
     const voices = await Speech.getAvailableVoicesAsync();
     const voice = voices.find(v => v.language.startsWith('en')) || voices[0];
 
-    const cleanText = rawText
-      .replace(/[#*_`]/g, '')
-      .replace(/\n+/g, '. ')
-      .replace(/\s+/g, ' ')
-      .trim();
+    const cleanText = cleanForSpeech(rawText);
 
     if (!cleanText) return;
 
@@ -112,8 +421,28 @@ export default function RecipeChat() {
     });
   };
 
+  // Queue the sentences of a streaming reply that are finished and not yet
+  // spoken; `final` speaks whatever is left
+  const speakNewSentences = (reply: string, final = false) => {
+    if (!autoSpeak || !isTtsEnabled) return;
+    const pending = reply.slice(spokenLengthRef.current);
+    const length = final ? pending.length : finishedSentencesLength(pending);
+    if (length === 0) return;
+
+    spokenLengthRef.current += length;
+    const text = cleanForSpeech(pending.slice(0, length));
+    if (text) {
+      Speech.speak(text, { language: 'en-US', pitch: 1.0, rate: 0.95 });
+    }
+  };
+
+  const handleCancel = () => {
+    stopStreaming();
+    Speech.stop();
+  };
+
   // --------------------------------------------------------------
-  // 3. SEND MESSAGE
+  // 3. SEND MESSAGE (the reply streams in as it is generated)
   // --------------------------------------------------------------
   const sendMessage = async () => {
     if (!inputText.trim()) return;
@@ -132,62 +461,50 @@ export default function RecipeChat() {
     // stop any playing speech
     await Speech.stop();
     setCurrentSpeakingId(null);
+    spokenLengthRef.current = 0;
+
+    const aiId = `${Date.now()}-ai`;
+    const showReply = (text: string) => {
+      setStreamingId(aiId);
+      setMessages(prev => (prev.some(msg => msg.id === aiId)
+        ? prev.map(msg => (msg.id === aiId ? { ...msg, text } : msg))
+        : [...prev, { id: aiId, text, isUser: false, timestamp: new Date() }]));
+    };
+    const showError = (text: string) => {
+      setMessages(prev => [...prev, { id: `${Date.now()}-err`, text, isUser: false, timestamp: new Date() }]);
+    };
 
     try {
-      const token = await SecureStore.getItemAsync('token');
-      if (!token) {
+      cancelStreamRef.current = await streamChatMessage(
+        { message: userMsg.text, recipeName, sessionId },
+        {
+          onStart: setSessionId,
+          onToken: reply => {
+            showReply(reply);
+            speakNewSentences(reply);
+          },
+          onDone: (reply, newSessionId) => {
+            setSessionId(newSessionId);
+            showReply(reply);
+            speakNewSentences(reply, true);
+            stopStreaming();
+          },
+          onError: message => {
+            console.error('Chat stream error:', message);
+            showError(message.includes('Network') ? message : 'Something went wrong. Try again.');
+            stopStreaming();
+          },
+        }
+      );
+    } catch (err: any) {
+      console.error(err);
+      stopStreaming();
+      if (err.message === 'Not signed in') {
         Alert.alert('Auth error', 'Please log in again.');
         router.replace('/');
         return;
       }
-
-      const res = await fetch(`${SERVER_URL}/api/recipes/chat/message`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: userMsg.text, recipeName }),
-      });
-
-      const raw = await res.text();
-
-      let data;
-      try {
-        data = JSON.parse(raw);
-      } catch {
-        throw new Error('Invalid JSON from server');
-      }
-
-      if (!res.ok || !data.reply) {
-        throw new Error(data.message || 'Server error');
-      }
-
-      const aiId = `${Date.now()}`;
-      const aiMsg: Message = {
-        id: aiId,
-        text: data.reply,
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, aiMsg]);
-
-      // **NO AUTO-SPEAK**
-      // (removed the setTimeout + speakMessage call)
-    } catch (err: any) {
-      console.error(err);
-      const errMsg: Message = {
-        id: `${Date.now()}-err`,
-        text: err.message?.includes('Network')
-          ? 'Network error – check your connection.'
-          : 'Something went wrong. Try again.',
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errMsg]);
-    } finally {
-      setIsLoading(false);
+      showError('Something went wrong. Try again.');
     }
   };
 
@@ -214,7 +531,13 @@ export default function RecipeChat() {
           <Text style={styles.userText}>{msg.text}</Text>
         ) : (
           <View style={styles.aiContent}>
-            <Markdown style={markdownStyles}>{msg.text}</Markdown>
+            {msg.recipe ? (
+              <RecipeInstructionsCard recipe={msg.recipe} />
+            ) : (
+              <Markdown style={markdownStyles}>
+                {msg.id === streamingId ? `${msg.text} ▍` : msg.text}
+              </Markdown>
+            )}
 
             <TouchableOpacity
               style={styles.speakBtn}
@@ -257,11 +580,43 @@ export default function RecipeChat() {
     >
       <HeaderWithBack />
 
+      <TouchableOpacity style={styles.historyBtn} onPress={openHistory}>
+        <MaterialIcons name="history" size={22} color="#111" />
+      </TouchableOpacity>
+
       {recipeName && (
         <View style={styles.recipeHeader}>
           <Text style={styles.recipeTitle} numberOfLines={1}>
             {decodeURIComponent(recipeName)}
           </Text>
+          <View style={styles.recipeActions}>
+            {cookingRecipe && (
+              <TouchableOpacity style={styles.cookedBtn} onPress={handleStartCooking}>
+                <MaterialIcons name="play-arrow" size={14} color="#fff" />
+                <Text style={styles.cookedTxt}>Cook step by step</Text>
+              </TouchableOpacity>
+            )}
+            {cookIngredients.length > 0 && (
+              <TouchableOpacity style={styles.cookedBtn} onPress={handleMarkCooked}>
+                <MaterialIcons name="restaurant" size={14} color="#fff" />
+                <Text style={styles.cookedTxt}>Mark as cooked</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveBtn, savedRecipe && styles.saveBtnSaved]}
+              onPress={handleSaveRecipe}
+              disabled={!!savedRecipe || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#111" />
+              ) : (
+                <>
+                  <MaterialIcons name={savedRecipe ? 'bookmark' : 'bookmark-border'} size={14} color="#111" />
+                  <Text style={styles.saveTxt}>{savedRecipe ? 'Saved' : 'Save recipe'}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
         </View>
       )}
 
@@ -273,7 +628,7 @@ export default function RecipeChat() {
       >
         {messages.map(renderMessage)}
 
-        {isLoading && (
+        {isLoading && !streamingId && (
           <View style={[styles.messageWrapper, styles.aiWrapper]}>
             <View style={[styles.bubble, styles.aiBubble]}>
               <View style={styles.typing}>
@@ -299,6 +654,19 @@ export default function RecipeChat() {
           <Text style={styles.ttsLabel}>TTS {isTtsEnabled ? 'ON' : 'OFF'}</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          onPress={() => setAutoSpeak(v => !v)}
+          style={styles.ttsToggle}
+          disabled={!isTtsEnabled}
+        >
+          <MaterialIcons
+            name={autoSpeak && isTtsEnabled ? 'hearing' : 'hearing-disabled'}
+            size={20}
+            color={autoSpeak && isTtsEnabled ? '#111' : '#999'}
+          />
+          <Text style={styles.ttsLabel}>Read aloud {autoSpeak ? 'ON' : 'OFF'}</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           onPress={() => speakMessage('test', 'This is a test of text-to-speech.')}
           style={styles.testBtn}
@@ -318,18 +686,75 @@ export default function RecipeChat() {
             multiline
             maxLength={500}
           />
-          <TouchableOpacity
-            style={[
-              styles.sendBtn,
-              (!inputText.trim() || isLoading) && styles.sendBtnDisabled,
-            ]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isLoading}
-          >
-            <MaterialIcons name="send" size={20} color="#fff" />
-          </TouchableOpacity>
+          {isLoading ? (
+            <TouchableOpacity style={styles.sendBtn} onPress={handleCancel}>
+              <MaterialIcons name="stop" size={20} color="#fff" />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.sendBtn, !inputText.trim() && styles.sendBtnDisabled]}
+              onPress={sendMessage}
+              disabled={!inputText.trim()}
+            >
+              <MaterialIcons name="send" size={20} color="#fff" />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
+
+      {/* PAST CONVERSATIONS */}
+      <Modal
+        visible={historyVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setHistoryVisible(false)}
+      >
+        <View style={styles.historyOverlay}>
+          <View style={styles.historySheet}>
+            <View style={styles.historyHeader}>
+              <Text style={styles.historyTitle}>Past conversations</Text>
+              <TouchableOpacity onPress={() => setHistoryVisible(false)}>
+                <MaterialIcons name="close" size={22} color="#111" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView>
+              {sessions.length === 0 ? (
+                <Text style={styles.historyEmpty}>No saved conversations yet</Text>
+              ) : (
+                sessions.map(session => (
+                  <TouchableOpacity
+                    key={session.sessionId}
+                    style={[
+                      styles.historyItem,
+                      session.sessionId === sessionId && styles.historyItemActive,
+                    ]}
+                    onPress={() => resumeSession(session.sessionId)}
+                  >
+                    <View style={styles.historyItemBody}>
+                      <Text style={styles.historyItemTitle} numberOfLines={1}>
+                        {session.recipeName ? decodeURIComponent(session.recipeName) : 'General chat'}
+                      </Text>
+                      <Text style={styles.historyItemPreview} numberOfLines={1}>
+                        {session.lastMessage.replace(/[#*_`]/g, '')}
+                      </Text>
+                      <Text style={styles.historyItemMeta}>
+                        {session.messageCount} messages · {new Date(session.updatedAt).toLocaleDateString()}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.historyDeleteBtn}
+                      onPress={() => deleteSession(session.sessionId)}
+                    >
+                      <MaterialIcons name="delete-outline" size={20} color="#dc2626" />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </KeyboardAvoidingView>
   );
 }
@@ -364,6 +789,37 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#111',
   },
+  cookedBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#111',
+  },
+  cookedTxt: { marginLeft: 6, fontSize: 12, color: '#fff', fontWeight: '600' },
+  recipeActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#111',
+  },
+  saveBtnSaved: {
+    backgroundColor: '#f0f0f0',
+    borderColor: '#ddd',
+  },
+  saveTxt: { marginLeft: 6, fontSize: 12, color: '#111', fontWeight: '600' },
 
   chatArea: { flex: 1 },
   chatContent: { padding: 12 },
@@ -444,4 +900,48 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   sendBtnDisabled: { backgroundColor: '#ccc' },
+
+  historyBtn: {
+    position: 'absolute',
+    top: 58,
+    right: 20,
+    padding: 6,
+    zIndex: 10,
+  },
+  historyOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  historySheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '70%',
+    paddingBottom: 24,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e8e8e8',
+  },
+  historyTitle: { fontSize: 16, fontWeight: '600', color: '#111' },
+  historyEmpty: { padding: 24, textAlign: 'center', color: '#999', fontSize: 13 },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f1f1',
+  },
+  historyItemActive: { backgroundColor: '#fafafa' },
+  historyItemBody: { flex: 1, marginRight: 8 },
+  historyItemTitle: { fontSize: 14, fontWeight: '600', color: '#111' },
+  historyItemPreview: { fontSize: 12, color: '#666', marginTop: 2 },
+  historyItemMeta: { fontSize: 11, color: '#999', marginTop: 4 },
+  historyDeleteBtn: { padding: 6 },
 });
@@ -0,0 +1,467 @@
+// settings.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as SecureStore from 'expo-secure-store';
+import HeaderWithBack from './components/HeaderWithBack';
+import { SERVER_URL } from '../constants/config';
+import { fetchUserSettings, UserSettings } from '../utils/expiry';
+
+const categories = [
+  'vegetables', 'fruits', 'dairy', 'meat', 'grains', 'pantry',
+  'spices', 'beverages', 'frozen', 'canned', 'other'
+];
+
+const timeOptions = ['07:00', '08:00', '12:00', '17:00', '19:00', '21:00'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function Settings() {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Overrides the user cleared, sent as null so the server removes them
+  const [removedOverrides, setRemovedOverrides] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const data = await fetchUserSettings();
+      if (!data) {
+        router.replace('/');
+        return;
+      }
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      Alert.alert('Error', 'Could not load settings.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateExpiry = (changes: Partial<UserSettings['expirySettings']>) => {
+    if (!settings) return;
+    setSettings({ ...settings, expirySettings: { ...settings.expirySettings, ...changes } });
+  };
+
+  const updateNotifications = (changes: Partial<UserSettings['notificationSettings']>) => {
+    if (!settings) return;
+    setSettings({ ...settings, notificationSettings: { ...settings.notificationSettings, ...changes } });
+  };
+
+  const setOverride = (category: string, days: number | null) => {
+    if (!settings) return;
+    const overrides = { ...settings.expirySettings.categoryOverrides };
+    if (days === null) {
+      delete overrides[category];
+      setRemovedOverrides(prev => [...prev, category]);
+    } else {
+      overrides[category] = Math.min(365, Math.max(1, days));
+      setRemovedOverrides(prev => prev.filter(c => c !== category));
+    }
+    updateExpiry({ categoryOverrides: overrides });
+  };
+
+  const toggleTime = (time: string) => {
+    if (!settings) return;
+    const times = settings.notificationSettings.times;
+    updateNotifications({
+      times: times.includes(time) ? times.filter(t => t !== time) : [...times, time].sort(),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const { quietHours } = settings.notificationSettings;
+    if (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+      Alert.alert('Invalid time', 'Quiet hours must use the HH:MM format, e.g. 22:00.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = await SecureStore.getItemAsync('token');
+      if (!token) {
+        router.replace('/');
+        return;
+      }
+
+      const categoryOverrides: { [category: string]: number | null } = {
+        ...settings.expirySettings.categoryOverrides,
+      };
+      removedOverrides.forEach(category => {
+        if (!(category in categoryOverrides)) categoryOverrides[category] = null;
+      });
+
+      const response = await fetch(`${SERVER_URL}/api/profile/settings`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          expirySettings: { ...settings.expirySettings, categoryOverrides },
+          notificationSettings: settings.notificationSettings,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.errors?.join('\n') || data.message || 'Failed to save settings');
+      }
+
+      setSettings({
+        expirySettings: data.expirySettings,
+        notificationSettings: data.notificationSettings,
+        timezone: data.timezone,
+      });
+      setRemovedOverrides([]);
+      Alert.alert('Success', 'Settings saved!');
+    } catch (error: any) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', error.message || 'Could not save settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStepper = (value: number, onChange: (value: number) => void, step = 1) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.max(1, value - step))}>
+        <Text style={styles.stepperButtonText}>-</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}d</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(value + step)}>
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading || !settings) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading settings...</Text>
+      </View>
+    );
+  }
+
+  const { expirySettings, notificationSettings } = settings;
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <HeaderWithBack title="Alerts & Expiry" />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Expiry windows</Text>
+
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.label}>Expiring soon</Text>
+            <Text style={styles.hint}>Items are flagged this many days before they expire</Text>
+          </View>
+          {renderStepper(expirySettings.expiringSoonDays, days =>
+            updateExpiry({ expiringSoonDays: Math.min(90, days) })
+          )}
+        </View>
+
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.label}>Use within</Text>
+            <Text style={styles.hint}>Recipe suggestions prioritise items inside this window</Text>
+          </View>
+          {renderStepper(expirySettings.useWithinDays, days =>
+            updateExpiry({ useWithinDays: Math.min(180, days) })
+          )}
+        </View>
+
+        <Text style={[styles.label, styles.subheading]}>Per-category overrides</Text>
+        {categories.map(category => {
+          const override = expirySettings.categoryOverrides[category];
+          return (
+            <View key={category} style={styles.row}>
+              <Text style={styles.categoryLabel}>
+                {category.charAt(0).toUpperCase() + category.slice(1)}
+              </Text>
+              {override ? (
+                <View style={styles.overrideControls}>
+                  {renderStepper(override, days => setOverride(category, days))}
+                  <TouchableOpacity onPress={() => setOverride(category, null)}>
+                    <Text style={styles.resetText}>Reset</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.chip}
+                  onPress={() => setOverride(category, expirySettings.expiringSoonDays)}
+                >
+                  <Text style={styles.chipText}>Default ({expirySettings.expiringSoonDays}d)</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Notifications</Text>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>Push notifications</Text>
+          <Switch
+            value={notificationSettings.channels.push}
+            onValueChange={push => updateNotifications({ channels: { ...notificationSettings.channels, push } })}
+          />
+        </View>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>Show alerts while app is open</Text>
+          <Switch
+            value={notificationSettings.channels.inApp}
+            onValueChange={inApp => updateNotifications({ channels: { ...notificationSettings.channels, inApp } })}
+          />
+        </View>
+
+        <Text style={[styles.label, styles.subheading]}>Alert times</Text>
+        <View style={styles.chipsWrap}>
+          {timeOptions.map(time => {
+            const selected = notificationSettings.times.includes(time);
+            return (
+              <TouchableOpacity
+                key={time}
+                style={[styles.chip, selected && styles.selectedChip]}
+                onPress={() => toggleTime(time)}
+              >
+                <Text style={[styles.chipText, selected && styles.selectedChipText]}>{time}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={[styles.row, styles.subheading]}>
+          <Text style={styles.label}>Quiet hours</Text>
+          <Switch
+            value={notificationSettings.quietHours.enabled}
+            onValueChange={enabled =>
+              updateNotifications({ quietHours: { ...notificationSettings.quietHours, enabled } })
+            }
+          />
+        </View>
+        {notificationSettings.quietHours.enabled && (
+          <View style={styles.quietHoursRow}>
+            <TextInput
+              style={styles.timeInput}
+              value={notificationSettings.quietHours.start}
+              onChangeText={start =>
+                updateNotifications({ quietHours: { ...notificationSettings.quietHours, start } })
+              }
+              placeholder="22:00"
+              placeholderTextColor="#888"
+              maxLength={5}
+            />
+            <Text style={styles.hint}>to</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={notificationSettings.quietHours.end}
+              onChangeText={end =>
+                updateNotifications({ quietHours: { ...notificationSettings.quietHours, end } })
+              }
+              placeholder="07:00"
+              placeholderTextColor="#888"
+              maxLength={5}
+            />
+          </View>
+        )}
+        <Text style={styles.hint}>Times are in your device timezone ({settings.timezone})</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, saving && styles.disabledButton]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.saveButtonText}>Save Settings</Text>
+        )}
+      </TouchableOpacity>
+
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 12,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  subheading: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  categoryLabel: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#111',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111',
+  },
+  stepperValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111',
+  },
+  overrideControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  resetText: {
+    fontSize: 12,
+    color: '#dc2626',
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+  },
+  selectedChip: {
+    backgroundColor: '#111',
+    borderColor: '#111',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  quietHoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    minWidth: 80,
+    textAlign: 'center',
+    backgroundColor: '#fafafa',
+    color: '#111',
+  },
+  saveButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 18,
+    alignItems: 'center',
+    marginHorizontal: 24,
+    marginTop: 24,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  bottomSpacing: {
+    height: 60,
+  },
+});
@@ -0,0 +1,349 @@
+// shopping-list.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import HeaderWithBack from './components/HeaderWithBack';
+import {
+  ShoppingList,
+  ShoppingListEntry,
+  addShoppingItem,
+  checkShoppingItem,
+  clearCheckedItems,
+  deleteShoppingItem,
+  fetchShoppingList,
+} from '../utils/shoppingList';
+
+const CATEGORY_ICONS: { [key: string]: string } = {
+  vegetables: '🥬',
+  fruits: '🍎',
+  dairy: '🥛',
+  meat: '🥩',
+  grains: '🌾',
+  pantry: '🥫',
+  spices: '🧂',
+  beverages: '🥤',
+  frozen: '❄️',
+  canned: '🥫',
+  other: '📦'
+};
+
+export default function ShoppingListScreen() {
+  const [shoppingList, setShoppingList] = useState<ShoppingList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [newItemName, setNewItemName] = useState('');
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchList();
+  }, []);
+
+  const fetchList = async () => {
+    try {
+      setShoppingList(await fetchShoppingList());
+    } catch (error: any) {
+      console.error('Error fetching shopping list:', error);
+      if (error.message === 'Not signed in') {
+        router.replace('/');
+      } else {
+        Alert.alert('Error', 'Could not load your shopping list.');
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchList();
+  };
+
+  const handleAdd = async () => {
+    if (!newItemName.trim()) return;
+    try {
+      await addShoppingItem(newItemName.trim());
+      setNewItemName('');
+      fetchList();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not add item');
+    }
+  };
+
+  const handleCheck = async (entry: ShoppingListEntry) => {
+    setBusyEntryId(entry._id);
+    try {
+      const result = await checkShoppingItem(entry._id);
+      await fetchList();
+      Alert.alert('Added to Pantry', result.message);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not check off item');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const handleDelete = async (entry: ShoppingListEntry) => {
+    try {
+      await deleteShoppingItem(entry._id);
+      fetchList();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not delete item');
+    }
+  };
+
+  const handleClearChecked = async () => {
+    try {
+      await clearCheckedItems();
+      fetchList();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not clear items');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#111" />
+        <Text style={styles.loadingText}>Loading shopping list...</Text>
+      </View>
+    );
+  }
+
+  const categories = Object.keys(shoppingList?.list || {});
+
+  return (
+    <View style={styles.container}>
+      <HeaderWithBack title="Shopping List" />
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.addInput}
+          placeholder="Add an item..."
+          placeholderTextColor="#888"
+          value={newItemName}
+          onChangeText={setNewItemName}
+          onSubmitEditing={handleAdd}
+          returnKeyType="done"
+        />
+        <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {categories.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🛒</Text>
+            <Text style={styles.emptyText}>
+              Your list is empty. Add items here, or add missing ingredients from a recipe or your meal plan.
+            </Text>
+          </View>
+        )}
+
+        {categories.map(category => (
+          <View key={category} style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {CATEGORY_ICONS[category] || CATEGORY_ICONS.other} {category.charAt(0).toUpperCase() + category.slice(1)}
+            </Text>
+            {shoppingList!.list[category].map(entry => (
+              <View key={entry._id} style={styles.entryRow}>
+                <TouchableOpacity
+                  style={styles.checkbox}
+                  onPress={() => handleCheck(entry)}
+                  disabled={busyEntryId === entry._id}
+                >
+                  {busyEntryId === entry._id && <ActivityIndicator size="small" color="#111" />}
+                </TouchableOpacity>
+                <View style={styles.entryInfo}>
+                  <Text style={styles.entryName}>{entry.name}</Text>
+                  <Text style={styles.entryMeta}>
+                    {entry.quantity.amount} {entry.quantity.unit}
+                    {entry.recipeName ? ` · for ${entry.recipeName}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDelete(entry)} style={styles.deleteButton}>
+                  <Text style={styles.deleteButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ))}
+
+        {shoppingList && shoppingList.checked.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.checkedHeader}>
+              <Text style={styles.sectionTitle}>In the Pantry</Text>
+              <TouchableOpacity onPress={handleClearChecked}>
+                <Text style={styles.clearText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            {shoppingList.checked.map(entry => (
+              <View key={entry._id} style={styles.entryRow}>
+                <View style={[styles.checkbox, styles.checkedBox]}>
+                  <Text style={styles.checkmark}>✓</Text>
+                </View>
+                <Text style={[styles.entryName, styles.checkedName]}>{entry.name}</Text>
+              </View>
+            ))}
+            <Text style={styles.hint}>Checked items are added to your inventory with a suggested expiry date.</Text>
+          </View>
+        )}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  addRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  addInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    color: '#111',
+  },
+  addButton: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111',
+    marginBottom: 8,
+    fontFamily: 'LexendDeca-Regular',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#111',
+    marginRight: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkedBox: {
+    backgroundColor: '#111',
+  },
+  checkmark: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 16,
+    color: '#111',
+    fontFamily: 'LexendDeca-Regular',
+  },
+  checkedName: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  checkedHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 8,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
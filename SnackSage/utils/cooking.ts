@@ -0,0 +1,119 @@
+// utils/cooking.ts
+import { Alert } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface CookIngredient {
+  name: string;
+  amount?: number;
+  unit?: string;
+}
+
+export interface CookableRecipe {
+  name: string;
+  ingredients: (string | CookIngredient)[];
+  servings?: number;
+}
+
+interface ConsumedItem {
+  itemId: string;
+  name: string;
+  ingredient: string;
+  amountUsed: number;
+  unit: string;
+  remaining: number;
+  isUsed: boolean;
+  estimated: boolean;
+}
+
+interface SkippedIngredient {
+  ingredient: string;
+  reason: 'not_in_inventory' | 'insufficient_quantity' | 'unit_mismatch';
+}
+
+interface CookResponse {
+  consumed: ConsumedItem[];
+  skipped: SkippedIngredient[];
+  message?: string;
+}
+
+const postCook = async (recipe: CookableRecipe, dryRun: boolean): Promise<CookResponse> => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${SERVER_URL}/api/recipes/cook`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      recipeName: recipe.name,
+      ingredients: recipe.ingredients,
+      servings: recipe.servings,
+      recipeServings: recipe.servings,
+      dryRun,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to cook recipe');
+  }
+  return data;
+};
+
+const describeConsumed = (consumed: ConsumedItem[]) =>
+  consumed
+    .map(c => `• ${c.estimated ? '~' : ''}${c.amountUsed} ${c.unit} ${c.name}${c.isUsed ? ' (used up)' : ''}`)
+    .join('\n');
+
+/**
+ * "Mark as cooked" flow: previews the inventory deductions, asks the user to
+ * confirm, then applies them. Resolves true when the inventory was updated.
+ */
+export const confirmAndCookRecipe = async (recipe: CookableRecipe): Promise<boolean> => {
+  let preview: CookResponse;
+  try {
+    preview = await postCook(recipe, true);
+  } catch (error) {
+    console.error('Cook preview error:', error);
+    Alert.alert('Error', 'Could not prepare this recipe. Please try again.');
+    return false;
+  }
+
+  if (preview.consumed.length === 0) {
+    Alert.alert('Nothing to deduct', 'None of the ingredients in this recipe were found in your inventory.');
+    return false;
+  }
+
+  const skippedText = preview.skipped.length > 0
+    ? `\n\nNot deducted: ${preview.skipped.map(s => s.ingredient).join(', ')}`
+    : '';
+
+  return new Promise(resolve => {
+    Alert.alert(
+      'Mark as cooked?',
+      `This will use:\n${describeConsumed(preview.consumed)}${skippedText}`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        {
+          text: 'Cooked it',
+          onPress: async () => {
+            try {
+              const result = await postCook(recipe, false);
+              Alert.alert('Enjoy your meal!', `Inventory updated:\n${describeConsumed(result.consumed)}`);
+              resolve(true);
+            } catch (error) {
+              console.error('Cook recipe error:', error);
+              Alert.alert('Error', 'Could not update your inventory.');
+              resolve(false);
+            }
+          },
+        },
+      ]
+    );
+  });
+};
@@ -0,0 +1,134 @@
+// utils/cookingProgress.ts
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { RecipeInstructions, SavedRecipe, formatIngredient } from './recipes';
+
+const STORAGE_PREFIX = 'cooking-progress:';
+const TIMER_CHANNEL = 'cooking-timers';
+
+export interface StepTimer {
+  // When the countdown reaches zero (ISO string)
+  endsAt: string;
+  notificationId: string | null;
+}
+
+// Where the user is in a recipe, kept on the device so cooking mode can be
+// left and resumed at the same step
+export interface CookingProgress {
+  key: string;
+  recipe: RecipeInstructions;
+  stepIndex: number;
+  // Running timers by step number
+  timers: { [stepNumber: number]: StepTimer };
+  updatedAt: string;
+}
+
+export const getRecipeKey = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Saved recipes keep plain steps, without durations or timers
+export const savedRecipeToInstructions = (recipe: SavedRecipe): RecipeInstructions => ({
+  name: recipe.name,
+  description: recipe.description || '',
+  servings: recipe.servings,
+  prepTimeMinutes: null,
+  cookTimeMinutes: null,
+  totalTimeMinutes: null,
+  difficulty: recipe.difficulty || '',
+  equipment: [],
+  ingredients: recipe.ingredients.map(ingredient => ({
+    name: formatIngredient(ingredient),
+    amount: null,
+    unit: null,
+    notes: '',
+    optional: false,
+    inventoryMatch: null,
+  })),
+  steps: recipe.steps.map((instruction, index) => ({
+    number: index + 1,
+    instruction,
+    durationMinutes: null,
+    timer: null,
+  })),
+  tips: [],
+});
+
+export const loadCookingProgress = async (key: string): Promise<CookingProgress | null> => {
+  const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const saveCookingProgress = async (progress: CookingProgress) => {
+  await AsyncStorage.setItem(
+    STORAGE_PREFIX + progress.key,
+    JSON.stringify({ ...progress, updatedAt: new Date().toISOString() })
+  );
+};
+
+// Start cooking a recipe, keeping the current step if it was already started
+export const beginCooking = async (recipe: RecipeInstructions): Promise<CookingProgress> => {
+  const key = getRecipeKey(recipe.name);
+  const existing = await loadCookingProgress(key);
+  if (existing && existing.stepIndex < recipe.steps.length) {
+    return existing;
+  }
+
+  const progress: CookingProgress = { key, recipe, stepIndex: 0, timers: {}, updatedAt: new Date().toISOString() };
+  await saveCookingProgress(progress);
+  return progress;
+};
+
+export const clearCookingProgress = async (progress: CookingProgress) => {
+  await Promise.all(Object.values(progress.timers).map(cancelStepTimer));
+  await AsyncStorage.removeItem(STORAGE_PREFIX + progress.key);
+};
+
+// Schedule the "timer done" notification so it fires even if the app is closed
+export const startStepTimer = async (recipeName: string, label: string, minutes: number): Promise<StepTimer> => {
+  const endsAt = new Date(Date.now() + minutes * 60 * 1000);
+  let notificationId: string | null = null;
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(TIMER_CHANNEL, {
+        name: 'Cooking Timers',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: [0, 500, 250, 500],
+      });
+    }
+    notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `⏲️ ${label} is done`,
+        body: `Time for the next step of ${recipeName}.`,
+        sound: true,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: endsAt,
+        channelId: TIMER_CHANNEL,
+      },
+    });
+  } catch (error) {
+    // The in-app countdown still works without notification permission
+    console.error('Error scheduling timer notification:', error);
+  }
+
+  return { endsAt: endsAt.toISOString(), notificationId };
+};
+
+export const cancelStepTimer = async (timer: StepTimer) => {
+  if (!timer.notificationId) return;
+  try {
+    await Notifications.cancelScheduledNotificationAsync(timer.notificationId);
+  } catch (error) {
+    console.error('Error cancelling timer notification:', error);
+  }
+};
+
+export const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
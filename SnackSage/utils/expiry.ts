@@ -0,0 +1,61 @@
+// utils/expiry.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface ExpirySettings {
+  expiringSoonDays: number;
+  useWithinDays: number;
+  categoryOverrides: { [category: string]: number };
+}
+
+export interface NotificationSettings {
+  quietHours: { enabled: boolean; start: string; end: string };
+  times: string[];
+  channels: { push: boolean; inApp: boolean };
+}
+
+export interface UserSettings {
+  expirySettings: ExpirySettings;
+  notificationSettings: NotificationSettings;
+  timezone: string;
+}
+
+export const DEFAULT_EXPIRY_SETTINGS: ExpirySettings = {
+  expiringSoonDays: 3,
+  useWithinDays: 7,
+  categoryOverrides: {},
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const fetchUserSettings = async (): Promise<UserSettings | null> => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) return null;
+
+  const response = await fetch(`${SERVER_URL}/api/profile/settings`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch settings');
+  }
+  return response.json();
+};
+
+export const getExpiringSoonDays = (settings: ExpirySettings, category: string) =>
+  settings.categoryOverrides[category] || settings.expiringSoonDays;
+
+export const isExpired = (expirationDate: string | Date) =>
+  new Date(expirationDate) < new Date();
+
+export const isExpiringSoon = (
+  item: { expirationDate: string | Date; category: string },
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS
+) => {
+  const today = new Date();
+  const expDate = new Date(item.expirationDate);
+  const windowEnd = new Date(today.getTime() + getExpiringSoonDays(settings, item.category) * DAY_MS);
+  return expDate <= windowEnd && expDate >= today;
+};
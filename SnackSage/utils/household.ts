@@ -0,0 +1,73 @@
+// utils/household.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export type HouseholdRole = 'owner' | 'member';
+
+export interface HouseholdMember {
+  userId: string;
+  name: string;
+  email?: string;
+  role: HouseholdRole;
+  joinedAt: string;
+}
+
+export interface HouseholdInvite {
+  code: string;
+  expiresAt: string;
+  qrData: string;
+}
+
+export interface Household {
+  householdId: string;
+  name: string;
+  role: HouseholdRole | null;
+  members: HouseholdMember[];
+  invite: HouseholdInvite | null;
+  createdAt: string;
+}
+
+// Must match INVITE_QR_TYPE in the backend household controller
+export const HOUSEHOLD_INVITE_TYPE = 'household-invite';
+
+// Invite code from scanned QR data, or null when it isn't a household invite
+export const parseInviteQr = (data: unknown): string | null => {
+  if (
+    data &&
+    typeof data === 'object' &&
+    (data as { type?: string }).type === HOUSEHOLD_INVITE_TYPE &&
+    typeof (data as { code?: unknown }).code === 'string'
+  ) {
+    return (data as { code: string }).code;
+  }
+  return null;
+};
+
+export const getInviteQrUrl = (qrData: string, size = 240) =>
+  `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(qrData)}`;
+
+// Call a household endpoint, throwing the server's message on failure
+export const householdRequest = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/household${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Household request failed');
+  }
+  return data;
+};
+
+export const joinHousehold = async (code: string): Promise<Household> => {
+  const data = await householdRequest('/join', 'POST', { code });
+  return data.household;
+};
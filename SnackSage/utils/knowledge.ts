@@ -0,0 +1,69 @@
+// utils/knowledge.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface KnowledgeDocument {
+  _id: string;
+  title: string;
+  filename: string;
+  format: 'pdf' | 'markdown' | 'text';
+  // Uploads are indexed in the background: pending -> indexing -> indexed (or failed)
+  status: 'pending' | 'indexing' | 'indexed' | 'failed';
+  error?: string;
+  pages?: number | null;
+  chunkCount?: number;
+  builtIn?: boolean;
+  // Whether it is one of the user's uploads, which they can re-index or delete
+  canManage: boolean;
+}
+
+// A passage the answer was based on
+export interface KnowledgeChunk {
+  text: string;
+  documentId: string;
+  documentTitle: string;
+  page: number | null;
+  // Cosine similarity to the question, 0-1
+  similarity: number;
+}
+
+export interface KnowledgeAnswer {
+  question: string;
+  // False when no passage cleared the similarity threshold
+  found: boolean;
+  answer: string;
+  threshold: number;
+  chunks: KnowledgeChunk[];
+}
+
+const request = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/knowledge${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+export const fetchKnowledgeDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const data = await request('/documents');
+  return data.documents;
+};
+
+// Leave out documentIds to search every document
+export const askKnowledge = (question: string, documentIds?: string[]): Promise<KnowledgeAnswer> =>
+  request('/ask', 'POST', { question, documentIds });
+
+export const formatSource = (chunk: Pick<KnowledgeChunk, 'documentTitle' | 'page'>) =>
+  chunk.page ? `${chunk.documentTitle}, p. ${chunk.page}` : chunk.documentTitle;
@@ -0,0 +1,55 @@
+// utils/locations.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+import { StorageLocation } from './shelfLife';
+
+// Built-in locations use their kind as key, custom ones their id
+export interface InventoryLocation {
+  key: string;
+  name: string;
+  kind: StorageLocation;
+  custom: boolean;
+  itemCount?: number;
+}
+
+export const LOCATION_ICONS: { [kind: string]: string } = {
+  fridge: '🧊',
+  freezer: '❄️',
+  pantry: '🗄️',
+  unassigned: '📦',
+};
+
+const request = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+export const fetchLocations = async (): Promise<InventoryLocation[]> => {
+  const data = await request('/api/locations');
+  return data.locations;
+};
+
+export const createLocation = async (name: string, kind: StorageLocation): Promise<InventoryLocation> => {
+  const data = await request('/api/locations', 'POST', { name, kind });
+  return data.location;
+};
+
+export const deleteLocation = (key: string) => request(`/api/locations/${key}`, 'DELETE');
+
+export const moveItems = (itemIds: string[], location: string, recalculateExpiry: boolean) =>
+  request('/api/items/move', 'POST', { itemIds, location, recalculateExpiry });
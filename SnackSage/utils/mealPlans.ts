@@ -0,0 +1,90 @@
+// utils/mealPlans.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export type MealSlot = 'breakfast' | 'morning-snack' | 'lunch' | 'snack' | 'dinner';
+
+export const MEAL_SLOT_LABELS: { [slot in MealSlot]: string } = {
+  breakfast: 'Breakfast',
+  'morning-snack': 'Morning Snack',
+  lunch: 'Lunch',
+  snack: 'Snack',
+  dinner: 'Dinner',
+};
+
+export interface PlannedMeal {
+  _id: string;
+  // YYYY-MM-DD
+  date: string;
+  slot: MealSlot;
+  name: string;
+  description?: string;
+  mainIngredients: string[];
+  // Expiring pantry items the meal uses up
+  usesExpiring: string[];
+  cookingTime?: string;
+  difficulty?: string;
+  cuisine?: string;
+  servings?: number;
+  locked: boolean;
+}
+
+export interface MealPlan {
+  _id: string;
+  weekStart: string;
+  mealsPerDay: number;
+  servings: number;
+  meals: PlannedMeal[];
+}
+
+const request = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/mealplans${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+// Plan covering today, or null when there isn't one
+export const fetchCurrentMealPlan = async (): Promise<MealPlan | null> => {
+  const data = await request('/current');
+  return data.plan;
+};
+
+export const generateMealPlan = async (weekStart?: string): Promise<MealPlan> => {
+  const data = await request('/generate', 'POST', { weekStart });
+  return data.plan;
+};
+
+export const updateMeal = async (
+  planId: string,
+  mealId: string,
+  fields: Partial<Pick<PlannedMeal, 'name' | 'description' | 'mainIngredients' | 'locked'>>
+): Promise<MealPlan> => {
+  const data = await request(`/${planId}/meals/${mealId}`, 'PUT', fields);
+  return data.plan;
+};
+
+export const regenerateMeal = async (planId: string, mealId: string): Promise<MealPlan> => {
+  const data = await request(`/${planId}/meals/${mealId}/regenerate`, 'POST');
+  return data.plan;
+};
+
+export const swapMeals = async (planId: string, mealId: string, otherMealId: string): Promise<MealPlan> => {
+  const data = await request(`/${planId}/swap`, 'POST', { mealId, otherMealId });
+  return data.plan;
+};
+
+export const deleteMealPlan = (planId: string) => request(`/${planId}`, 'DELETE');
@@ -0,0 +1,87 @@
+// utils/nutrition.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+import { NutritionalInfo } from './products';
+
+export type Nutrient = keyof NutritionalInfo;
+
+export const NUTRIENTS: { key: Nutrient; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+];
+
+export interface NutrientComparison {
+  intake: number;
+  target: number;
+  percent: number;
+  // min: reach the target, max: stay under it, target: stay close to it
+  type: 'min' | 'max' | 'target';
+  status: 'under' | 'on-track' | 'over';
+}
+
+type Comparison = { [nutrient in Nutrient]: NutrientComparison };
+
+export interface NutritionSummary {
+  goals: string[];
+  targets: NutritionalInfo;
+  today: {
+    date: string;
+    totals: NutritionalInfo;
+    entries: number;
+    comparison: Comparison;
+  };
+  week: {
+    from: string;
+    to: string;
+    totals: NutritionalInfo;
+    dailyAverage: NutritionalInfo;
+    comparison: Comparison;
+    days: { date: string; totals: NutritionalInfo; entries: number }[];
+  };
+}
+
+export interface NutritionLogEntry {
+  _id: string;
+  itemName: string;
+  quantity: { amount: number; unit: string };
+  weightGrams: number;
+  nutrients: NutritionalInfo;
+  consumedAt: string;
+}
+
+const request = async (path: string, method = 'GET') => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/nutrition${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+export const fetchNutritionSummary = (): Promise<NutritionSummary> => request('/summary');
+
+export const fetchNutritionLog = async (date?: string): Promise<NutritionLogEntry[]> => {
+  const data = await request(`/log${date ? `?date=${date}` : ''}`);
+  return data.entries;
+};
+
+export const deleteNutritionLogEntry = (logId: string) => request(`/log/${logId}`, 'DELETE');
+
+export const STATUS_COLORS: { [status in NutrientComparison['status']]: string } = {
+  under: '#f59e0b',
+  'on-track': '#10b981',
+  over: '#ef4444',
+};
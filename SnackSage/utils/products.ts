@@ -0,0 +1,68 @@
+// utils/products.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface NutritionalInfo {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface Product {
+  barcode: string;
+  name: string;
+  brand?: string;
+  category: string;
+  defaultQuantity: { amount: number; unit: string };
+  nutritionalInfo: NutritionalInfo;
+  source: 'import' | 'user';
+}
+
+// Barcode types the add-item camera reads alongside our own QR codes
+export const PRODUCT_BARCODE_TYPES = ['ean13', 'ean8', 'upc_a', 'upc_e'] as const;
+
+// EAN/UPC barcodes are plain digits; our QR codes hold JSON
+export const isProductBarcode = (data: string) => /^\d{8,14}$/.test(data.trim());
+
+const getHeaders = async () => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+  return {
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+// Product for a barcode, or null when it isn't in the catalog
+export const lookupProduct = async (barcode: string): Promise<Product | null> => {
+  const response = await fetch(`${SERVER_URL}/api/products/barcode/${barcode}`, {
+    headers: await getHeaders(),
+  });
+  if (response.status === 404) return null;
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Product lookup failed');
+  }
+  return data.product;
+};
+
+// Send the user's corrections (or a missing product) back to the catalog
+export const saveProductCorrection = async (
+  barcode: string,
+  fields: Partial<Pick<Product, 'name' | 'brand' | 'category' | 'defaultQuantity' | 'nutritionalInfo'>>
+): Promise<Product> => {
+  const response = await fetch(`${SERVER_URL}/api/products/barcode/${barcode}`, {
+    method: 'PUT',
+    headers: await getHeaders(),
+    body: JSON.stringify(fields),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Could not save product');
+  }
+  return data.product;
+};
@@ -0,0 +1,252 @@
+// utils/recipes.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface RecipeIngredient {
+  name: string;
+  amount?: number;
+  unit?: string;
+  notes?: string;
+}
+
+export interface SavedRecipe {
+  _id: string;
+  name: string;
+  description?: string;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  cuisine?: string;
+  difficulty?: string;
+  cookingTime?: string;
+  servings: number;
+  healthScore?: number;
+  tags: string[];
+  favorite: boolean;
+  source: 'recommendation' | 'meal-plan' | 'chat' | 'manual';
+  updatedAt: string;
+}
+
+export interface NewRecipe {
+  name: string;
+  description?: string;
+  ingredients?: (string | RecipeIngredient)[];
+  steps?: string[];
+  cuisine?: string;
+  difficulty?: string;
+  cookingTime?: string;
+  servings?: number;
+  healthScore?: number;
+  tags?: string[];
+  source?: SavedRecipe['source'];
+}
+
+// Step-by-step instructions generated for a recipe
+export interface InstructionIngredient {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  notes: string;
+  optional: boolean;
+  // Pantry item covering the ingredient, null when it needs buying.
+  // confidence (0-1) is how closely the item's name matches the ingredient.
+  inventoryMatch: { itemId: string; name: string; amount: number; unit: string; confidence: number } | null;
+}
+
+export interface InstructionStep {
+  number: number;
+  instruction: string;
+  durationMinutes: number | null;
+  timer: { label: string; minutes: number } | null;
+}
+
+export interface RecipeInstructions {
+  name: string;
+  description: string;
+  servings: number | null;
+  prepTimeMinutes: number | null;
+  cookTimeMinutes: number | null;
+  totalTimeMinutes: number | null;
+  difficulty: string;
+  equipment: string[];
+  ingredients: InstructionIngredient[];
+  steps: InstructionStep[];
+  tips: string[];
+}
+
+export interface RecipeChatStart {
+  recipeName: string;
+  recipe: RecipeInstructions;
+  // Markdown version of the recipe, as stored in the chat history
+  response: string;
+  sessionId: string;
+}
+
+export interface ChatStreamHandlers {
+  // The session the reply is saved to, known before the first token
+  onStart: (sessionId: string) => void;
+  // The reply so far, each time another piece arrives
+  onToken: (reply: string) => void;
+  onDone: (reply: string, sessionId: string) => void;
+  onError: (message: string) => void;
+}
+
+export interface RecipeFilters {
+  q?: string;
+  tag?: string;
+  favorite?: boolean;
+}
+
+const request = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/recipes${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+// Generate structured instructions and open a chat session about them
+export const startRecipeChat = (recipeName: string): Promise<RecipeChatStart> =>
+  request('/chat/start', 'POST', { recipeName });
+
+// Send a chat message and receive the reply as Server-Sent Events while it is
+// generated. React Native's fetch can't read a response as it arrives, so
+// this uses XMLHttpRequest, whose responseText grows on every progress event.
+// Resolves to a function that cancels the reply.
+export const streamChatMessage = async (
+  body: { message: string; recipeName?: string; sessionId?: string | null },
+  handlers: ChatStreamHandlers
+): Promise<() => void> => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const xhr = new XMLHttpRequest();
+  let parsedLength = 0;
+  let reply = '';
+  let finished = false;
+
+  const finish = (callback: () => void) => {
+    if (finished) return;
+    finished = true;
+    callback();
+  };
+
+  const handleEvent = (event: string, data: any) => {
+    if (event === 'start') {
+      handlers.onStart(data.sessionId);
+    } else if (event === 'token') {
+      reply += data.text;
+      handlers.onToken(reply);
+    } else if (event === 'done') {
+      finish(() => handlers.onDone(data.reply, data.sessionId));
+    } else if (event === 'error') {
+      finish(() => handlers.onError(data.message));
+    }
+  };
+
+  // Handle the events completed since the last call; the last block may
+  // still be arriving
+  const readEvents = () => {
+    if (xhr.status !== 200 || finished) return;
+    const blocks = xhr.responseText.slice(parsedLength).split('\n\n');
+    blocks.pop();
+    for (const block of blocks) {
+      parsedLength += block.length + 2;
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (event && data) handleEvent(event, JSON.parse(data));
+    }
+  };
+
+  xhr.open('POST', `${SERVER_URL}/api/recipes/chat/message/stream`);
+  xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+  xhr.setRequestHeader('Content-Type', 'application/json');
+  xhr.onprogress = readEvents;
+  xhr.onload = () => {
+    if (xhr.status !== 200) {
+      let message = 'Server error';
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Not a JSON error response
+      }
+      finish(() => handlers.onError(message));
+      return;
+    }
+    readEvents();
+    // The stream ended without a done event
+    finish(() => handlers.onError('The reply was cut off. Try again.'));
+  };
+  xhr.onerror = () => finish(() => handlers.onError('Network error – check your connection.'));
+  xhr.send(JSON.stringify(body));
+
+  return () => {
+    finished = true;
+    xhr.abort();
+  };
+};
+
+export const fetchSavedRecipes = (filters: RecipeFilters = {}): Promise<{ recipes: SavedRecipe[]; tags: string[] }> => {
+  const params = new URLSearchParams();
+  if (filters.q) params.append('q', filters.q);
+  if (filters.tag) params.append('tag', filters.tag);
+  if (filters.favorite) params.append('favorite', 'true');
+  const query = params.toString();
+  return request(query ? `/saved?${query}` : '/saved');
+};
+
+export const fetchSavedRecipe = async (recipeId: string): Promise<SavedRecipe> => {
+  const data = await request(`/saved/${recipeId}`);
+  return data.recipe;
+};
+
+// Save a recipe; the server fills in quantities and steps when none are given
+export const saveRecipe = (recipe: NewRecipe): Promise<{ message: string; recipe: SavedRecipe }> =>
+  request('/saved', 'POST', recipe);
+
+export const setRecipeFavorite = async (recipeId: string, favorite: boolean): Promise<SavedRecipe> => {
+  const data = await request(`/saved/${recipeId}/favorite`, 'PUT', { favorite });
+  return data.recipe;
+};
+
+export const setRecipeTags = async (recipeId: string, tags: string[]): Promise<SavedRecipe> => {
+  const data = await request(`/saved/${recipeId}/tags`, 'PUT', { tags });
+  return data.recipe;
+};
+
+export const deleteSavedRecipe = (recipeId: string) => request(`/saved/${recipeId}`, 'DELETE');
+
+export const formatIngredient = ({ name, amount, unit, notes }: RecipeIngredient) =>
+  [amount, unit, name].filter(part => part !== undefined && part !== '').join(' ') + (notes ? `, ${notes}` : '');
+
+// Render a saved recipe as Markdown for the recipe chat
+export const formatRecipeMarkdown = (recipe: SavedRecipe) => {
+  const details = [
+    recipe.cookingTime && `⏱️ ${recipe.cookingTime}`,
+    recipe.difficulty && `📊 ${recipe.difficulty}`,
+    recipe.cuisine && `🌍 ${recipe.cuisine}`,
+    `🍽️ Serves ${recipe.servings}`,
+  ].filter(Boolean);
+
+  const sections = [`## ${recipe.name}`];
+  if (recipe.description) sections.push(recipe.description);
+  sections.push(details.join(' · '));
+  if (recipe.ingredients.length) {
+    sections.push(`### Ingredients\n${recipe.ingredients.map(ingredient => `- ${formatIngredient(ingredient)}`).join('\n')}`);
+  }
+  if (recipe.steps.length) {
+    sections.push(`### Steps\n${recipe.steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
@@ -0,0 +1,63 @@
+// utils/shelfLife.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export type StorageLocation = 'fridge' | 'freezer' | 'pantry';
+
+export const STORAGE_LOCATIONS: { label: string; value: StorageLocation }[] = [
+  { label: 'Fridge', value: 'fridge' },
+  { label: 'Freezer', value: 'freezer' },
+  { label: 'Pantry', value: 'pantry' },
+];
+
+export interface ShelfLifeSuggestion {
+  storageLocation: StorageLocation;
+  days: number;
+  // false when the food shouldn't be kept in this location
+  recommended: boolean;
+  source: 'product' | 'category';
+  matched: string;
+  locations: { [location in StorageLocation]: number | null };
+  expirationDate: string;
+  recalculated: boolean;
+}
+
+interface ShelfLifeParams {
+  name: string;
+  category: string;
+  storageLocation?: StorageLocation;
+  // Set both to recalculate the expiry of an item being moved
+  currentLocation?: StorageLocation;
+  expirationDate?: Date;
+}
+
+export const fetchShelfLifeSuggestion = async (params: ShelfLifeParams): Promise<ShelfLifeSuggestion | null> => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) return null;
+
+  const query = new URLSearchParams({ name: params.name, category: params.category });
+  if (params.storageLocation) query.append('storageLocation', params.storageLocation);
+  if (params.currentLocation && params.expirationDate) {
+    query.append('currentLocation', params.currentLocation);
+    query.append('expirationDate', params.expirationDate.toISOString());
+  }
+
+  const response = await fetch(`${SERVER_URL}/api/items/shelf-life?${query.toString()}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch shelf life');
+  }
+  return response.json();
+};
+
+export const describeShelfLife = (suggestion: ShelfLifeSuggestion) => {
+  const location = suggestion.storageLocation;
+  if (!suggestion.recommended) {
+    return `Not recommended to store in the ${location}`;
+  }
+  return `Keeps about ${suggestion.days} day${suggestion.days === 1 ? '' : 's'} in the ${location}`;
+};
@@ -0,0 +1,81 @@
+// utils/shoppingList.ts
+import * as SecureStore from 'expo-secure-store';
+import { SERVER_URL } from '../constants/config';
+
+export interface ShoppingListEntry {
+  _id: string;
+  name: string;
+  category: string;
+  quantity: { amount: number; unit: string };
+  notes?: string;
+  source: 'manual' | 'recipe' | 'meal-plan';
+  recipeName?: string;
+  checked: boolean;
+  checkedAt?: string;
+  itemId?: string | null;
+}
+
+export interface ShoppingList {
+  // Unchecked entries by category
+  list: { [category: string]: ShoppingListEntry[] };
+  checked: ShoppingListEntry[];
+  totalItems: number;
+}
+
+export interface AddIngredientsResult {
+  message: string;
+  entries: ShoppingListEntry[];
+  // Already on the list
+  skipped: string[];
+  // Already in the pantry
+  inPantry: string[];
+}
+
+const request = async (path: string, method = 'GET', body?: object) => {
+  const token = await SecureStore.getItemAsync('token');
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`${SERVER_URL}/api/shopping-list${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+};
+
+export const fetchShoppingList = (): Promise<ShoppingList> => request('');
+
+export const addShoppingItem = async (name: string, category?: string): Promise<ShoppingListEntry> => {
+  const data = await request('', 'POST', { name, category });
+  return data.entry;
+};
+
+export const addRecipeIngredients = (recipeName: string, ingredients: string[]): Promise<AddIngredientsResult> =>
+  request('/from-recipe', 'POST', { recipeName, ingredients });
+
+export const addMealPlanIngredients = (planId: string): Promise<AddIngredientsResult> =>
+  request('/from-meal-plan', 'POST', { planId });
+
+// Check an entry off; the server adds it to the pantry with a suggested expiry
+export const checkShoppingItem = (entryId: string): Promise<{ message: string; entry: ShoppingListEntry }> =>
+  request(`/${entryId}/check`, 'POST', {});
+
+export const deleteShoppingItem = (entryId: string) => request(`/${entryId}`, 'DELETE');
+
+export const clearCheckedItems = () => request('/checked', 'DELETE');
+
+// Short summary of an add-ingredients result for an alert
+export const describeAddResult = (result: AddIngredientsResult) => {
+  const parts = [result.message];
+  if (result.inPantry.length) parts.push(`Already in your pantry: ${result.inPantry.join(', ')}`);
+  if (result.skipped.length) parts.push(`Already on the list: ${result.skipped.join(', ')}`);
+  return parts.join('\n\n');
+};
@@ -14,12 +14,21 @@ app.use(cors({
   credentials: true
 }));
 
-app.use(express.json());
+// Knowledge base uploads arrive as base64 in the JSON body
+app.use(express.json({ limit: '15mb' }));
 
 // Routes
 app.use('/api', require('../routes/authRoutes'));
 app.use('/api/items', require('../routes/itemRoutes'));
 app.use('/api/recipes', require('../routes/recipeRoutes'));
 app.use('/api/profile', require('../routes/profileRoutes'));
+app.use('/api/household', require('../routes/householdRoutes'));
+app.use('/api/products', require('../routes/productRoutes'));
+app.use('/api/locations', require('../routes/locationRoutes'));
+app.use('/api/nutrition', require('../routes/nutritionRoutes'));
+app.use('/api/mealplans', require('../routes/mealPlanRoutes'));
+app.use('/api/shopping-list', require('../routes/shoppingListRoutes'));
+app.use('/api/knowledge', require('../routes/knowledgeRoutes'));
+app.use('/api/cron', require('../routes/cronRoutes'));
 
 module.exports = app; // <- IMPORTANT for Vercel
@@ -0,0 +1,329 @@
+const crypto = require('crypto');
+const Household = require('../models/Household');
+const User = require('../models/User');
+const Item = require('../models/Item');
+const ItemEvent = require('../models/ItemEvent');
+const Location = require('../models/Location');
+const ShoppingListItem = require('../models/ShoppingListItem');
+
+const INVITE_TTL_DAYS = 7;
+// No 0/O or 1/I so codes are easy to read out and type
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+// Scanned by the add-item camera to tell invites apart from item QR codes
+const INVITE_QR_TYPE = 'household-invite';
+
+const generateInviteCode = () => {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+};
+
+// Invite code plus the payload to render as a QR code
+const formatInvite = (household) => ({
+  code: household.invite.code,
+  expiresAt: household.invite.expiresAt,
+  qrData: JSON.stringify({ type: INVITE_QR_TYPE, code: household.invite.code })
+});
+
+// Household with member names, as returned to the app
+const formatHousehold = async (household, userId) => {
+  const users = await User.find({
+    userId: { $in: household.members.map(member => member.userId) }
+  }).select('userId name email');
+  const usersById = new Map(users.map(user => [user.userId, user]));
+  const isOwner = household.isOwner(userId);
+
+  return {
+    householdId: household.householdId,
+    name: household.name,
+    role: household.getMember(userId)?.role || null,
+    members: household.members.map(member => ({
+      userId: member.userId,
+      name: usersById.get(member.userId)?.name || 'Unknown',
+      email: usersById.get(member.userId)?.email,
+      role: member.role,
+      joinedAt: member.joinedAt
+    })),
+    // Only owners can share the invite
+    invite: isOwner && household.invite?.code && household.invite.expiresAt > new Date()
+      ? formatInvite(household)
+      : null,
+    createdAt: household.createdAt
+  };
+};
+
+// Move a user's personal pantry (its history, locations and shopping list
+// too) into a household
+const moveUserItems = async (userId, householdId) => {
+  await Item.updateMany({ userId, householdId: null }, { householdId });
+  await ItemEvent.updateMany({ userId, householdId: null }, { householdId });
+  await Location.updateMany({ userId, householdId: null }, { householdId });
+  await ShoppingListItem.updateMany({ userId, householdId: null }, { householdId });
+};
+
+// Remove a member; the last member leaving deletes the household and its
+// items and shopping list entries go back to whoever added them
+const removeMember = async (household, userId) => {
+  household.members = household.members.filter(member => member.userId !== userId);
+  await User.updateOne({ userId }, { householdId: null });
+
+  if (household.members.length === 0) {
+    await Item.updateMany({ householdId: household.householdId }, { householdId: null });
+    await ItemEvent.updateMany({ householdId: household.householdId }, { householdId: null });
+    await Location.updateMany({ householdId: household.householdId }, { householdId: null });
+    await ShoppingListItem.updateMany({ householdId: household.householdId }, { householdId: null });
+    await household.deleteOne();
+    return null;
+  }
+
+  // Someone must still be able to manage the household
+  if (!household.members.some(member => member.role === 'owner')) {
+    const [oldest] = [...household.members].sort((a, b) => a.joinedAt - b.joinedAt);
+    oldest.role = 'owner';
+  }
+
+  await household.save();
+  return household;
+};
+
+const findUserHousehold = (req) => req.user.householdId
+  ? Household.findOne({ householdId: req.user.householdId })
+  : null;
+
+// Get the current user's household
+exports.getHousehold = async (req, res) => {
+  try {
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.json({ household: null });
+    }
+
+    res.json({ household: await formatHousehold(household, req.user.userId) });
+  } catch (err) {
+    console.error('Get household error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Create a household owned by the current user; their items become shared
+exports.createHousehold = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const name = req.body.name?.trim();
+
+    if (!name) {
+      return res.status(400).json({ message: 'Household name is required' });
+    }
+    if (req.user.householdId) {
+      return res.status(409).json({ message: 'Leave your current household first' });
+    }
+
+    const household = await Household.create({
+      name,
+      members: [{ userId, role: 'owner' }]
+    });
+
+    await User.updateOne({ userId }, { householdId: household.householdId });
+    await moveUserItems(userId, household.householdId);
+
+    res.status(201).json({
+      message: 'Household created successfully',
+      household: await formatHousehold(household, userId)
+    });
+  } catch (err) {
+    console.error('Create household error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Rename the household (owners only)
+exports.updateHousehold = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const name = req.body.name?.trim();
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.status(404).json({ message: 'You are not in a household' });
+    }
+    if (!household.isOwner(userId)) {
+      return res.status(403).json({ message: 'Only owners can rename the household' });
+    }
+    if (!name) {
+      return res.status(400).json({ message: 'Household name is required' });
+    }
+
+    household.name = name;
+    await household.save();
+
+    res.json({
+      message: 'Household updated successfully',
+      household: await formatHousehold(household, userId)
+    });
+  } catch (err) {
+    console.error('Update household error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Generate a new invite code (owners only); the old one stops working
+exports.createInvite = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.status(404).json({ message: 'You are not in a household' });
+    }
+    if (!household.isOwner(userId)) {
+      return res.status(403).json({ message: 'Only owners can invite members' });
+    }
+
+    household.invite = {
+      code: generateInviteCode(),
+      createdBy: userId,
+      expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000)
+    };
+    await household.save();
+
+    res.status(201).json({ invite: formatInvite(household) });
+  } catch (err) {
+    console.error('Create invite error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Join a household with an invite code; the user's items become shared
+exports.joinHousehold = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const code = req.body.code?.trim().toUpperCase();
+
+    if (!code) {
+      return res.status(400).json({ message: 'Invite code is required' });
+    }
+
+    const household = await Household.findOne({
+      'invite.code': code,
+      'invite.expiresAt': { $gt: new Date() }
+    });
+
+    if (!household) {
+      return res.status(404).json({ message: 'Invite code is invalid or has expired' });
+    }
+    if (household.getMember(userId)) {
+      return res.status(409).json({ message: 'You are already a member of this household' });
+    }
+    if (req.user.householdId) {
+      return res.status(409).json({ message: 'Leave your current household first' });
+    }
+
+    household.members.push({ userId, role: 'member' });
+    await household.save();
+
+    await User.updateOne({ userId }, { householdId: household.householdId });
+    await moveUserItems(userId, household.householdId);
+
+    res.json({
+      message: `Joined ${household.name}`,
+      household: await formatHousehold(household, userId)
+    });
+  } catch (err) {
+    console.error('Join household error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Leave the current household; shared items stay with the household
+exports.leaveHousehold = async (req, res) => {
+  try {
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.status(404).json({ message: 'You are not in a household' });
+    }
+
+    await removeMember(household, req.user.userId);
+
+    res.json({ message: 'You left the household' });
+  } catch (err) {
+    console.error('Leave household error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Change a member's role (owners only)
+exports.updateMemberRole = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { memberId } = req.params;
+    const { role } = req.body;
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.status(404).json({ message: 'You are not in a household' });
+    }
+    if (!household.isOwner(userId)) {
+      return res.status(403).json({ message: 'Only owners can change roles' });
+    }
+    if (!Household.MEMBER_ROLES.includes(role)) {
+      return res.status(400).json({
+        message: `Invalid role. Use one of: ${Household.MEMBER_ROLES.join(', ')}`
+      });
+    }
+
+    const member = household.getMember(memberId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    const owners = household.members.filter(m => m.role === 'owner');
+    if (member.role === 'owner' && role !== 'owner' && owners.length === 1) {
+      return res.status(400).json({ message: 'A household needs at least one owner' });
+    }
+
+    member.role = role;
+    await household.save();
+
+    res.json({
+      message: 'Member updated successfully',
+      household: await formatHousehold(household, userId)
+    });
+  } catch (err) {
+    console.error('Update member role error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Remove a member from the household (owners only)
+exports.removeHouseholdMember = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { memberId } = req.params;
+    const household = await findUserHousehold(req);
+
+    if (!household) {
+      return res.status(404).json({ message: 'You are not in a household' });
+    }
+    if (!household.isOwner(userId)) {
+      return res.status(403).json({ message: 'Only owners can remove members' });
+    }
+    if (memberId === userId) {
+      return res.status(400).json({ message: 'Use leave to remove yourself' });
+    }
+    if (!household.getMember(memberId)) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    const updated = await removeMember(household, memberId);
+
+    res.json({
+      message: 'Member removed successfully',
+      household: updated && await formatHousehold(updated, userId)
+    });
+  } catch (err) {
+    console.error('Remove household member error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
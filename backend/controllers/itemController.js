@@ -1,16 +1,74 @@
+const mongoose = require('mongoose');
 const Item = require('../models/Item');
+const ItemEvent = require('../models/ItemEvent');
+const NutritionLog = require('../models/NutritionLog');
+const User = require('../models/User');
+const { resolveExpirySettings, buildExpiringSoonQuery } = require('../services/expirySettings');
+const { UNITS, normalizeUnit, sumQuantities } = require('../services/unitConverter');
+const {
+  STORAGE_LOCATIONS,
+  getDefaultStorageLocation,
+  suggestExpirationDate,
+  recalculateExpiration
+} = require('../services/shelfLife');
+const {
+  getLocationKey,
+  getLocationNames,
+  resolveLocation,
+  buildLocationFilter
+} = require('../services/locations');
+const { hasNutrition, fillNutrition } = require('../services/nutrition');
+const { invalidateRecommendations } = require('../services/recommendationCache');
+
+// Turn the `location` key in a request body (a built-in kind or a custom
+// location id) into the storageLocation/locationId stored on the item.
+// Returns false when the key doesn't name one of the user's locations.
+const applyLocation = async (user, data) => {
+  delete data.locationId;
+
+  if (data.location === undefined) {
+    // A bare kind means one of the built-in locations
+    if (data.storageLocation !== undefined) data.locationId = null;
+    return true;
+  }
+
+  const resolved = await resolveLocation(user, data.location);
+  delete data.location;
+  if (!resolved) return false;
+
+  Object.assign(data, resolved);
+  return true;
+};
+
+// Record a consumption event and the nutrients it added to the member's intake
+const recordConsumption = async (item, type, quantity, userId) => {
+  const event = await ItemEvent.record(item, type, quantity, userId);
+  await NutritionLog.record(item, event);
+  return event;
+};
 
 // Add new item
 exports.addItem = async (req, res) => {
   try {
-    const userId = req.user.userId;
     const itemData = {
       ...req.body,
-      userId
+      userId: req.user.userId,
+      householdId: req.user.householdId
     };
+    if (!(await applyLocation(req.user, itemData))) {
+      return res.status(400).json({ message: 'Invalid location' });
+    }
+    if (!itemData.storageLocation) {
+      itemData.storageLocation = getDefaultStorageLocation(itemData.name, itemData.category);
+    }
+    if (!hasNutrition(itemData.nutritionalInfo)) {
+      fillNutrition(itemData);
+    }
 
     const item = new Item(itemData);
     await item.save();
+    await ItemEvent.record(item, 'added');
+    await invalidateRecommendations(req.user);
 
     res.status(201).json({ 
       message: 'Item added successfully', 
@@ -22,32 +80,54 @@ exports.addItem = async (req, res) => {
   }
 };
 
-// Get user's inventory
+// Get user's inventory (the household's shared pantry when in one)
+// Query: category, location (key), groupBy=category|location, showUsed
 exports.getInventory = async (req, res) => {
   try {
-    const userId = req.user.userId;
-    const { category, showUsed = false } = req.query;
+    const { category, location, groupBy = 'category', showUsed = false } = req.query;
+
+    if (!['category', 'location'].includes(groupBy)) {
+      return res.status(400).json({ message: 'groupBy must be category or location' });
+    }
 
-    let query = { userId };
+    let query = Item.scopeFor(req.user);
     if (!showUsed) {
       query.isUsed = false;
     }
     if (category && category !== 'all') {
       query.category = category;
     }
+    if (location && location !== 'all') {
+      const locationFilter = buildLocationFilter(location);
+      if (!locationFilter) {
+        return res.status(400).json({ message: 'Invalid location' });
+      }
+      query = { ...query, ...locationFilter };
+    }
 
     const items = await Item.find(query).sort({ expirationDate: 1 });
+    const getGroup = groupBy === 'location' ? getLocationKey : (item) => item.category;
 
-    // Group items by category for better organization
+    // Group items by category (or location) for better organization
     const inventory = items.reduce((acc, item) => {
-      if (!acc[item.category]) {
-        acc[item.category] = [];
+      const group = getGroup(item);
+      if (!acc[group]) {
+        acc[group] = [];
       }
-      acc[item.category].push(item);
+      acc[group].push(item);
       return acc;
     }, {});
 
-    res.json({ inventory, totalItems: items.length });
+    const response = { inventory, totalItems: items.length, groupBy };
+    if (groupBy === 'location') {
+      // Display names for the location keys used as groups
+      const names = await getLocationNames(req.user);
+      response.locationNames = Object.fromEntries(
+        Object.keys(inventory).map(key => [key, names.get(key) || 'Unknown'])
+      );
+    }
+
+    res.json(response);
   } catch (err) {
     console.error('Get inventory error:', err);
     res.status(500).json({ message: 'Internal server error' });
@@ -57,20 +137,16 @@ exports.getInventory = async (req, res) => {
 // Get items expiring soon
 exports.getExpiringSoon = async (req, res) => {
   try {
-    const userId = req.user.userId;
-    const today = new Date();
-    const threeDaysFromNow = new Date(today.getTime() + (3 * 24 * 60 * 60 * 1000));
+    const user = await User.findOne({ userId: req.user.userId }).select('expirySettings');
+    const expirySettings = resolveExpirySettings(user);
 
     const expiringSoon = await Item.find({
-      userId,
+      ...Item.scopeFor(req.user),
       isUsed: false,
-      expirationDate: { 
-        $gte: today, 
-        $lte: threeDaysFromNow 
-      }
+      ...buildExpiringSoonQuery(expirySettings)
     }).sort({ expirationDate: 1 });
 
-    res.json({ expiringSoon });
+    res.json({ expiringSoon, expirySettings });
   } catch (err) {
     console.error('Get expiring items error:', err);
     res.status(500).json({ message: 'Internal server error' });
@@ -80,38 +156,56 @@ exports.getExpiringSoon = async (req, res) => {
 // Get dashboard stats
 exports.getDashboardStats = async (req, res) => {
   try {
-    const userId = req.user.userId;
+    const scope = Item.scopeFor(req.user);
     const today = new Date();
-    const threeDaysFromNow = new Date(today.getTime() + (3 * 24 * 60 * 60 * 1000));
+    const user = await User.findOne({ userId: req.user.userId }).select('expirySettings');
+    const expirySettings = resolveExpirySettings(user);
 
     // Get total items
-    const totalItems = await Item.countDocuments({ userId, isUsed: false });
+    const totalItems = await Item.countDocuments({ ...scope, isUsed: false });
 
     // Get expiring soon count
     const expiringSoonCount = await Item.countDocuments({
-      userId,
+      ...scope,
       isUsed: false,
-      expirationDate: { $gte: today, $lte: threeDaysFromNow }
+      ...buildExpiringSoonQuery(expirySettings, today)
     });
 
     // Get expired items count
     const expiredCount = await Item.countDocuments({
-      userId,
+      ...scope,
       isUsed: false,
       expirationDate: { $lt: today }
     });
 
     // Get category breakdown
     const categoryStats = await Item.aggregate([
-      { $match: { userId, isUsed: false } },
+      { $match: { ...scope, isUsed: false } },
       { $group: { _id: '$category', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
     ]);
 
+    // Get location breakdown
+    const locationGroups = await Item.aggregate([
+      { $match: { ...scope, isUsed: false } },
+      {
+        $group: {
+          _id: { locationId: '$locationId', storageLocation: '$storageLocation' },
+          count: { $sum: 1 }
+        }
+      },
+      { $sort: { count: -1 } }
+    ]);
+    const locationNames = await getLocationNames(req.user);
+    const locationStats = locationGroups.map(({ _id, count }) => {
+      const key = getLocationKey(_id);
+      return { _id: key, name: locationNames.get(key) || 'Unknown', count };
+    });
+
     // Get recent items (last 7 days)
     const sevenDaysAgo = new Date(today.getTime() - (7 * 24 * 60 * 60 * 1000));
     const recentItemsCount = await Item.countDocuments({
-      userId,
+      ...scope,
       createdAt: { $gte: sevenDaysAgo }
     });
 
@@ -120,7 +214,9 @@ exports.getDashboardStats = async (req, res) => {
       expiringSoonCount,
       expiredCount,
       categoryStats,
-      recentItemsCount
+      locationStats,
+      recentItemsCount,
+      expirySettings
     });
   } catch (err) {
     console.error('Get dashboard stats error:', err);
@@ -128,18 +224,40 @@ exports.getDashboardStats = async (req, res) => {
   }
 };
 
+// Reasons accepted when deleting an item
+const DELETE_REASONS = ['consumed', 'discarded-expired', 'discarded-spoiled'];
+
 // Delete item
+// ?reason=consumed|discarded-expired|discarded-spoiled records why it left the
+// pantry; without one, expired items count as discarded and others as consumed.
 exports.deleteItem = async (req, res) => {
   try {
-    const userId = req.user.userId;
     const { itemId } = req.params;
+    const { reason } = req.query;
+
+    if (reason && !DELETE_REASONS.includes(reason)) {
+      return res.status(400).json({
+        message: `Invalid reason. Use one of: ${DELETE_REASONS.join(', ')}`
+      });
+    }
 
-    const item = await Item.findOneAndDelete({ _id: itemId, userId });
+    const item = await Item.findOneAndDelete({ _id: itemId, ...Item.scopeFor(req.user) });
 
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
     }
 
+    // Items already marked as used were logged when they were consumed
+    if (!item.isUsed && item.quantity.amount > 0) {
+      const eventType = reason || (item.expirationDate < new Date() ? 'discarded-expired' : 'consumed');
+      if (eventType === 'consumed') {
+        await recordConsumption(item, eventType, item.quantity, req.user.userId);
+      } else {
+        await ItemEvent.record(item, eventType, item.quantity, req.user.userId);
+      }
+    }
+    await invalidateRecommendations(req.user);
+
     res.json({ message: 'Item deleted successfully' });
   } catch (err) {
     console.error('Delete item error:', err);
@@ -151,20 +269,41 @@ exports.deleteItem = async (req, res) => {
 // Update item
 exports.updateItem = async (req, res) => {
   try {
-    const userId = req.user.userId;
     const { itemId } = req.params;
+    const scope = Item.scopeFor(req.user);
     const updateData = {
       ...req.body,
-      userId, // Ensure userId remains unchanged
       updatedAt: new Date()
     };
 
     // Remove fields that shouldn't be updated directly
     delete updateData._id;
     delete updateData.createdAt;
+    delete updateData.userId;
+    delete updateData.householdId;
+    delete updateData.consumedBy;
+
+    const previous = await Item.findOne({ _id: itemId, ...scope });
+    if (!previous) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    if (!(await applyLocation(req.user, updateData))) {
+      return res.status(400).json({ message: 'Invalid location' });
+    }
+    if (!hasNutrition(updateData.nutritionalInfo ?? previous.nutritionalInfo)) {
+      fillNutrition(updateData, updateData.name ?? previous.name);
+    }
+
+    if (updateData.isUsed && !previous.isUsed) {
+      updateData.consumedBy = req.user.userId;
+      if (!updateData.usedDate) {
+        updateData.usedDate = new Date();
+      }
+    }
 
     const item = await Item.findOneAndUpdate(
-      { _id: itemId, userId }, // Only allow updating user's own items
+      { _id: itemId, ...scope }, // Only allow updating items in the user's pantry
       updateData,
       { new: true, runValidators: true }
     );
@@ -173,6 +312,20 @@ exports.updateItem = async (req, res) => {
       return res.status(404).json({ message: 'Item not found' });
     }
 
+    // Log consumption when the item was used up or its quantity went down
+    if (item.isUsed && !previous.isUsed) {
+      await recordConsumption(item, 'consumed', previous.quantity, req.user.userId);
+    } else if (
+      item.quantity.unit === previous.quantity.unit &&
+      item.quantity.amount < previous.quantity.amount
+    ) {
+      await recordConsumption(item, 'partially-consumed', {
+        amount: previous.quantity.amount - item.quantity.amount,
+        unit: item.quantity.unit
+      }, req.user.userId);
+    }
+    await invalidateRecommendations(req.user);
+
     res.json({
       message: 'Item updated successfully',
       item
@@ -186,10 +339,9 @@ exports.updateItem = async (req, res) => {
 // Get single item by ID
 exports.getItem = async (req, res) => {
   try {
-    const userId = req.user.userId;
     const { itemId } = req.params;
 
-    const item = await Item.findOne({ _id: itemId, userId });
+    const item = await Item.findOne({ _id: itemId, ...Item.scopeFor(req.user) });
 
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
@@ -200,4 +352,279 @@ exports.getItem = async (req, res) => {
     console.error('Get item error:', err);
     res.status(500).json({ message: 'Internal server error' });
   }
-};
\ No newline at end of file
+};
+
+// Get how much of an ingredient the user has, converted to one unit
+// e.g. GET /api/items/quantity?name=rice&unit=g
+exports.getQuantityTotal = async (req, res) => {
+  try {
+    const { name } = req.query;
+    const unit = normalizeUnit(req.query.unit);
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: 'Item name is required' });
+    }
+    if (!unit) {
+      return res.status(400).json({
+        message: 'A valid unit is required',
+        units: Object.keys(UNITS)
+      });
+    }
+
+    const escapedName = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const items = await Item.find({
+      ...Item.scopeFor(req.user),
+      isUsed: false,
+      name: { $regex: escapedName, $options: 'i' }
+    }).sort({ expirationDate: 1 });
+
+    const { total, unconvertible } = sumQuantities(
+      items.map(item => ({
+        amount: item.quantity.amount,
+        unit: item.quantity.unit,
+        ingredient: item.name,
+        itemId: item._id
+      })),
+      unit
+    );
+
+    res.json({
+      name: name.trim(),
+      total,
+      unit,
+      items: items.map(item => ({
+        _id: item._id,
+        name: item.name,
+        quantity: item.quantity,
+        expirationDate: item.expirationDate
+      })),
+      unconvertible: unconvertible.map(({ itemId, amount, unit: itemUnit, ingredient }) => ({
+        _id: itemId,
+        name: ingredient,
+        quantity: { amount, unit: itemUnit }
+      }))
+    });
+  } catch (err) {
+    console.error('Get quantity total error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get the item event history of the user's pantry
+// Query: type, itemId, userId (member), from, to, limit
+exports.getItemHistory = async (req, res) => {
+  try {
+    const { type, itemId, userId, from, to } = req.query;
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+    const types = typeof type === 'string' ? type.split(',') : [];
+    if (type && (typeof type !== 'string' || !types.every(value => ItemEvent.EVENT_TYPES.includes(value)))) {
+      return res.status(400).json({ message: `type must be a comma-separated list of: ${ItemEvent.EVENT_TYPES.join(', ')}` });
+    }
+    if (itemId && !mongoose.isValidObjectId(itemId)) {
+      return res.status(400).json({ message: 'itemId must be a valid item id' });
+    }
+    // Members are identified by their userId string, not an ObjectId
+    if (userId && typeof userId !== 'string') {
+      return res.status(400).json({ message: 'userId must be a single user id' });
+    }
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate)) || (toDate && isNaN(toDate))) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+
+    const query = Item.scopeFor(req.user);
+    if (type) {
+      query.type = { $in: types };
+    }
+    if (itemId) {
+      query.itemId = itemId;
+    }
+    if (userId && req.user.householdId) {
+      query.userId = userId;
+    }
+    if (fromDate || toDate) {
+      query.createdAt = {};
+      if (fromDate) query.createdAt.$gte = fromDate;
+      if (toDate) query.createdAt.$lte = toDate;
+    }
+
+    const events = await ItemEvent.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({ events });
+  } catch (err) {
+    console.error('Get item history error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get waste (and consumption) per category per month
+// Query: months (default 6)
+exports.getWasteReport = async (req, res) => {
+  try {
+    const months = Math.min(parseInt(req.query.months, 10) || 6, 24);
+
+    const since = new Date();
+    since.setDate(1);
+    since.setHours(0, 0, 0, 0);
+    since.setMonth(since.getMonth() - (months - 1));
+
+    const rows = await ItemEvent.aggregate([
+      {
+        $match: {
+          ...Item.scopeFor(req.user),
+          createdAt: { $gte: since },
+          type: { $in: ['consumed', 'partially-consumed', 'discarded-expired', 'discarded-spoiled'] }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            month: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+            category: '$category',
+            wasted: { $in: ['$type', ['discarded-expired', 'discarded-spoiled']] }
+          },
+          items: { $sum: 1 },
+          grams: { $sum: { $ifNull: ['$weightGrams', 0] } }
+        }
+      },
+      { $sort: { '_id.month': 1 } }
+    ]);
+
+    const report = {};
+    rows.forEach(({ _id, items, grams }) => {
+      if (!report[_id.month]) {
+        report[_id.month] = {
+          month: _id.month,
+          wastedItems: 0,
+          wastedKg: 0,
+          consumedItems: 0,
+          consumedKg: 0,
+          categories: {}
+        };
+      }
+      const month = report[_id.month];
+      const kg = Math.round(grams) / 1000;
+
+      if (_id.wasted) {
+        month.wastedItems += items;
+        month.wastedKg += kg;
+        month.categories[_id.category] = {
+          category: _id.category,
+          items: (month.categories[_id.category]?.items || 0) + items,
+          kg: (month.categories[_id.category]?.kg || 0) + kg
+        };
+      } else {
+        month.consumedItems += items;
+        month.consumedKg += kg;
+      }
+    });
+
+    const monthly = Object.values(report).map(month => ({
+      ...month,
+      wastedKg: Math.round(month.wastedKg * 1000) / 1000,
+      consumedKg: Math.round(month.consumedKg * 1000) / 1000,
+      categories: Object.values(month.categories).sort((a, b) => b.kg - a.kg)
+    }));
+
+    res.json({
+      months: monthly,
+      totals: {
+        wastedItems: monthly.reduce((sum, m) => sum + m.wastedItems, 0),
+        wastedKg: Math.round(monthly.reduce((sum, m) => sum + m.wastedKg, 0) * 1000) / 1000,
+        consumedItems: monthly.reduce((sum, m) => sum + m.consumedItems, 0),
+        consumedKg: Math.round(monthly.reduce((sum, m) => sum + m.consumedKg, 0) * 1000) / 1000
+      }
+    });
+  } catch (err) {
+    console.error('Get waste report error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Suggest an expiry date from the shelf-life table
+// Query: name, category, storageLocation (defaults to where the item usually
+// keeps). Pass currentLocation and expirationDate to recalculate the expiry
+// of an item being moved from currentLocation to storageLocation.
+exports.getShelfLifeSuggestion = async (req, res) => {
+  try {
+    const { name, category, storageLocation, currentLocation, expirationDate } = req.query;
+
+    if (!name && !category) {
+      return res.status(400).json({ message: 'Item name or category is required' });
+    }
+    if (storageLocation && !STORAGE_LOCATIONS.includes(storageLocation)) {
+      return res.status(400).json({
+        message: `Invalid storage location. Use one of: ${STORAGE_LOCATIONS.join(', ')}`
+      });
+    }
+
+    const item = { name, category, storageLocation };
+    const isMove = currentLocation && expirationDate && !Number.isNaN(new Date(expirationDate).getTime());
+
+    const suggestion = isMove
+      ? recalculateExpiration({ ...item, storageLocation: currentLocation, expirationDate }, storageLocation)
+      : suggestExpirationDate(item);
+
+    res.json({ ...suggestion, recalculated: Boolean(isMove) });
+  } catch (err) {
+    console.error('Get shelf life suggestion error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Move several items to one location
+// Body: { itemIds, location (key), recalculateExpiry } — with recalculateExpiry,
+// items changing kind (e.g. fridge to freezer) get a new expiry date
+exports.moveItems = async (req, res) => {
+  try {
+    const { itemIds, location, recalculateExpiry = false } = req.body;
+
+    if (!Array.isArray(itemIds) || itemIds.length === 0) {
+      return res.status(400).json({ message: 'itemIds are required' });
+    }
+    if (!itemIds.every(id => mongoose.isValidObjectId(id))) {
+      return res.status(400).json({ message: 'itemIds must be valid item ids' });
+    }
+    if (!STORAGE_LOCATIONS.includes(location) && !mongoose.isValidObjectId(location)) {
+      return res.status(400).json({ message: 'location must be a storage location or a location id' });
+    }
+
+    const target = await resolveLocation(req.user, location);
+    if (!target) {
+      return res.status(400).json({ message: 'Invalid location' });
+    }
+
+    const items = await Item.find({ _id: { $in: itemIds }, ...Item.scopeFor(req.user) });
+    const now = new Date();
+
+    await Promise.all(items.map(item => {
+      if (
+        recalculateExpiry &&
+        item.storageLocation &&
+        item.storageLocation !== target.storageLocation
+      ) {
+        item.expirationDate = recalculateExpiration(item, target.storageLocation, now).expirationDate;
+      }
+      item.storageLocation = target.storageLocation;
+      item.locationId = target.locationId;
+      return item.save();
+    }));
+    if (recalculateExpiry) {
+      await invalidateRecommendations(req.user);
+    }
+
+    res.json({
+      message: `Moved ${items.length} item${items.length === 1 ? '' : 's'}`,
+      moved: items.length,
+      notFound: itemIds.length - items.length,
+      items
+    });
+  } catch (err) {
+    console.error('Move items error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,200 @@
+// /backend/controllers/knowledgeController.js
+const crypto = require('crypto');
+const path = require('path');
+const mongoose = require('mongoose');
+const RAGService = require('../services/ragService');
+const GeminiService = require('../services/geminiService');
+const KnowledgeDocument = require('../models/KnowledgeDocument');
+const { enqueueIndexing, resumePendingIndexing } = require('../services/knowledgeIndexer');
+
+const geminiService = GeminiService.getShared();
+
+// The same RAG service chat and recommendations use; other server instances
+// pick changes up from the KnowledgeDocument collection
+const { ragService } = geminiService;
+
+const MAX_QUESTION_LENGTH = 500;
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const FORMATS_BY_EXTENSION = {
+  '.pdf': 'pdf',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text'
+};
+
+const { BUILT_IN_DOCUMENT } = RAGService;
+
+// Uploads are private to the member who added them
+const findDocument = (req) => mongoose.isValidObjectId(req.params.documentId)
+  ? KnowledgeDocument.findOne({ _id: req.params.documentId, userId: req.user.userId })
+  : null;
+
+// The stored file never goes back to the client
+const toResponse = (document) => {
+  const response = document.toObject();
+  delete response.content;
+  return { ...response, canManage: true };
+};
+
+// Answer a question from the built-in PDF and the user's own uploads, with
+// the chunks the answer was based on
+// Body: { question, documentIds? }
+exports.askKnowledge = async (req, res) => {
+  try {
+    const { question, documentIds } = req.body;
+
+    if (typeof question !== 'string' || !question.trim()) {
+      return res.status(400).json({ message: 'Question is required' });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return res.status(400).json({ message: `Questions must be ${MAX_QUESTION_LENGTH} characters or fewer` });
+    }
+    if (documentIds !== undefined && (!Array.isArray(documentIds) || documentIds.length === 0)) {
+      return res.status(400).json({ message: 'documentIds must be a non-empty list' });
+    }
+
+    const { found, answer, chunks } = await geminiService.askAboutKnowledge(question.trim(), {
+      documentIds,
+      userId: req.user.userId
+    });
+
+    res.json({
+      question: question.trim(),
+      found,
+      answer,
+      threshold: GeminiService.KNOWLEDGE_MIN_SIMILARITY,
+      chunks: chunks.map(chunk => ({ ...chunk, similarity: Number(chunk.similarity) }))
+    });
+  } catch (err) {
+    console.error('Ask knowledge base error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// List the built-in document and the user's uploads. Uploads still waiting
+// for indexing (e.g. after a restart) are queued again.
+exports.getDocuments = async (req, res) => {
+  try {
+    const documents = await KnowledgeDocument.find({ userId: req.user.userId }).sort({ createdAt: -1 });
+    if (documents.some(document => ['pending', 'indexing'].includes(document.status))) {
+      await resumePendingIndexing(req.user.userId);
+    }
+
+    res.json({
+      documents: [
+        {
+          _id: BUILT_IN_DOCUMENT.id,
+          title: BUILT_IN_DOCUMENT.title,
+          filename: BUILT_IN_DOCUMENT.filename,
+          format: BUILT_IN_DOCUMENT.format,
+          status: 'indexed',
+          builtIn: true,
+          canManage: false
+        },
+        ...documents.map(document => toResponse(document))
+      ]
+    });
+  } catch (err) {
+    console.error('Get knowledge documents error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Upload a PDF, Markdown or plain-text document. It is indexed in the
+// background: the response is 202 with status 'pending', and the document
+// list shows when it becomes 'indexed' (or 'failed').
+// Body: { filename, content (base64), title? }
+exports.uploadDocument = async (req, res) => {
+  try {
+    const { filename, content, title } = req.body;
+
+    if (typeof filename !== 'string' || !filename.trim() || typeof content !== 'string' || !content) {
+      return res.status(400).json({ message: 'filename and content are required' });
+    }
+
+    const extension = path.extname(filename).toLowerCase();
+    const format = FORMATS_BY_EXTENSION[extension];
+    if (!format) {
+      return res.status(400).json({ message: `Unsupported file type. Use one of: ${Object.keys(FORMATS_BY_EXTENSION).join(', ')}` });
+    }
+
+    const buffer = Buffer.from(content, 'base64');
+    if (buffer.length === 0) {
+      return res.status(400).json({ message: 'Document is empty' });
+    }
+    if (buffer.length > MAX_DOCUMENT_BYTES) {
+      return res.status(413).json({ message: 'Documents must be 10 MB or smaller' });
+    }
+
+    const contentHash = crypto.createHash('sha256').update(buffer).digest('hex');
+    const existing = await KnowledgeDocument.findOne({ userId: req.user.userId, contentHash });
+    if (existing) {
+      return res.json({ message: 'Document already in your knowledge base', document: toResponse(existing) });
+    }
+
+    const basename = path.basename(filename.trim());
+    const document = new KnowledgeDocument({
+      userId: req.user.userId,
+      title: (typeof title === 'string' && title.trim()) || path.basename(basename, extension) || basename,
+      filename: basename,
+      format,
+      content: buffer,
+      size: buffer.length,
+      contentHash,
+      status: 'pending'
+    });
+    await document.save();
+    enqueueIndexing(document._id);
+
+    res.status(202).json({ message: 'Document uploaded, indexing has started', document: toResponse(document) });
+  } catch (err) {
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Upload knowledge document error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Rebuild a document's index from the stored file, e.g. after a failed
+// upload or a change of LLM provider. Runs in the background like uploads.
+exports.reindexDocument = async (req, res) => {
+  try {
+    const document = await findDocument(req);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    document.set({ status: 'pending', error: undefined });
+    await document.save();
+    enqueueIndexing(document._id, { force: true });
+
+    res.status(202).json({ message: 'Re-indexing has started', document: toResponse(document) });
+  } catch (err) {
+    console.error('Reindex knowledge document error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Remove a document and its index from the knowledge base
+exports.deleteDocument = async (req, res) => {
+  try {
+    if (req.params.documentId === BUILT_IN_DOCUMENT.id) {
+      return res.status(403).json({ message: 'The built-in document cannot be deleted' });
+    }
+
+    const document = await findDocument(req);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    await ragService.removeDocument(document._id);
+    await document.deleteOne();
+    res.json({ message: 'Document deleted' });
+  } catch (err) {
+    console.error('Delete knowledge document error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
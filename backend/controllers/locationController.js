@@ -0,0 +1,147 @@
+const mongoose = require('mongoose');
+const Item = require('../models/Item');
+const Location = require('../models/Location');
+const { STORAGE_LOCATIONS } = require('../services/shelfLife');
+const { listLocations, getLocationKey, UNASSIGNED } = require('../services/locations');
+
+const MAX_NAME_LENGTH = Location.schema.path('name').options.maxlength;
+
+// Problem with a location name from a request body, or null if it's fine
+const validateName = (name) => {
+  if (typeof name !== 'string' || !name.trim()) return 'Location name is required';
+  if (name.trim().length > MAX_NAME_LENGTH) return `Location name must be at most ${MAX_NAME_LENGTH} characters`;
+  return null;
+};
+
+const findLocation = (req) => mongoose.isValidObjectId(req.params.locationId)
+  ? Location.findOne({ _id: req.params.locationId, ...Item.scopeFor(req.user) })
+  : null;
+
+// Get built-in and custom locations with how many items each holds
+exports.getLocations = async (req, res) => {
+  try {
+    const locations = await listLocations(req.user);
+
+    const items = await Item.find({ ...Item.scopeFor(req.user), isUsed: false })
+      .select('storageLocation locationId');
+    const counts = items.reduce((acc, item) => {
+      const key = getLocationKey(item);
+      acc[key] = (acc[key] || 0) + 1;
+      return acc;
+    }, {});
+
+    res.json({
+      locations: locations.map(location => ({
+        ...location,
+        itemCount: counts[location.key] || 0
+      })),
+      unassignedCount: counts[UNASSIGNED] || 0
+    });
+  } catch (err) {
+    console.error('Get locations error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Create a custom location
+// Body: { name, kind: fridge|freezer|pantry }
+exports.createLocation = async (req, res) => {
+  try {
+    const { kind } = req.body;
+
+    const nameError = validateName(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ message: nameError });
+    }
+    const name = req.body.name.trim();
+    if (!STORAGE_LOCATIONS.includes(kind)) {
+      return res.status(400).json({
+        message: `Invalid kind. Use one of: ${STORAGE_LOCATIONS.join(', ')}`
+      });
+    }
+
+    const existing = await Location.findOne({
+      ...Item.scopeFor(req.user),
+      name: { $regex: `^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' }
+    });
+    if (existing) {
+      return res.status(409).json({ message: 'A location with this name already exists' });
+    }
+
+    const location = await Location.create({
+      name,
+      kind,
+      userId: req.user.userId,
+      householdId: req.user.householdId
+    });
+
+    res.status(201).json({
+      message: 'Location created successfully',
+      location: { key: String(location._id), name: location.name, kind: location.kind, custom: true }
+    });
+  } catch (err) {
+    console.error('Create location error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Rename a custom location or change its kind
+exports.updateLocation = async (req, res) => {
+  try {
+    const location = await findLocation(req);
+    if (!location) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+
+    const { kind } = req.body;
+
+    const nameError = req.body.name !== undefined ? validateName(req.body.name) : null;
+    if (nameError) {
+      return res.status(400).json({ message: nameError });
+    }
+    const name = req.body.name?.trim();
+    if (kind !== undefined && !STORAGE_LOCATIONS.includes(kind)) {
+      return res.status(400).json({
+        message: `Invalid kind. Use one of: ${STORAGE_LOCATIONS.join(', ')}`
+      });
+    }
+
+    if (name) location.name = name;
+    if (kind && kind !== location.kind) {
+      location.kind = kind;
+      // Items keep the kind of the location they're in
+      await Item.updateMany({ locationId: location._id }, { storageLocation: kind });
+    }
+    await location.save();
+
+    res.json({
+      message: 'Location updated successfully',
+      location: { key: String(location._id), name: location.name, kind: location.kind, custom: true }
+    });
+  } catch (err) {
+    console.error('Update location error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Delete a custom location; its items fall back to the built-in location of
+// the same kind
+exports.deleteLocation = async (req, res) => {
+  try {
+    const location = await findLocation(req);
+    if (!location) {
+      return res.status(404).json({ message: 'Location not found' });
+    }
+
+    const { modifiedCount } = await Item.updateMany(
+      { locationId: location._id },
+      { locationId: null, storageLocation: location.kind }
+    );
+    await location.deleteOne();
+
+    res.json({ message: 'Location deleted successfully', itemsMoved: modifiedCount });
+  } catch (err) {
+    console.error('Delete location error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
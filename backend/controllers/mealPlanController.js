@@ -0,0 +1,316 @@
+// /backend/controllers/mealPlanController.js
+const mongoose = require('mongoose');
+const GeminiService = require('../services/geminiService');
+const Item = require('../models/Item');
+const User = require('../models/User');
+const Household = require('../models/Household');
+const MealPlan = require('../models/MealPlan');
+const { resolveExpirySettings } = require('../services/expirySettings');
+const { StructuredOutputError } = require('../services/structuredOutput');
+const { DATE_PATTERN, toLocalDate, shiftDate } = require('../services/localDates');
+const {
+  PLAN_DAYS,
+  parseMealFrequency,
+  getPlanSlots,
+  getExpiringItems,
+  findExpiringUsed,
+  prioritizeExpiring
+} = require('../services/mealPlanner');
+
+const geminiService = GeminiService.getShared();
+
+const EDITABLE_MEAL_FIELDS = ['name', 'description', 'mainIngredients', 'cookingTime', 'difficulty', 'cuisine', 'locked'];
+
+// Everything the planner needs: the pantry, preferences and plan size
+const loadPlanningContext = async (reqUser) => {
+  const user = await User.findOne({ userId: reqUser.userId });
+  const preferences = { ...(user?.toObject().preferences || {}) };
+
+  // A shared pantry feeds the whole household unless a size was set
+  if (reqUser.householdId && !preferences.householdSize) {
+    const household = await Household.findOne({ householdId: reqUser.householdId }).select('members');
+    preferences.householdSize = household?.members.length || undefined;
+  }
+
+  const inventory = await Item.find({ ...Item.scopeFor(reqUser), isUsed: false })
+    .sort({ expirationDate: 1 });
+  const groupedInventory = inventory.reduce((acc, item) => {
+    (acc[item.category] = acc[item.category] || []).push(item);
+    return acc;
+  }, {});
+  const expirySettings = resolveExpirySettings(user);
+
+  return {
+    preferences,
+    inventory,
+    groupedInventory,
+    expirySettings,
+    expiringItems: getExpiringItems(inventory, expirySettings),
+    mealsPerDay: parseMealFrequency(preferences.mealFrequency),
+    servings: preferences.householdSize || 2,
+    timeZone: user?.timezone || 'UTC'
+  };
+};
+
+const toMeal = (generated, servings, expiringItems) => ({
+  date: generated.date,
+  slot: generated.slot,
+  name: generated.name,
+  description: generated.description,
+  mainIngredients: generated.mainIngredients,
+  usesExpiring: findExpiringUsed(generated, expiringItems),
+  cookingTime: generated.cookingTime,
+  difficulty: generated.difficulty,
+  cuisine: generated.cuisine,
+  servings,
+  locked: false
+});
+
+const sortMeals = (plan) => {
+  const slotOrder = MealPlan.MEAL_SLOTS;
+  plan.meals.sort((a, b) =>
+    a.date.localeCompare(b.date) || slotOrder.indexOf(a.slot) - slotOrder.indexOf(b.slot)
+  );
+};
+
+const sendStructuredOutputError = (res, error, message) => res.status(502).json({
+  message,
+  reason: error.reason,
+  errors: error.errors
+});
+
+const findPlan = (req) => mongoose.isValidObjectId(req.params.planId)
+  ? MealPlan.findOne({ _id: req.params.planId, userId: req.user.userId })
+  : null;
+
+// List the user's meal plans, newest first
+exports.getMealPlans = async (req, res) => {
+  try {
+    const plans = await MealPlan.find({ userId: req.user.userId })
+      .sort({ weekStart: -1 })
+      .select('weekStart mealsPerDay servings meals.locked updatedAt');
+
+    res.json({
+      plans: plans.map(plan => ({
+        _id: plan._id,
+        weekStart: plan.weekStart,
+        mealsPerDay: plan.mealsPerDay,
+        servings: plan.servings,
+        mealCount: plan.meals.length,
+        lockedCount: plan.meals.filter(meal => meal.locked).length,
+        updatedAt: plan.updatedAt
+      }))
+    });
+  } catch (err) {
+    console.error('Get meal plans error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get the plan covering a day (default today in the user's timezone)
+// Query: date (YYYY-MM-DD)
+exports.getCurrentMealPlan = async (req, res) => {
+  try {
+    const { date } = req.query;
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ message: 'date must be YYYY-MM-DD' });
+    }
+
+    const user = await User.findOne({ userId: req.user.userId }).select('timezone');
+    const day = date || toLocalDate(new Date(), user?.timezone || 'UTC');
+
+    const plan = await MealPlan.findOne({
+      userId: req.user.userId,
+      weekStart: { $gt: shiftDate(day, -PLAN_DAYS), $lte: day }
+    }).sort({ weekStart: -1 });
+
+    res.json({ plan, date: day });
+  } catch (err) {
+    console.error('Get current meal plan error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get a meal plan by id
+exports.getMealPlan = async (req, res) => {
+  try {
+    const plan = await findPlan(req);
+    if (!plan) {
+      return res.status(404).json({ message: 'Meal plan not found' });
+    }
+    res.json({ plan });
+  } catch (err) {
+    console.error('Get meal plan error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Generate the plan for a week, or regenerate it keeping locked meals
+// Body: { weekStart } (YYYY-MM-DD, defaults to today)
+exports.generateMealPlan = async (req, res) => {
+  try {
+    const { weekStart: requestedStart } = req.body;
+    if (requestedStart && !DATE_PATTERN.test(requestedStart)) {
+      return res.status(400).json({ message: 'weekStart must be YYYY-MM-DD' });
+    }
+
+    const context = await loadPlanningContext(req.user);
+    if (context.inventory.length === 0) {
+      return res.status(400).json({ message: 'Add some items to your inventory to plan meals!' });
+    }
+
+    const weekStart = requestedStart || toLocalDate(new Date(), context.timeZone);
+    let plan = await MealPlan.findOne({ userId: req.user.userId, weekStart });
+
+    const lockedMeals = plan ? plan.meals.filter(meal => meal.locked) : [];
+    const slots = getPlanSlots(weekStart, context.mealsPerDay).filter(({ date, slot }) =>
+      !lockedMeals.some(meal => meal.date === date && meal.slot === slot)
+    );
+
+    const generated = await geminiService.generateMealPlan(context.groupedInventory, context.preferences, context.expirySettings, {
+      slots,
+      servings: context.servings,
+      lockedMeals,
+      expiringItems: context.expiringItems
+    });
+
+    // Only keep meals for slots that were asked for, one per slot
+    const meals = [];
+    slots.forEach(({ date, slot }) => {
+      const match = generated.find(meal => meal.date === date && meal.slot === slot);
+      if (match) meals.push(toMeal(match, context.servings, context.expiringItems));
+    });
+
+    if (meals.length === 0 && slots.length > 0) {
+      return res.status(502).json({ message: 'Unable to generate a meal plan at the moment. Please try again later.' });
+    }
+
+    if (!plan) {
+      plan = new MealPlan({ userId: req.user.userId, weekStart });
+    }
+    plan.mealsPerDay = context.mealsPerDay;
+    plan.servings = context.servings;
+    plan.meals = [...lockedMeals, ...prioritizeExpiring(meals, context.expiringItems)];
+    sortMeals(plan);
+    await plan.save();
+
+    res.status(201).json({
+      message: 'Meal plan generated',
+      plan,
+      missingSlots: slots.length - meals.length
+    });
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      return sendStructuredOutputError(res, err, 'Unable to generate a meal plan at the moment. Please try again later.');
+    }
+    console.error('Generate meal plan error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Edit a meal, or lock/unlock it
+// Body: any of name, description, mainIngredients, cookingTime, difficulty, cuisine, locked
+exports.updateMeal = async (req, res) => {
+  try {
+    const plan = await findPlan(req);
+    const meal = plan?.meals.id(req.params.mealId);
+    if (!meal) {
+      return res.status(404).json({ message: 'Meal not found' });
+    }
+
+    if (req.body.mainIngredients !== undefined && !Array.isArray(req.body.mainIngredients)) {
+      return res.status(400).json({ message: 'mainIngredients must be a list' });
+    }
+
+    EDITABLE_MEAL_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) meal[field] = req.body[field];
+    });
+    if (req.body.mainIngredients) {
+      const { expiringItems } = await loadPlanningContext(req.user);
+      meal.usesExpiring = findExpiringUsed(meal, expiringItems);
+    }
+    await plan.save();
+
+    res.json({ message: 'Meal updated', plan });
+  } catch (err) {
+    console.error('Update meal error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Replace one meal with a newly generated one
+exports.regenerateMeal = async (req, res) => {
+  try {
+    const plan = await findPlan(req);
+    const meal = plan?.meals.id(req.params.mealId);
+    if (!meal) {
+      return res.status(404).json({ message: 'Meal not found' });
+    }
+    if (meal.locked) {
+      return res.status(409).json({ message: 'Unlock the meal before regenerating it' });
+    }
+
+    const context = await loadPlanningContext(req.user);
+    const generated = await geminiService.generateMeal(context.groupedInventory, context.preferences, context.expirySettings, {
+      date: meal.date,
+      slot: meal.slot,
+      servings: plan.servings,
+      avoid: plan.meals.map(m => m.name),
+      expiringItems: context.expiringItems
+    });
+
+    Object.assign(meal, toMeal({ ...generated, date: meal.date, slot: meal.slot }, plan.servings, context.expiringItems));
+    await plan.save();
+
+    res.json({ message: 'Meal regenerated', plan });
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      return sendStructuredOutputError(res, err, 'Unable to generate a meal at the moment. Please try again later.');
+    }
+    console.error('Regenerate meal error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Swap the days and slots of two meals
+// Body: { mealId, otherMealId }
+exports.swapMeals = async (req, res) => {
+  try {
+    const plan = await findPlan(req);
+    if (!plan) {
+      return res.status(404).json({ message: 'Meal plan not found' });
+    }
+
+    const meal = plan.meals.id(req.body.mealId);
+    const other = plan.meals.id(req.body.otherMealId);
+    if (!meal || !other) {
+      return res.status(404).json({ message: 'Meal not found' });
+    }
+
+    [meal.date, other.date] = [other.date, meal.date];
+    [meal.slot, other.slot] = [other.slot, meal.slot];
+    sortMeals(plan);
+    await plan.save();
+
+    res.json({ message: 'Meals swapped', plan });
+  } catch (err) {
+    console.error('Swap meals error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Delete a meal plan
+exports.deleteMealPlan = async (req, res) => {
+  try {
+    const plan = await findPlan(req);
+    if (!plan) {
+      return res.status(404).json({ message: 'Meal plan not found' });
+    }
+
+    await plan.deleteOne();
+    res.json({ message: 'Meal plan deleted' });
+  } catch (err) {
+    console.error('Delete meal plan error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
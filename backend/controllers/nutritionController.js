@@ -0,0 +1,149 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const NutritionLog = require('../models/NutritionLog');
+const {
+  emptyNutrients,
+  addNutrients,
+  lookupNutrition,
+  getDailyTargets,
+  compareIntake
+} = require('../services/nutrition');
+const { DATE_PATTERN, toLocalDate, shiftDate } = require('../services/localDates');
+
+const WEEK_DAYS = 7;
+
+// Log entries for the local days in `days`, grouped by day
+const getEntriesByDay = async (userId, days, timeZone) => {
+  // Pad the window by a day either side to cover any UTC offset
+  const entries = await NutritionLog.find({
+    userId,
+    consumedAt: {
+      $gte: new Date(`${shiftDate(days[0], -1)}T00:00:00Z`),
+      $lt: new Date(`${shiftDate(days[days.length - 1], 2)}T00:00:00Z`)
+    }
+  }).sort({ consumedAt: -1 });
+
+  const byDay = Object.fromEntries(days.map(day => [day, []]));
+  entries.forEach(entry => {
+    const day = toLocalDate(entry.consumedAt, timeZone);
+    if (byDay[day]) byDay[day].push(entry);
+  });
+  return byDay;
+};
+
+const sumEntries = (entries) =>
+  entries.reduce((totals, entry) => addNutrients(totals, entry.nutrients), emptyNutrients());
+
+// Get today's and the past week's intake compared with the user's targets
+// Query: date (YYYY-MM-DD, defaults to today in the user's timezone)
+exports.getNutritionSummary = async (req, res) => {
+  try {
+    const user = await User.findOne({ userId: req.user.userId }).select('preferences timezone');
+    const timeZone = user?.timezone || 'UTC';
+    const goals = user?.preferences?.healthGoals || [];
+    const targets = getDailyTargets(goals);
+
+    const { date } = req.query;
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ message: 'date must be YYYY-MM-DD' });
+    }
+    const today = date || toLocalDate(new Date(), timeZone);
+    const days = Array.from({ length: WEEK_DAYS }, (_, i) => shiftDate(today, i - (WEEK_DAYS - 1)));
+
+    const byDay = await getEntriesByDay(req.user.userId, days, timeZone);
+    const daily = days.map(day => ({ date: day, totals: sumEntries(byDay[day]), entries: byDay[day].length }));
+    const todayTotals = daily[daily.length - 1].totals;
+    const weekTotals = daily.reduce((totals, day) => addNutrients(totals, day.totals), emptyNutrients());
+
+    res.json({
+      goals,
+      targets,
+      today: {
+        date: today,
+        totals: todayTotals,
+        entries: byDay[today].length,
+        comparison: compareIntake(todayTotals, targets)
+      },
+      week: {
+        from: days[0],
+        to: today,
+        totals: weekTotals,
+        dailyAverage: Object.fromEntries(
+          Object.entries(weekTotals).map(([nutrient, value]) => [nutrient, Math.round(value / WEEK_DAYS * 10) / 10])
+        ),
+        comparison: compareIntake(weekTotals, targets, WEEK_DAYS),
+        days: daily
+      }
+    });
+  } catch (err) {
+    console.error('Get nutrition summary error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get the items the user consumed on a day
+// Query: date (YYYY-MM-DD, defaults to today in the user's timezone)
+exports.getNutritionLog = async (req, res) => {
+  try {
+    const user = await User.findOne({ userId: req.user.userId }).select('timezone');
+    const timeZone = user?.timezone || 'UTC';
+
+    const { date } = req.query;
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ message: 'date must be YYYY-MM-DD' });
+    }
+    const day = date || toLocalDate(new Date(), timeZone);
+
+    const byDay = await getEntriesByDay(req.user.userId, [day], timeZone);
+
+    res.json({
+      date: day,
+      entries: byDay[day],
+      totals: sumEntries(byDay[day])
+    });
+  } catch (err) {
+    console.error('Get nutrition log error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Remove a log entry, e.g. when the item was eaten by someone else
+exports.deleteNutritionLog = async (req, res) => {
+  try {
+    const { logId } = req.params;
+    if (!mongoose.isValidObjectId(logId)) {
+      return res.status(404).json({ message: 'Log entry not found' });
+    }
+
+    const entry = await NutritionLog.findOneAndDelete({ _id: logId, userId: req.user.userId });
+    if (!entry) {
+      return res.status(404).json({ message: 'Log entry not found' });
+    }
+
+    res.json({ message: 'Log entry deleted' });
+  } catch (err) {
+    console.error('Delete nutrition log error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Look up nutrients per 100 g for an item name
+// Query: name
+exports.getNutritionLookup = async (req, res) => {
+  try {
+    const { name } = req.query;
+    if (!name) {
+      return res.status(400).json({ message: 'name is required' });
+    }
+
+    const match = lookupNutrition(name);
+    if (!match) {
+      return res.status(404).json({ message: 'No nutrition data for this item' });
+    }
+
+    res.json(match);
+  } catch (err) {
+    console.error('Nutrition lookup error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
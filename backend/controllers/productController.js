@@ -0,0 +1,94 @@
+const Item = require('../models/Item');
+const { normalizeBarcode, lookupBarcode, saveCorrection } = require('../services/productCatalog');
+
+const ITEM_CATEGORIES = Item.schema.path('category').enumValues;
+const ITEM_UNITS = Item.schema.path('quantity.unit').enumValues;
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber'];
+
+// Product as the app uses it to prefill an item
+const formatProduct = (product) => ({
+  barcode: product.barcode,
+  name: product.name,
+  brand: product.brand,
+  category: product.category,
+  defaultQuantity: product.defaultQuantity,
+  nutritionalInfo: product.nutritionalInfo,
+  source: product.source
+});
+
+// Look up a product by EAN/UPC barcode
+exports.getProductByBarcode = async (req, res) => {
+  try {
+    const barcode = normalizeBarcode(req.params.code);
+    if (!barcode) {
+      return res.status(400).json({ message: 'Invalid barcode' });
+    }
+
+    const product = await lookupBarcode(barcode);
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found', barcode });
+    }
+
+    res.json({ product: formatProduct(product) });
+  } catch (err) {
+    console.error('Get product error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Save a user's correction to a product, or add a product the catalog lacks
+// Body: { name, brand, category, defaultQuantity: { amount, unit }, nutritionalInfo }
+exports.updateProduct = async (req, res) => {
+  try {
+    const barcode = normalizeBarcode(req.params.code);
+    if (!barcode) {
+      return res.status(400).json({ message: 'Invalid barcode' });
+    }
+
+    const { name, brand, category, defaultQuantity, nutritionalInfo } = req.body;
+    const errors = [];
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      errors.push('name must be a non-empty string');
+    }
+    if (brand != null && typeof brand !== 'string') {
+      errors.push('brand must be a string');
+    }
+    if (category !== undefined && !ITEM_CATEGORIES.includes(category)) {
+      errors.push(`category must be one of: ${ITEM_CATEGORIES.join(', ')}`);
+    }
+    if (defaultQuantity && (!ITEM_UNITS.includes(defaultQuantity.unit) || !(defaultQuantity.amount > 0))) {
+      errors.push('defaultQuantity needs a positive amount and a valid unit');
+    }
+    Object.entries(nutritionalInfo || {}).forEach(([key, value]) => {
+      if (!NUTRIENTS.includes(key) || typeof value !== 'number' || value < 0) {
+        errors.push(`Invalid nutritionalInfo.${key}`);
+      }
+    });
+
+    const existing = await lookupBarcode(barcode);
+    if (!existing && !name) {
+      errors.push('name is required for a new product');
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid product', errors });
+    }
+
+    const product = await saveCorrection(barcode, {
+      name: name?.trim(),
+      brand: brand?.trim(),
+      category,
+      defaultQuantity,
+      nutritionalInfo
+    }, req.user.userId);
+
+    res.json({
+      message: existing ? 'Product updated successfully' : 'Product added successfully',
+      product: formatProduct(product)
+    });
+  } catch (err) {
+    console.error('Update product error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -2,10 +2,119 @@
 const GeminiService = require('../services/geminiService');
 const Item = require('../models/Item');
 const User = require('../models/User');
+const ChatSession = require('../models/ChatSession');
+const ItemEvent = require('../models/ItemEvent');
+const NutritionLog = require('../models/NutritionLog');
+const Household = require('../models/Household');
+const { convert, getDimension, normalizeUnit } = require('../services/unitConverter');
+const { resolveExpirySettings } = require('../services/expirySettings');
+const { formatRecipeMarkdown } = require('../services/recipeSchema');
+const { StructuredOutputError } = require('../services/structuredOutput');
+const { findMatches, findBestMatch, matchIngredients } = require('../services/ingredientMatcher');
+const { getDietaryLabels } = require('../services/dietaryRules');
+const {
+  getRecommendationFingerprint,
+  getCachedRecommendations,
+  cacheRecommendations,
+  invalidateRecommendations
+} = require('../services/recommendationCache');
+
+const geminiService = GeminiService.getShared();
+
+// Number of most recent chat messages passed to the model verbatim;
+// anything older is folded into the session summary.
+const MAX_HISTORY_MESSAGES = 12;
+
+// Build the conversation history for the prompt, summarizing older turns
+// once the session grows past MAX_HISTORY_MESSAGES.
+const buildConversationHistory = async (session) => {
+  const unsummarized = session.messages.length - session.summarizedCount;
+
+  if (unsummarized > MAX_HISTORY_MESSAGES) {
+    const cutoff = session.messages.length - MAX_HISTORY_MESSAGES;
+    const toSummarize = session.messages.slice(session.summarizedCount, cutoff);
+
+    try {
+      session.summary = await geminiService.summarizeConversation(toSummarize, session.summary);
+      session.summarizedCount = cutoff;
+    } catch (error) {
+      // Fall back to the recent window only; summarizing will be retried next turn
+      console.error('Summarize chat session error:', error);
+    }
+  }
+
+  const recentMessages = session.messages.slice(
+    Math.max(session.summarizedCount, session.messages.length - MAX_HISTORY_MESSAGES)
+  );
+  const recentText = geminiService.formatConversationHistory(recentMessages);
+
+  if (!session.summary) {
+    return recentText;
+  }
+  return `Summary of earlier conversation:\n${session.summary}\n\nRecent messages:\n${recentText}`;
+};
+
+// The model couldn't produce usable JSON; `reason` says how it failed
+const sendStructuredOutputError = (res, error, message) => res.status(502).json({
+  message,
+  reason: error.reason,
+  errors: error.errors
+});
+
+const createSessionId = (userId) => `${userId}_${Date.now()}`;
 
-const geminiService = new GeminiService();
+// Resume the user's session, or start a new one when there's no sessionId.
+// Null when the session doesn't exist.
+const findOrStartSession = async (userId, sessionId, recipeName) => {
+  if (!sessionId) {
+    return new ChatSession({ sessionId: createSessionId(userId), userId, recipeName });
+  }
+  return ChatSession.findOne({ sessionId, userId });
+};
 
-// Get recipe recommendations based on user's inventory
+// Write one Server-Sent Event
+const sendEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Mark each ingredient of structured instructions with the pantry item that
+// covers it (null when it needs buying)
+const attachInventoryMatches = (recipe, inventory) => ({
+  ...recipe,
+  ingredients: recipe.ingredients.map(ingredient => {
+    const match = findBestMatch(ingredient.name, inventory);
+    return {
+      ...ingredient,
+      inventoryMatch: match
+        ? {
+          itemId: match.item._id,
+          name: match.item.name,
+          amount: match.item.quantity.amount,
+          unit: match.item.quantity.unit,
+          confidence: match.confidence
+        }
+        : null
+    };
+  })
+});
+
+// Portion assumed per serving when a recipe ingredient has no quantity,
+// expressed in the dimension's base unit (g, ml, count)
+const DEFAULT_PORTION_PER_SERVING = {
+  mass: 100,
+  volume: 50,
+  count: 1
+};
+const BASE_UNIT = { mass: 'g', volume: 'ml' };
+
+// Amounts this close to zero count as used up (avoids float leftovers)
+const EMPTY_EPSILON = 0.001;
+
+const roundAmount = (amount) => Math.round(amount * 1000) / 1000;
+
+// Get recipe recommendations based on user's inventory. Served from the
+// cache while the inventory and preferences are unchanged.
+// Query: refresh=true to generate new ones anyway
 exports.getRecipeRecommendations = async (req, res) => {
 
   console.log('🔥 /recommendations route HIT');
@@ -14,9 +123,9 @@ exports.getRecipeRecommendations = async (req, res) => {
     const userId = req.user.userId;
     console.log('🔍 Fetching recommendations for user:', userId);
 
-    // Fetch user's inventory
-    const inventory = await Item.find({ 
-      userId, 
+    // Fetch the user's (or their household's) inventory
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
       isUsed: false 
     }).sort({ expirationDate: 1 });
 
@@ -50,60 +159,77 @@ exports.getRecipeRecommendations = async (req, res) => {
 
     // Get user preferences
     const user = await User.findOne({ userId });
-    const userPreferences = user?.preferences || {};
+    const userPreferences = { ...(user?.toObject().preferences || {}) };
+
+    // A shared pantry feeds the whole household unless a size was set
+    if (req.user.householdId && !userPreferences.householdSize) {
+      const household = await Household.findOne({ householdId: req.user.householdId }).select('members');
+      userPreferences.householdSize = household?.members.length || undefined;
+    }
     console.log('👤 User preferences:', userPreferences);
 
+    const expirySettings = resolveExpirySettings(user);
+    const fingerprint = getRecommendationFingerprint(inventory, userPreferences, expirySettings);
+
+    if (req.query.refresh !== 'true') {
+      const cached = await getCachedRecommendations(userId, fingerprint);
+      if (cached) {
+        console.log('📦 Serving cached recommendations:', cached.recommendations.length);
+        return res.json({
+          recommendations: cached.recommendations,
+          totalInventoryItems: cached.totalInventoryItems,
+          cached: true,
+          generatedAt: cached.createdAt
+        });
+      }
+    }
+
     // Generate recipe recommendations using Gemini
     console.log('🤖 Calling Gemini service...');
     const recommendations = await geminiService.generateRecipeRecommendations(
       groupedInventory, 
-      userPreferences
+      userPreferences,
+      expirySettings,
+      { userId }
     );
 
-    console.log('📝 Raw recommendations received:', recommendations?.length || 0);
-
-    // Check if recommendations is valid
-    if (!recommendations || !Array.isArray(recommendations) || recommendations.length === 0) {
-      console.log('⚠️ No valid recommendations received from Gemini');
-      return res.json({ 
-        recommendations: [],
-        message: 'Unable to generate recipe recommendations at the moment. Please try again later.',
-        totalInventoryItems: inventory.length,
-        debug: {
-          inventoryCount: inventory.length,
-          hasGeminiResponse: !!recommendations,
-          isArray: Array.isArray(recommendations),
-          recommendationCount: recommendations?.length || 0
-        }
-      });
-    }
+    console.log('📝 Recommendations received:', recommendations.length);
 
     // Add available ingredients info to each recipe
-    const enhancedRecommendations = recommendations.map(recipe => {
-      const availableIngredients = recipe.mainIngredients.filter(ingredient => {
-        return inventory.some(item => 
-          item.name.toLowerCase().includes(ingredient.toLowerCase()) ||
-          ingredient.toLowerCase().includes(item.name.toLowerCase())
-        );
-      });
+    const enhancedRecommendations = await Promise.all(recommendations.map(async recipe => {
+      const matches = await matchIngredients(recipe.mainIngredients, inventory, { llm: geminiService.llm });
+      const available = matches.filter(match => match.item);
 
       return {
         ...recipe,
-        availableIngredients,
-        missingIngredients: recipe.mainIngredients.filter(ingredient => 
-          !availableIngredients.includes(ingredient)
-        )
+        availableIngredients: available.map(match => match.name),
+        missingIngredients: matches.filter(match => !match.item).map(match => match.name),
+        ingredientMatches: available.map(match => ({
+          ingredient: match.name,
+          itemName: match.item.name,
+          confidence: match.confidence,
+          method: match.method
+        })),
+        dietaryLabels: getDietaryLabels(recipe)
       };
-    });
+    }));
 
     console.log('✅ Enhanced recommendations:', enhancedRecommendations.length);
 
+    const entry = await cacheRecommendations(req.user, fingerprint, enhancedRecommendations, inventory.length);
+
     res.json({ 
       recommendations: enhancedRecommendations,
-      totalInventoryItems: inventory.length 
+      totalInventoryItems: inventory.length,
+      cached: false,
+      generatedAt: entry.createdAt
     });
 
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      console.log('⚠️ No valid recommendations received from Gemini:', error.reason);
+      return sendStructuredOutputError(res, error, 'Unable to generate recipe recommendations at the moment. Please try again later.');
+    }
     console.error('💥 Get recipe recommendations error:', error);
     console.error('📍 Error stack:', error.stack);
     
@@ -129,27 +255,44 @@ exports.startRecipeChat = async (req, res) => {
     }
 
     // Get user's current inventory
-    const inventory = await Item.find({ 
-      userId, 
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
       isUsed: false 
     });
 
     const availableIngredients = inventory.map(item => item.name);
 
     // Generate initial recipe instructions
-    const response = await geminiService.generateRecipeInstructions(
+    const instructions = await geminiService.generateRecipeInstructions(
       recipeName,
-      availableIngredients
+      availableIngredients,
+      '',
+      { userId }
     );
 
+    const recipe = attachInventoryMatches(instructions, inventory);
+    // History keeps the Markdown version so follow-up turns can quote it
+    const response = formatRecipeMarkdown(recipe);
+
+    const session = await ChatSession.create({
+      sessionId: createSessionId(userId),
+      userId,
+      recipeName,
+      messages: [{ role: 'assistant', content: response }]
+    });
+
     res.json({
       recipeName,
+      recipe,
       response,
       availableIngredients,
-      sessionId: `${userId}_${Date.now()}` // Simple session ID
+      sessionId: session.sessionId
     });
 
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return sendStructuredOutputError(res, error, 'Could not generate recipe instructions. Please try again.');
+    }
     console.error('Start recipe chat error:', error);
     res.status(500).json({ 
       message: 'Failed to start recipe chat',
@@ -168,23 +311,38 @@ exports.handleChatMessage = async (req, res) => {
       return res.status(400).json({ message: 'Message is required' });
     }
 
+    // Resume the existing session or start a new one
+    const session = await findOrStartSession(userId, sessionId, recipeName);
+    if (!session) {
+      return res.status(404).json({ message: 'Chat session not found' });
+    }
+
     // Get user's current inventory
-    const inventory = await Item.find({ 
-      userId, 
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
       isUsed: false 
     });
 
     const availableIngredients = inventory.map(item => item.name);
 
+    const conversationHistory = await buildConversationHistory(session);
+
     // Generate Markdown response
     const markdownReply = await geminiService.handleChatMessage(message, {
-      currentRecipe: recipeName,
+      currentRecipe: session.recipeName || recipeName,
       availableIngredients,
-      conversationHistory: 'Continuing conversation...'
+      conversationHistory,
+      userId
     });
 
+    session.messages.push(
+      { role: 'user', content: message },
+      { role: 'assistant', content: markdownReply }
+    );
+    await session.save();
+
     // ✅ Send it as `reply` (Markdown format preserved)
-    return res.status(200).json({ reply: markdownReply });
+    return res.status(200).json({ reply: markdownReply, sessionId: session.sessionId });
 
   } catch (error) {
     console.error('Handle chat message error:', error);
@@ -195,39 +353,346 @@ exports.handleChatMessage = async (req, res) => {
   }
 };
 
+// Same as handleChatMessage, but the reply is streamed as Server-Sent Events:
+//   event: start  data: { sessionId }
+//   event: token  data: { text }             (the next piece of the reply)
+//   event: done   data: { reply, sessionId }
+//   event: error  data: { message }
+// Closing the connection cancels generation; the reply so far is still saved
+// to the session, since that's what the user saw.
+exports.streamChatMessage = async (req, res) => {
+  const abortController = new AbortController();
+  const cancelled = () => abortController.signal.aborted;
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  try {
+    const userId = req.user.userId;
+    const { message, recipeName, sessionId } = req.body;
+
+    if (!message) {
+      return res.status(400).json({ message: 'Message is required' });
+    }
+
+    const session = await findOrStartSession(userId, sessionId, recipeName);
+    if (!session) {
+      return res.status(404).json({ message: 'Chat session not found' });
+    }
+
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
+      isUsed: false
+    });
+
+    const conversationHistory = await buildConversationHistory(session);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    sendEvent(res, 'start', { sessionId: session.sessionId });
+
+    let reply = '';
+    try {
+      const stream = geminiService.streamChatMessage(message, {
+        currentRecipe: session.recipeName || recipeName,
+        availableIngredients: inventory.map(item => item.name),
+        conversationHistory,
+        userId
+      }, { signal: abortController.signal });
+
+      for await (const text of stream) {
+        if (cancelled()) break;
+        reply += text;
+        sendEvent(res, 'token', { text });
+      }
+    } catch (error) {
+      if (!cancelled()) throw error;
+    }
+
+    if (reply) {
+      session.messages.push(
+        { role: 'user', content: message },
+        { role: 'assistant', content: reply }
+      );
+      await session.save();
+    }
+
+    if (!cancelled()) {
+      sendEvent(res, 'done', { reply, sessionId: session.sessionId });
+      res.end();
+    }
+
+  } catch (error) {
+    console.error('Stream chat message error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        message: 'Failed to process chat message',
+        error: error.message
+      });
+    }
+    if (!cancelled()) {
+      sendEvent(res, 'error', { message: 'Failed to process chat message' });
+      res.end();
+    }
+  }
+};
+
 
 // Get detailed recipe information
 exports.getRecipeDetails = async (req, res) => {
   try {
-    const userId = req.user.userId;
     const { recipeName } = req.params;
 
     // Get user's current inventory
-    const inventory = await Item.find({ 
-      userId, 
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
       isUsed: false 
     });
 
     const availableIngredients = inventory.map(item => item.name);
 
     // Generate detailed recipe information
-    const response = await geminiService.generateRecipeInstructions(
+    const instructions = await geminiService.generateRecipeInstructions(
       recipeName,
       availableIngredients,
-      `Please provide complete details for making ${recipeName}`
+      `Please provide complete details for making ${recipeName}`,
+      { userId: req.user.userId }
     );
 
+    const recipe = attachInventoryMatches(instructions, inventory);
+
     res.json({
       recipeName,
-      details: response,
+      recipe,
+      details: formatRecipeMarkdown(recipe),
       availableIngredients
     });
 
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return sendStructuredOutputError(res, error, 'Could not generate recipe details. Please try again.');
+    }
     console.error('Get recipe details error:', error);
     res.status(500).json({ 
       message: 'Failed to get recipe details',
       error: error.message 
     });
   }
-};
\ No newline at end of file
+};
+
+// List the user's past chat sessions, most recent first
+exports.getChatSessions = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    const sessions = await ChatSession.find({ userId })
+      .sort({ updatedAt: -1 })
+      .select('sessionId recipeName messages createdAt updatedAt');
+
+    res.json({
+      sessions: sessions.map(session => {
+        const lastMessage = session.messages[session.messages.length - 1];
+        return {
+          sessionId: session.sessionId,
+          recipeName: session.recipeName,
+          messageCount: session.messages.length,
+          lastMessage: lastMessage ? lastMessage.content.slice(0, 120) : '',
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Get chat sessions error:', error);
+    res.status(500).json({ message: 'Failed to get chat sessions' });
+  }
+};
+
+// Get a single chat session with its full message history
+exports.getChatSession = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { sessionId } = req.params;
+
+    const session = await ChatSession.findOne({ sessionId, userId });
+
+    if (!session) {
+      return res.status(404).json({ message: 'Chat session not found' });
+    }
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Get chat session error:', error);
+    res.status(500).json({ message: 'Failed to get chat session' });
+  }
+};
+
+// Delete a chat session
+exports.deleteChatSession = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { sessionId } = req.params;
+
+    const session = await ChatSession.findOneAndDelete({ sessionId, userId });
+
+    if (!session) {
+      return res.status(404).json({ message: 'Chat session not found' });
+    }
+
+    res.json({ message: 'Chat session deleted successfully' });
+  } catch (error) {
+    console.error('Delete chat session error:', error);
+    res.status(500).json({ message: 'Failed to delete chat session' });
+  }
+};
+
+// Cook a recipe: deduct its ingredients from the user's inventory.
+// Body: { recipeName, servings, recipeServings, ingredients, dryRun }
+// where ingredients are strings or { name, amount, unit }. With dryRun the
+// deductions are computed and returned without saving anything.
+exports.cookRecipe = async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { recipeName, ingredients, dryRun = false } = req.body;
+    const servings = Number(req.body.servings) || 1;
+    const recipeServings = Number(req.body.recipeServings) || servings;
+
+    if (!Array.isArray(ingredients) || ingredients.length === 0) {
+      return res.status(400).json({ message: 'Recipe ingredients are required' });
+    }
+
+    const scale = servings / recipeServings;
+
+    // Soonest-expiring items are used first
+    const inventory = await Item.find({
+      ...Item.scopeFor(req.user),
+      isUsed: false
+    }).sort({ expirationDate: 1 });
+
+    const consumed = [];
+    const skipped = [];
+    const touchedItems = new Set();
+
+    for (const rawIngredient of ingredients) {
+      const ingredient = typeof rawIngredient === 'string'
+        ? { name: rawIngredient }
+        : rawIngredient;
+
+      if (!ingredient?.name) continue;
+
+      // Closest matches first, soonest-expiring first among equally close ones
+      const matches = findMatches(
+        ingredient.name,
+        inventory.filter(item => item.quantity.amount > 0)
+      ).map(match => match.item);
+
+      if (matches.length === 0) {
+        skipped.push({ ingredient: ingredient.name, reason: 'not_in_inventory' });
+        continue;
+      }
+
+      // Work out how much is needed, in the ingredient's own unit
+      let neededAmount = Number(ingredient.amount) * scale;
+      let neededUnit = normalizeUnit(ingredient.unit);
+      let estimated = false;
+
+      if (!ingredient.amount || Number.isNaN(neededAmount)) {
+        const dimension = getDimension(matches[0].quantity.unit);
+        neededAmount = DEFAULT_PORTION_PER_SERVING[dimension] * servings;
+        neededUnit = BASE_UNIT[dimension] || matches[0].quantity.unit;
+        estimated = true;
+      } else if (!neededUnit) {
+        // Unknown units ("cloves", "handful") are treated as a count of pieces
+        neededUnit = 'pieces';
+      }
+
+      let remainingNeed = neededAmount;
+
+      for (const item of matches) {
+        if (remainingNeed <= EMPTY_EPSILON) break;
+
+        const itemUnit = item.quantity.unit;
+        const conversionOptions = { ingredient: item.name };
+        const needInItemUnit = convert(remainingNeed, neededUnit, itemUnit, conversionOptions)
+          ?? (getDimension(itemUnit) === 'count' && getDimension(neededUnit) === 'count'
+            ? remainingNeed
+            : null);
+
+        if (needInItemUnit === null) continue;
+
+        const used = Math.min(item.quantity.amount, needInItemUnit);
+        const remaining = roundAmount(item.quantity.amount - used);
+
+        item.quantity.amount = remaining <= EMPTY_EPSILON ? 0 : remaining;
+        if (item.quantity.amount === 0) {
+          item.isUsed = true;
+          item.usedDate = new Date();
+          item.consumedBy = userId;
+        }
+        touchedItems.add(item);
+
+        consumed.push({
+          itemId: item._id,
+          name: item.name,
+          ingredient: ingredient.name,
+          amountUsed: roundAmount(used),
+          unit: itemUnit,
+          remaining: item.quantity.amount,
+          isUsed: item.isUsed,
+          estimated
+        });
+
+        const usedInNeededUnit = convert(used, itemUnit, neededUnit, conversionOptions) ?? used;
+        remainingNeed -= usedInNeededUnit;
+      }
+
+      if (remainingNeed > EMPTY_EPSILON) {
+        const convertible = matches.some(item =>
+          getDimension(item.quantity.unit) === getDimension(neededUnit) ||
+          convert(1, neededUnit, item.quantity.unit, { ingredient: item.name }) !== null
+        );
+        skipped.push({
+          ingredient: ingredient.name,
+          reason: convertible ? 'insufficient_quantity' : 'unit_mismatch',
+          missingAmount: roundAmount(remainingNeed),
+          unit: neededUnit
+        });
+      }
+    }
+
+    if (!dryRun) {
+      await Promise.all([...touchedItems].map(item => item.save()));
+      await invalidateRecommendations(req.user);
+      await Promise.all(consumed.map(async entry => {
+        const item = inventory.find(i => i._id.equals(entry.itemId));
+        const event = await ItemEvent.record(
+          item,
+          entry.isUsed ? 'consumed' : 'partially-consumed',
+          { amount: entry.amountUsed, unit: entry.unit },
+          userId
+        );
+        return NutritionLog.record(item, event);
+      }));
+    }
+
+    res.json({
+      message: dryRun ? 'Cooking preview' : 'Recipe cooked, inventory updated',
+      recipeName,
+      servings,
+      dryRun,
+      consumed,
+      skipped
+    });
+  } catch (error) {
+    console.error('Cook recipe error:', error);
+    res.status(500).json({
+      message: 'Failed to cook recipe',
+      error: error.message
+    });
+  }
+};
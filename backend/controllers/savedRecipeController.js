@@ -0,0 +1,219 @@
+// /backend/controllers/savedRecipeController.js
+const mongoose = require('mongoose');
+const GeminiService = require('../services/geminiService');
+const Recipe = require('../models/Recipe');
+const { StructuredOutputError } = require('../services/structuredOutput');
+
+const geminiService = GeminiService.getShared();
+
+const MAX_TAGS = 20;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sendStructuredOutputError = (res, error, message) => res.status(502).json({
+  message,
+  reason: error.reason,
+  errors: error.errors
+});
+
+const findRecipe = (req) => mongoose.isValidObjectId(req.params.recipeId)
+  ? Recipe.findOne({ _id: req.params.recipeId, userId: req.user.userId })
+  : null;
+
+// Ingredients may be plain names ("2 eggs" from a recommendation) or
+// { name, amount, unit, notes } objects
+const normalizeIngredients = (ingredients = []) => ingredients
+  .map(ingredient => (typeof ingredient === 'string' ? { name: ingredient } : ingredient))
+  .filter(ingredient => ingredient && typeof ingredient.name === 'string' && ingredient.name.trim())
+  .map(({ name, amount, unit, notes }) => ({
+    name: name.trim(),
+    amount: typeof amount === 'number' && amount >= 0 ? amount : undefined,
+    unit: unit || undefined,
+    notes: notes || undefined
+  }));
+
+const normalizeTags = (tags = []) => [...new Set(
+  tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean)
+)].slice(0, MAX_TAGS);
+
+// List saved recipes, favorites first
+// Query: q (name, ingredient, cuisine or tag), tag, favorite=true
+exports.getSavedRecipes = async (req, res) => {
+  try {
+    const query = { userId: req.user.userId };
+    const { q, tag, favorite } = req.query;
+
+    if (favorite === 'true') {
+      query.favorite = true;
+    }
+    if (tag) {
+      query.tags = String(tag).toLowerCase();
+    }
+    if (q && String(q).trim()) {
+      const pattern = new RegExp(escapeRegex(String(q).trim()), 'i');
+      query.$or = [
+        { name: pattern },
+        { description: pattern },
+        { cuisine: pattern },
+        { tags: pattern },
+        { 'ingredients.name': pattern }
+      ];
+    }
+
+    const recipes = await Recipe.find(query).sort({ favorite: -1, updatedAt: -1 });
+    const tags = await Recipe.distinct('tags', { userId: req.user.userId });
+
+    res.json({ recipes, tags: tags.sort() });
+  } catch (err) {
+    console.error('Get saved recipes error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get one saved recipe
+exports.getSavedRecipe = async (req, res) => {
+  try {
+    const recipe = await findRecipe(req);
+    if (!recipe) {
+      return res.status(404).json({ message: 'Recipe not found' });
+    }
+
+    res.json({ recipe });
+  } catch (err) {
+    console.error('Get saved recipe error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Save a recipe. Recommendations only carry ingredient names, so when no
+// steps are given the full recipe is generated once here and stored; when
+// that fails nothing is saved.
+// Body: { name, description?, ingredients?, steps?, cuisine?, difficulty?,
+//         cookingTime?, servings?, healthScore?, tags?, favorite?, source? }
+exports.saveRecipe = async (req, res) => {
+  try {
+    const { name, description, cuisine, difficulty, cookingTime, servings, healthScore, source } = req.body;
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Recipe name is required' });
+    }
+    if (source !== undefined && !Recipe.SOURCES.includes(source)) {
+      return res.status(400).json({ message: `Invalid source. Use one of: ${Recipe.SOURCES.join(', ')}` });
+    }
+    const listField = ['ingredients', 'steps', 'tags'].find(field =>
+      req.body[field] !== undefined && !Array.isArray(req.body[field]));
+    if (listField) {
+      return res.status(400).json({ message: `${listField} must be a list` });
+    }
+
+    const existing = await Recipe.findOne({
+      userId: req.user.userId,
+      name: new RegExp(`^${escapeRegex(String(name).trim())}$`, 'i')
+    });
+    if (existing) {
+      return res.json({ message: 'Recipe already saved', recipe: existing });
+    }
+
+    let ingredients = normalizeIngredients(req.body.ingredients);
+    let steps = (req.body.steps || []).map(String).filter(step => step.trim());
+
+    if (steps.length === 0) {
+      const details = await geminiService.generateRecipeDetails({
+        name,
+        description,
+        mainIngredients: ingredients.map(ingredient => ingredient.name),
+        servings
+      });
+      ingredients = normalizeIngredients(details.ingredients);
+      steps = details.steps;
+    }
+
+    const recipe = await Recipe.create({
+      userId: req.user.userId,
+      name: String(name).trim(),
+      description,
+      ingredients,
+      steps,
+      cuisine,
+      difficulty,
+      cookingTime,
+      servings,
+      healthScore,
+      tags: normalizeTags(req.body.tags),
+      favorite: Boolean(req.body.favorite),
+      source
+    });
+
+    res.status(201).json({ message: 'Recipe saved', recipe });
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      return sendStructuredOutputError(res, err, 'Unable to generate the recipe steps at the moment. Please try again later.');
+    }
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Save recipe error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Mark or unmark a recipe as a favorite
+// Body: { favorite }
+exports.setFavorite = async (req, res) => {
+  try {
+    if (typeof req.body.favorite !== 'boolean') {
+      return res.status(400).json({ message: 'favorite must be true or false' });
+    }
+
+    const recipe = await findRecipe(req);
+    if (!recipe) {
+      return res.status(404).json({ message: 'Recipe not found' });
+    }
+
+    recipe.favorite = req.body.favorite;
+    await recipe.save();
+
+    res.json({ message: recipe.favorite ? 'Added to favorites' : 'Removed from favorites', recipe });
+  } catch (err) {
+    console.error('Set favorite error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Replace a recipe's tags
+// Body: { tags: [String] }
+exports.setTags = async (req, res) => {
+  try {
+    if (!Array.isArray(req.body.tags)) {
+      return res.status(400).json({ message: 'tags must be a list' });
+    }
+
+    const recipe = await findRecipe(req);
+    if (!recipe) {
+      return res.status(404).json({ message: 'Recipe not found' });
+    }
+
+    recipe.tags = normalizeTags(req.body.tags);
+    await recipe.save();
+
+    res.json({ message: 'Tags updated', recipe });
+  } catch (err) {
+    console.error('Set tags error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Delete a saved recipe
+exports.deleteSavedRecipe = async (req, res) => {
+  try {
+    const recipe = await findRecipe(req);
+    if (!recipe) {
+      return res.status(404).json({ message: 'Recipe not found' });
+    }
+
+    await recipe.deleteOne();
+    res.json({ message: 'Recipe deleted' });
+  } catch (err) {
+    console.error('Delete saved recipe error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,289 @@
+// /backend/controllers/shoppingListController.js
+const mongoose = require('mongoose');
+const Item = require('../models/Item');
+const ItemEvent = require('../models/ItemEvent');
+const MealPlan = require('../models/MealPlan');
+const ShoppingListItem = require('../models/ShoppingListItem');
+const { getDefaultStorageLocation, suggestExpirationDate } = require('../services/shelfLife');
+const { resolveLocation } = require('../services/locations');
+const { fillNutrition } = require('../services/nutrition');
+const { guessCategory, isInPantry, partitionNew } = require('../services/shoppingList');
+const { invalidateRecommendations } = require('../services/recommendationCache');
+
+const CATEGORIES = Item.schema.path('category').enumValues;
+const UNITS = Item.schema.path('quantity.unit').enumValues;
+const MAX_NAME_LENGTH = ShoppingListItem.schema.path('name').options.maxlength;
+const MAX_NOTES_LENGTH = ShoppingListItem.schema.path('notes').options.maxlength;
+
+const findEntry = (req) => mongoose.isValidObjectId(req.params.entryId)
+  ? ShoppingListItem.findOne({ _id: req.params.entryId, ...Item.scopeFor(req.user) })
+  : null;
+
+// Validate name/category/quantity in a request body, returning error messages
+const validateEntry = ({ name, category, quantity, notes }, partial = false) => {
+  const errors = [];
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push('Name is required');
+    } else if (name.trim().length > MAX_NAME_LENGTH) {
+      errors.push(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+  if (notes != null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    errors.push(`Notes must be text of at most ${MAX_NOTES_LENGTH} characters`);
+  }
+  if (category !== undefined && !CATEGORIES.includes(category)) {
+    errors.push(`Invalid category. Use one of: ${CATEGORIES.join(', ')}`);
+  }
+  if (quantity != null) {
+    if (typeof quantity.amount !== 'number' || quantity.amount < 0) errors.push('Invalid quantity amount');
+    if (quantity.unit !== undefined && !UNITS.includes(quantity.unit)) errors.push('Invalid quantity unit');
+  }
+  return errors;
+};
+
+// Add entries for ingredient names, skipping ones already on the list or in the pantry
+const addIngredients = async (user, names, source, recipeName) => {
+  const [existing, inventory] = await Promise.all([
+    ShoppingListItem.find({ ...Item.scopeFor(user), checked: false }).select('name'),
+    Item.find({ ...Item.scopeFor(user), isUsed: false }).select('name')
+  ]);
+
+  const inPantry = names.filter(name => isInPantry(name, inventory));
+  const { added, skipped } = partitionNew(names.filter(name => !inPantry.includes(name)), existing);
+
+  const entries = await ShoppingListItem.insertMany(await Promise.all(added.map(async name => ({
+    userId: user.userId,
+    householdId: user.householdId,
+    name,
+    category: await guessCategory(user, name),
+    source,
+    recipeName
+  }))));
+
+  return { entries, skipped, inPantry };
+};
+
+// Get the shopping list, unchecked entries grouped by category
+// Query: showChecked (default true)
+exports.getShoppingList = async (req, res) => {
+  try {
+    const query = Item.scopeFor(req.user);
+    if (req.query.showChecked === 'false') {
+      query.checked = false;
+    }
+
+    const entries = await ShoppingListItem.find(query).sort({ category: 1, createdAt: 1 });
+    const unchecked = entries.filter(entry => !entry.checked);
+
+    const grouped = unchecked.reduce((acc, entry) => {
+      (acc[entry.category] = acc[entry.category] || []).push(entry);
+      return acc;
+    }, {});
+
+    res.json({
+      list: grouped,
+      checked: entries.filter(entry => entry.checked),
+      totalItems: unchecked.length
+    });
+  } catch (err) {
+    console.error('Get shopping list error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Add an entry by hand
+// Body: { name, category?, quantity?: { amount, unit }, notes? }
+exports.addShoppingItem = async (req, res) => {
+  try {
+    const errors = validateEntry(req.body);
+    if (errors.length) {
+      return res.status(400).json({ message: errors.join(', '), errors });
+    }
+
+    const { name, category, quantity, notes } = req.body;
+    const entry = await ShoppingListItem.create({
+      userId: req.user.userId,
+      householdId: req.user.householdId,
+      name: name.trim(),
+      category: category || await guessCategory(req.user, name),
+      quantity,
+      notes,
+      source: 'manual'
+    });
+
+    res.status(201).json({ message: 'Added to shopping list', entry });
+  } catch (err) {
+    console.error('Add shopping item error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Add a recipe's missing ingredients
+// Body: { recipeName, ingredients: [name] }
+exports.addFromRecipe = async (req, res) => {
+  try {
+    const { recipeName, ingredients } = req.body;
+    if (!Array.isArray(ingredients) || ingredients.length === 0) {
+      return res.status(400).json({ message: 'ingredients must be a non-empty list' });
+    }
+
+    const result = await addIngredients(req.user, ingredients.map(String), 'recipe', recipeName);
+
+    res.status(201).json({
+      message: `Added ${result.entries.length} item${result.entries.length === 1 ? '' : 's'} to shopping list`,
+      ...result
+    });
+  } catch (err) {
+    console.error('Add from recipe error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Add the ingredients a meal plan needs that the pantry doesn't have
+// Body: { planId }
+exports.addFromMealPlan = async (req, res) => {
+  try {
+    const { planId } = req.body;
+    const plan = mongoose.isValidObjectId(planId)
+      ? await MealPlan.findOne({ _id: planId, userId: req.user.userId })
+      : null;
+    if (!plan) {
+      return res.status(404).json({ message: 'Meal plan not found' });
+    }
+
+    const ingredients = plan.meals.flatMap(meal => meal.mainIngredients);
+    const result = await addIngredients(req.user, ingredients, 'meal-plan', `Week of ${plan.weekStart}`);
+
+    res.status(201).json({
+      message: `Added ${result.entries.length} item${result.entries.length === 1 ? '' : 's'} to shopping list`,
+      ...result
+    });
+  } catch (err) {
+    console.error('Add from meal plan error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Update an entry
+// Body: any of name, category, quantity, notes
+exports.updateShoppingItem = async (req, res) => {
+  try {
+    const errors = validateEntry(req.body, true);
+    if (errors.length) {
+      return res.status(400).json({ message: errors.join(', '), errors });
+    }
+
+    const entry = await findEntry(req);
+    if (!entry) {
+      return res.status(404).json({ message: 'Shopping list item not found' });
+    }
+
+    ['name', 'category', 'quantity', 'notes'].forEach(field => {
+      if (req.body[field] !== undefined) entry[field] = req.body[field];
+    });
+    await entry.save();
+
+    res.json({ message: 'Shopping list item updated', entry });
+  } catch (err) {
+    console.error('Update shopping item error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Check an entry off and add it to the inventory with a suggested expiry
+// Body (all optional): { quantity, location, expirationDate }
+exports.checkShoppingItem = async (req, res) => {
+  try {
+    const entry = await findEntry(req);
+    if (!entry) {
+      return res.status(404).json({ message: 'Shopping list item not found' });
+    }
+    if (entry.checked) {
+      return res.status(409).json({ message: 'Item is already checked off' });
+    }
+
+    const { quantity, location, expirationDate } = req.body;
+    const errors = validateEntry({ name: entry.name, quantity });
+    if (expirationDate && Number.isNaN(new Date(expirationDate).getTime())) {
+      errors.push('Invalid expirationDate');
+    }
+    if (errors.length) {
+      return res.status(400).json({ message: errors.join(', '), errors });
+    }
+
+    const itemData = {
+      userId: req.user.userId,
+      householdId: req.user.householdId,
+      name: entry.name,
+      category: entry.category,
+      quantity: { amount: entry.quantity.amount, unit: entry.quantity.unit, ...quantity },
+      notes: entry.notes
+    };
+
+    if (location) {
+      const resolved = await resolveLocation(req.user, location);
+      if (!resolved) {
+        return res.status(400).json({ message: 'Invalid location' });
+      }
+      Object.assign(itemData, resolved);
+    } else {
+      itemData.storageLocation = getDefaultStorageLocation(entry.name, entry.category);
+    }
+
+    const suggestion = suggestExpirationDate(itemData);
+    itemData.expirationDate = expirationDate ? new Date(expirationDate) : suggestion.expirationDate;
+    fillNutrition(itemData);
+
+    const item = await Item.create(itemData);
+    await ItemEvent.record(item, 'added');
+    await invalidateRecommendations(req.user);
+
+    entry.checked = true;
+    entry.checkedAt = new Date();
+    entry.checkedBy = req.user.userId;
+    entry.itemId = item._id;
+    await entry.save();
+
+    res.json({
+      message: `${item.name} added to your pantry`,
+      entry,
+      item,
+      suggestion: {
+        days: suggestion.days,
+        storageLocation: suggestion.storageLocation,
+        recommended: suggestion.recommended
+      }
+    });
+  } catch (err) {
+    console.error('Check shopping item error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Delete an entry
+exports.deleteShoppingItem = async (req, res) => {
+  try {
+    const entry = await findEntry(req);
+    if (!entry) {
+      return res.status(404).json({ message: 'Shopping list item not found' });
+    }
+
+    await entry.deleteOne();
+    res.json({ message: 'Shopping list item deleted' });
+  } catch (err) {
+    console.error('Delete shopping item error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Remove all checked-off entries
+exports.clearCheckedItems = async (req, res) => {
+  try {
+    const result = await ShoppingListItem.deleteMany({ ...Item.scopeFor(req.user), checked: true });
+    res.json({ message: 'Checked items cleared', deleted: result.deletedCount });
+  } catch (err) {
+    console.error('Clear checked items error:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
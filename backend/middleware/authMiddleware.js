@@ -16,7 +16,7 @@ const authMiddleware = async (req, res, next) => {
       return res.status(401).json({ message: 'Token is not valid' });
     }
 
-    req.user = { userId: user.userId, _id: user._id };
+    req.user = { userId: user.userId, _id: user._id, householdId: user.householdId || null };
     next();
   } catch (err) {
     console.error('Auth middleware error:', err);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+const chatMessageSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    required: true,
+    enum: ['user', 'assistant']
+  },
+  content: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const chatSessionSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  recipeName: {
+    type: String,
+    trim: true
+  },
+  messages: [chatMessageSchema],
+  // Condensed version of the turns that no longer fit in the prompt
+  summary: {
+    type: String,
+    default: ''
+  },
+  // Number of leading messages already folded into `summary`
+  summarizedCount: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+chatSessionSchema.index({ userId: 1, updatedAt: -1 });
+
+// Update the updatedAt field before saving
+chatSessionSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('ChatSession', chatSessionSchema);
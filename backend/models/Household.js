@@ -0,0 +1,77 @@
+const mongoose = require('mongoose');
+const { v4: uuidv4 } = require('uuid');
+
+const MEMBER_ROLES = ['owner', 'member'];
+
+const memberSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  role: {
+    type: String,
+    enum: MEMBER_ROLES,
+    default: 'member'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const householdSchema = new mongoose.Schema({
+  householdId: {
+    type: String,
+    unique: true,
+    default: () => uuidv4(),
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  members: {
+    type: [memberSchema],
+    default: []
+  },
+  // Current invite; regenerating it invalidates the previous code
+  invite: {
+    code: { type: String, default: null },
+    createdBy: { type: String, default: null },
+    expiresAt: { type: Date, default: null }
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+householdSchema.index({ 'members.userId': 1 });
+householdSchema.index(
+  { 'invite.code': 1 },
+  { unique: true, partialFilterExpression: { 'invite.code': { $type: 'string' } } }
+);
+
+// Update the updatedAt field before saving
+householdSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+householdSchema.methods.getMember = function(userId) {
+  return this.members.find(member => member.userId === userId) || null;
+};
+
+householdSchema.methods.isOwner = function(userId) {
+  return this.getMember(userId)?.role === 'owner';
+};
+
+householdSchema.statics.MEMBER_ROLES = MEMBER_ROLES;
+
+module.exports = mongoose.model('Household', householdSchema);
@@ -1,11 +1,20 @@
 const mongoose = require('mongoose');
+const { DEFAULT_EXPIRY_SETTINGS, isExpiringSoon } = require('../services/expirySettings');
+const { STORAGE_LOCATIONS } = require('../services/shelfLife');
 
 const itemSchema = new mongoose.Schema({
+  // Member who added the item
   userId: {
     type: String,
     required: true,
     index: true
   },
+  // Shared pantry the item belongs to; null for a personal pantry
+  householdId: {
+    type: String,
+    default: null,
+    index: true
+  },
   name: {
     type: String,
     required: true,
@@ -33,10 +42,27 @@ const itemSchema = new mongoose.Schema({
     type: Date,
     required: true
   },
+  // Kind of storage (drives shelf life); matches the custom location's kind
+  storageLocation: {
+    type: String,
+    enum: STORAGE_LOCATIONS
+  },
+  // User-defined location, e.g. "Garage freezer"; null for the built-in ones
+  locationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location',
+    default: null
+  },
+  // EAN/UPC barcode when the item was scanned from a product
+  barcode: {
+    type: String,
+    trim: true
+  },
   purchaseDate: {
     type: Date,
     default: Date.now
   },
+  // Per 100 g; filled from the nutrient database when not given
   nutritionalInfo: {
     calories: { type: Number, default: 0 },
     protein: { type: Number, default: 0 },
@@ -44,6 +70,12 @@ const itemSchema = new mongoose.Schema({
     fat: { type: Number, default: 0 },
     fiber: { type: Number, default: 0 }
   },
+  // Grams per piece, to work out nutrients for items counted in pieces
+  unitWeight: {
+    type: Number,
+    min: 0,
+    default: null
+  },
   isUsed: {
     type: Boolean,
     default: false
@@ -51,6 +83,10 @@ const itemSchema = new mongoose.Schema({
   usedDate: {
     type: Date
   },
+  // Member who used the item up
+  consumedBy: {
+    type: String
+  },
   notes: {
     type: String,
     maxlength: 500
@@ -69,6 +105,18 @@ const itemSchema = new mongoose.Schema({
 itemSchema.index({ userId: 1, isUsed: 1 });
 itemSchema.index({ userId: 1, expirationDate: 1 });
 itemSchema.index({ userId: 1, category: 1 });
+itemSchema.index({ householdId: 1, isUsed: 1 });
+itemSchema.index({ householdId: 1, expirationDate: 1 });
+itemSchema.index({ userId: 1, storageLocation: 1, locationId: 1 });
+itemSchema.index({ householdId: 1, storageLocation: 1, locationId: 1 });
+
+// Query condition for the pantry a user works in: their household's shared
+// items, or their own items when they are not in a household
+itemSchema.statics.scopeFor = function(user) {
+  return user?.householdId
+    ? { householdId: user.householdId }
+    : { userId: user.userId, householdId: null };
+};
 
 // Update the updatedAt field before saving
 itemSchema.pre('save', function(next) {
@@ -76,13 +124,17 @@ itemSchema.pre('save', function(next) {
   next();
 });
 
-// Virtual field to check if item is expiring soon (within 3 days)
+// Virtual field to check if item is expiring soon (default window);
+// use isExpiringSoonFor() when the owner's settings are at hand
 itemSchema.virtual('isExpiringSoon').get(function() {
-  const today = new Date();
-  const threeDaysFromNow = new Date(today.getTime() + (3 * 24 * 60 * 60 * 1000));
-  return this.expirationDate <= threeDaysFromNow && this.expirationDate >= today;
+  return isExpiringSoon(this, DEFAULT_EXPIRY_SETTINGS);
 });
 
+// Check if item is expiring soon using the owner's expiry settings
+itemSchema.methods.isExpiringSoonFor = function(settings) {
+  return isExpiringSoon(this, settings);
+};
+
 // Virtual field to check if item is expired
 itemSchema.virtual('isExpired').get(function() {
   return this.expirationDate < new Date();
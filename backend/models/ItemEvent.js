@@ -0,0 +1,93 @@
+const mongoose = require('mongoose');
+const { convert, getDimension } = require('../services/unitConverter');
+
+const EVENT_TYPES = [
+  'added',
+  'partially-consumed',
+  'consumed',
+  'discarded-expired',
+  'discarded-spoiled'
+];
+
+const itemEventSchema = new mongoose.Schema({
+  // Member who performed the action
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  householdId: {
+    type: String,
+    default: null
+  },
+  // Not a ref: the item may since have been deleted
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  category: {
+    type: String,
+    default: 'other'
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: EVENT_TYPES
+  },
+  quantity: {
+    amount: { type: Number, min: 0 },
+    unit: String
+  },
+  // Mass in grams when it can be worked out (volume via density, else 1 g/ml);
+  // null for count units
+  weightGrams: {
+    type: Number,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+itemEventSchema.index({ userId: 1, createdAt: -1 });
+itemEventSchema.index({ userId: 1, type: 1, createdAt: -1 });
+itemEventSchema.index({ householdId: 1, createdAt: -1 });
+
+// Estimate the weight of a quantity in grams
+const estimateWeightGrams = (name, amount, unit) => {
+  const dimension = getDimension(unit);
+  if (dimension === 'mass') {
+    return convert(amount, unit, 'g');
+  }
+  if (dimension === 'volume') {
+    return convert(amount, unit, 'g', { ingredient: name }) ?? convert(amount, unit, 'ml');
+  }
+  return null;
+};
+
+// Record an event for an item. `quantity` defaults to the item's full quantity
+// and `userId` (the acting member) to whoever added the item.
+itemEventSchema.statics.record = function(item, type, quantity = item.quantity, userId = item.userId) {
+  const amount = quantity?.amount ?? 0;
+  const unit = quantity?.unit;
+
+  return this.create({
+    userId,
+    householdId: item.householdId || null,
+    itemId: item._id,
+    itemName: item.name,
+    category: item.category,
+    type,
+    quantity: { amount, unit },
+    weightGrams: unit ? estimateWeightGrams(item.name, amount, unit) : null
+  });
+};
+
+itemEventSchema.statics.EVENT_TYPES = EVENT_TYPES;
+
+module.exports = mongoose.model('ItemEvent', itemEventSchema);
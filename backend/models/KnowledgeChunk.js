@@ -0,0 +1,36 @@
+const mongoose = require('mongoose');
+
+// One chunk of a knowledge base document with its embedding, stored so
+// indexes survive restarts and serverless cold starts without re-embedding
+const knowledgeChunkSchema = new mongoose.Schema({
+  documentId: {
+    type: String,
+    required: true
+  },
+  indexKey: {
+    type: String,
+    required: true
+  },
+  // Position of the chunk in the document's index
+  chunkId: {
+    type: Number,
+    required: true
+  },
+  // Page the chunk came from, null for Markdown and text
+  page: {
+    type: Number,
+    default: null
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  embedding: {
+    type: [Number],
+    required: true
+  }
+});
+
+knowledgeChunkSchema.index({ documentId: 1, indexKey: 1, chunkId: 1 });
+
+module.exports = mongoose.model('KnowledgeChunk', knowledgeChunkSchema);
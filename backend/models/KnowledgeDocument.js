@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+
+const FORMATS = ['pdf', 'markdown', 'text'];
+const STATUSES = ['pending', 'indexing', 'indexed', 'failed'];
+
+// A cookbook or reference document uploaded to the knowledge base. Uploads
+// are private: they are only searched, listed and managed for the member who
+// uploaded them, alongside the built-in PDF. Indexing runs in the background
+// (see services/knowledgeIndexer.js).
+const knowledgeDocumentSchema = new mongoose.Schema({
+  // Member who uploaded the document
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 150
+  },
+  filename: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 255
+  },
+  format: {
+    type: String,
+    enum: FORMATS,
+    required: true
+  },
+  // Original file, kept so the document can be re-indexed on any server
+  content: {
+    type: Buffer,
+    required: true,
+    select: false
+  },
+  size: {
+    type: Number,
+    min: 0
+  },
+  // sha256 of the content, used to skip a member's duplicate uploads
+  contentHash: {
+    type: String,
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: STATUSES,
+    default: 'pending'
+  },
+  // Why indexing failed
+  error: String,
+  // Key of the persisted vector index (see ragService.js)
+  indexKey: String,
+  // Page count for PDFs, null for Markdown and text
+  pages: {
+    type: Number,
+    default: null
+  },
+  chunkCount: {
+    type: Number,
+    default: 0
+  },
+  indexedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt field before saving
+knowledgeDocumentSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+knowledgeDocumentSchema.statics.FORMATS = FORMATS;
+knowledgeDocumentSchema.statics.STATUSES = STATUSES;
+
+module.exports = mongoose.model('KnowledgeDocument', knowledgeDocumentSchema);
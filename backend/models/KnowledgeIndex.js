@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// The stored vector index of a knowledge base document (the built-in PDF or
+// an upload). Its chunks are KnowledgeChunk documents with the same
+// documentId and indexKey; this entry is written after all of them, so an
+// index whose chunks were only partly saved is never loaded.
+const knowledgeIndexSchema = new mongoose.Schema({
+  // KnowledgeDocument id, or 'goodfood' for the built-in PDF
+  documentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Hash of the document, provider and chunking version (see ragService.js)
+  indexKey: {
+    type: String,
+    required: true
+  },
+  provider: String,
+  dimensions: Number,
+  // Page count for PDFs, null for Markdown and text
+  pages: {
+    type: Number,
+    default: null
+  },
+  chunkCount: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt field before saving
+knowledgeIndexSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('KnowledgeIndex', knowledgeIndexSchema);
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+const { STORAGE_LOCATIONS } = require('../services/shelfLife');
+
+// A user-defined storage location such as "Garage freezer". Its kind
+// (fridge, freezer or pantry) drives shelf-life estimates for items in it.
+const locationSchema = new mongoose.Schema({
+  // Member who created the location
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // Shared with the household like its items; null for a personal pantry
+  householdId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  kind: {
+    type: String,
+    required: true,
+    enum: STORAGE_LOCATIONS
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt field before saving
+locationSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('Location', locationSchema);
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose');
+
+const MEAL_SLOTS = ['breakfast', 'morning-snack', 'lunch', 'snack', 'dinner'];
+
+const mealSchema = new mongoose.Schema({
+  // Day of the plan (YYYY-MM-DD)
+  date: {
+    type: String,
+    required: true
+  },
+  slot: {
+    type: String,
+    required: true,
+    enum: MEAL_SLOTS
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: String,
+  mainIngredients: [String],
+  // Expiring pantry items the meal uses up
+  usesExpiring: [String],
+  cookingTime: String,
+  difficulty: String,
+  cuisine: String,
+  servings: Number,
+  // Locked meals are kept when the plan is regenerated
+  locked: {
+    type: Boolean,
+    default: false
+  }
+});
+
+const mealPlanSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // First day of the 7-day plan (YYYY-MM-DD)
+  weekStart: {
+    type: String,
+    required: true
+  },
+  mealsPerDay: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: MEAL_SLOTS.length
+  },
+  servings: {
+    type: Number,
+    default: 2
+  },
+  meals: [mealSchema],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+mealPlanSchema.index({ userId: 1, weekStart: -1 }, { unique: true });
+
+// Update the updatedAt field before saving
+mealPlanSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+mealPlanSchema.statics.MEAL_SLOTS = MEAL_SLOTS;
+
+module.exports = mongoose.model('MealPlan', mealPlanSchema);
@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// One row per alert sent, so the scheduler never sends the same alert twice
+const notificationLogSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: ['expiring-soon']
+  },
+  // Editing an item's expiry date makes it eligible for a new alert
+  expirationDate: {
+    type: Date,
+    required: true
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+notificationLogSchema.index({ userId: 1, itemId: 1, type: 1, expirationDate: 1 }, { unique: true });
+
+module.exports = mongoose.model('NotificationLog', notificationLogSchema);
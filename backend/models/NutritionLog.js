@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+const { NUTRIENTS, lookupNutrition, hasNutrition, scaleNutrients } = require('../services/nutrition');
+
+const nutrientFields = Object.fromEntries(
+  NUTRIENTS.map(nutrient => [nutrient, { type: Number, default: 0 }])
+);
+
+// Nutrients a user took in by consuming (part of) a pantry item
+const nutritionLogSchema = new mongoose.Schema({
+  // Member who consumed the item
+  userId: {
+    type: String,
+    required: true
+  },
+  householdId: {
+    type: String,
+    default: null
+  },
+  // Not a ref: the item may since have been deleted
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  category: {
+    type: String,
+    default: 'other'
+  },
+  quantity: {
+    amount: { type: Number, min: 0 },
+    unit: String
+  },
+  weightGrams: {
+    type: Number,
+    required: true
+  },
+  nutrients: nutrientFields,
+  consumedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+nutritionLogSchema.index({ userId: 1, consumedAt: -1 });
+
+// Log the nutrients for a consumption event. Uses the item's nutritional info
+// (per 100 g), falling back to the nutrient database for items added before
+// it was filled in. Returns null when the weight or nutrients are unknown.
+nutritionLogSchema.statics.record = function(item, event) {
+  const lookup = lookupNutrition(item.name);
+  const per100g = hasNutrition(item.nutritionalInfo) ? item.nutritionalInfo : lookup?.nutritionalInfo;
+  const unitWeight = item.unitWeight || lookup?.unitWeight;
+
+  // Count units (pieces, packets...) have no weight on the event
+  const weightGrams = event.weightGrams ?? (unitWeight ? event.quantity.amount * unitWeight : null);
+  if (!per100g || !weightGrams) return null;
+
+  return this.create({
+    userId: event.userId,
+    householdId: event.householdId,
+    itemId: item._id,
+    itemName: item.name,
+    category: item.category,
+    quantity: event.quantity,
+    weightGrams,
+    nutrients: scaleNutrients(per100g, weightGrams),
+    consumedAt: event.createdAt
+  });
+};
+
+module.exports = mongoose.model('NutritionLog', nutritionLogSchema);
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+const Item = require('./Item');
+
+const PRODUCT_SOURCES = ['import', 'user'];
+
+// Catalog entry for a packaged product, looked up by barcode when adding items
+const productSchema = new mongoose.Schema({
+  // EAN-13 (UPC-A codes are stored zero-padded), EAN-8 or UPC-E digits
+  barcode: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  brand: {
+    type: String,
+    trim: true
+  },
+  category: {
+    type: String,
+    enum: Item.schema.path('category').enumValues,
+    default: 'other'
+  },
+  defaultQuantity: {
+    amount: { type: Number, min: 0, default: 1 },
+    unit: {
+      type: String,
+      enum: Item.schema.path('quantity.unit').enumValues,
+      default: 'pieces'
+    }
+  },
+  // Per 100 g / 100 ml as in Open Food Facts
+  nutritionalInfo: {
+    calories: { type: Number, default: 0 },
+    protein: { type: Number, default: 0 },
+    carbs: { type: Number, default: 0 },
+    fat: { type: Number, default: 0 },
+    fiber: { type: Number, default: 0 }
+  },
+  // 'user' entries were corrected in the app and are kept on re-import
+  source: {
+    type: String,
+    enum: PRODUCT_SOURCES,
+    default: 'import'
+  },
+  correctedBy: {
+    type: String,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt field before saving
+productSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+productSchema.statics.PRODUCT_SOURCES = PRODUCT_SOURCES;
+
+module.exports = mongoose.model('Product', productSchema);
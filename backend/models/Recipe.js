@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+
+const SOURCES = ['recommendation', 'meal-plan', 'chat', 'manual'];
+
+const ingredientSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  amount: Number,
+  unit: String,
+  // e.g. "finely chopped"
+  notes: String
+}, { _id: false });
+
+// A recipe the user saved, stored in full so it can be reopened without
+// generating it again
+const recipeSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 150
+  },
+  description: String,
+  ingredients: [ingredientSchema],
+  steps: [String],
+  cuisine: String,
+  difficulty: String,
+  cookingTime: String,
+  servings: {
+    type: Number,
+    default: 2
+  },
+  healthScore: {
+    type: Number,
+    min: 0,
+    max: 10
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  favorite: {
+    type: Boolean,
+    default: false
+  },
+  source: {
+    type: String,
+    enum: SOURCES,
+    default: 'manual'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+recipeSchema.index({ userId: 1, favorite: -1, updatedAt: -1 });
+recipeSchema.index({ userId: 1, tags: 1 });
+
+// Update the updatedAt field before saving
+recipeSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+recipeSchema.statics.SOURCES = SOURCES;
+
+module.exports = mongoose.model('Recipe', recipeSchema);
@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+// The last recipe recommendations generated for a user, reused while the
+// pantry and preferences they were generated from are unchanged. MongoDB
+// removes entries once expiresAt has passed.
+const recommendationCacheSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Household whose shared pantry the recommendations were based on
+  householdId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  // Hash of the inventory and preferences (see services/recommendationCache.js)
+  fingerprint: {
+    type: String,
+    required: true
+  },
+  recommendations: {
+    type: [mongoose.Schema.Types.Mixed],
+    default: []
+  },
+  totalInventoryItems: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expires: 0 }
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt field before saving
+recommendationCacheSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('RecommendationCache', recommendationCacheSchema);
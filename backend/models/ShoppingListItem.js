@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+const Item = require('./Item');
+
+const SOURCES = ['manual', 'recipe', 'meal-plan'];
+
+// An entry on the shopping list. The list is shared with the household the
+// same way as the pantry; checking an entry off adds it to the inventory.
+const shoppingListItemSchema = new mongoose.Schema({
+  // Member who added the entry
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  householdId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  category: {
+    type: String,
+    enum: Item.schema.path('category').enumValues,
+    default: 'other'
+  },
+  quantity: {
+    amount: { type: Number, min: 0, default: 1 },
+    unit: {
+      type: String,
+      enum: Item.schema.path('quantity.unit').enumValues,
+      default: 'pieces'
+    }
+  },
+  notes: {
+    type: String,
+    maxlength: 200
+  },
+  source: {
+    type: String,
+    enum: SOURCES,
+    default: 'manual'
+  },
+  // Recipe or meal plan meal the entry was added for
+  recipeName: String,
+  checked: {
+    type: Boolean,
+    default: false
+  },
+  checkedAt: Date,
+  checkedBy: String,
+  // Inventory item created when the entry was checked off
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Item',
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+shoppingListItemSchema.index({ userId: 1, checked: 1 });
+shoppingListItemSchema.index({ householdId: 1, checked: 1 });
+
+// Update the updatedAt field before saving
+shoppingListItemSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+shoppingListItemSchema.statics.SOURCES = SOURCES;
+
+module.exports = mongoose.model('ShoppingListItem', shoppingListItemSchema);
@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const { v4: uuidv4 } = require('uuid');
+const { ALLERGENS, INTOLERANCES } = require('../services/dietaryRules');
 
 const userSchema = new mongoose.Schema({
   userId: {
@@ -8,10 +9,47 @@ const userSchema = new mongoose.Schema({
     default: () => uuidv4(),
     required: true
   },
+  // Household whose shared pantry this user works in (null = personal pantry)
+  householdId: {
+    type: String,
+    default: null,
+    index: true
+  },
   pushToken: {
     type: String,
     default: null
   },
+  // IANA timezone reported by the app, used for quiet hours
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  notificationSettings: {
+    quietHours: {
+      enabled: { type: Boolean, default: true },
+      start: { type: String, default: '22:00' }, // HH:mm, local time
+      end: { type: String, default: '07:00' }
+    },
+    // Local times at which expiry alerts are delivered
+    times: {
+      type: [String],
+      default: () => ['08:00', '19:00']
+    },
+    channels: {
+      push: { type: Boolean, default: true },
+      inApp: { type: Boolean, default: true }
+    }
+  },
+  expirySettings: {
+    expiringSoonDays: { type: Number, default: 3, min: 1, max: 90 },
+    useWithinDays: { type: Number, default: 7, min: 1, max: 180 },
+    // Per-category expiring-soon window in days, e.g. { dairy: 2, canned: 30 }
+    categoryOverrides: {
+      type: Map,
+      of: { type: Number, min: 1, max: 365 },
+      default: () => new Map()
+    }
+  },
   name: String,
   email: { type: String, unique: true },
   password: String,
@@ -22,7 +60,10 @@ const userSchema = new mongoose.Schema({
     cuisinePreferences: [String],
     skillLevel: String,
     householdSize: Number,
-    mealFrequency: String
+    mealFrequency: String,
+    // Checked against every recommended recipe (see services/dietaryRules.js)
+    allergens: [{ type: String, enum: Object.keys(ALLERGENS) }],
+    intolerances: [{ type: String, enum: Object.keys(INTOLERANCES) }]
   },
   // New field for tracking recipe views
   recipesViewed: {
@@ -10,10 +10,13 @@ router.post('/reset-password', resetPassword);
 const authMiddleware = require('../middleware/authMiddleware');
 router.post('/push-token', authMiddleware, async (req, res) => {
   try {
-    const { pushToken } = req.body;
+    const { pushToken, timezone } = req.body;
+    const update = { pushToken };
+    if (timezone) update.timezone = timezone;
+
     const user = await User.findByIdAndUpdate(
       req.user._id,
-      { pushToken },
+      update,
       { new: true }
     ).select('-password');
     res.json({ message: 'Push token updated', user });
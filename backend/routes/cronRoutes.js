@@ -0,0 +1,27 @@
+// /backend/routes/cronRoutes.js
+// Entry points for scheduled jobs on serverless deployments, where the
+// in-process node-cron scheduler in server.js doesn't run.
+const express = require('express');
+const router = express.Router();
+const ExpiryNotifier = require('../services/expiryNotifier');
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`
+const cronAuth = (req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.header('Authorization') !== `Bearer ${secret}`) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  next();
+};
+
+router.get('/expiry-notifications', cronAuth, async (req, res) => {
+  try {
+    const summary = await new ExpiryNotifier().run();
+    res.json({ message: 'Expiry notifications processed', ...summary });
+  } catch (err) {
+    console.error('Expiry notification cron error:', err);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
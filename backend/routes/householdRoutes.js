@@ -0,0 +1,42 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getHousehold,
+  createHousehold,
+  updateHousehold,
+  createInvite,
+  joinHousehold,
+  leaveHousehold,
+  updateMemberRole,
+  removeHouseholdMember
+} = require('../controllers/householdController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Get the current user's household (null when not in one)
+router.get('/', getHousehold);
+
+// Create a household and share the user's pantry with it
+router.post('/', createHousehold);
+
+// Rename the household
+router.put('/', updateHousehold);
+
+// Generate an invite code / QR payload
+router.post('/invite', createInvite);
+
+// Join a household with an invite code
+router.post('/join', joinHousehold);
+
+// Leave the current household
+router.post('/leave', leaveHousehold);
+
+// Change a member's role
+router.put('/members/:memberId', updateMemberRole);
+
+// Remove a member
+router.delete('/members/:memberId', removeHouseholdMember);
+
+module.exports = router;
@@ -10,7 +10,12 @@ const {
   getDashboardStats,
   updateItem,
   deleteItem,
-  getItem // Add this new function
+  getItem, // Add this new function
+  getQuantityTotal,
+  getItemHistory,
+  getWasteReport,
+  getShelfLifeSuggestion,
+  moveItems
 } = require('../controllers/itemController');
 
 // All routes require authentication
@@ -28,6 +33,21 @@ router.get('/expiring-soon', getExpiringSoon);
 // Get dashboard statistics
 router.get('/dashboard-stats', getDashboardStats);
 
+// Get total quantity of an item in a given unit
+router.get('/quantity', getQuantityTotal);
+
+// Get item event history (added, consumed, discarded)
+router.get('/history', getItemHistory);
+
+// Get monthly waste report per category
+router.get('/waste-report', getWasteReport);
+
+// Move several items to another location
+router.post('/move', moveItems);
+
+// Suggest an expiry date for an item and storage location
+router.get('/shelf-life', getShelfLifeSuggestion);
+
 // Get single item by ID
 router.get('/:itemId', getItem);
 
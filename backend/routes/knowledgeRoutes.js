@@ -0,0 +1,31 @@
+// /backend/routes/knowledgeRoutes.js
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  askKnowledge,
+  getDocuments,
+  uploadDocument,
+  reindexDocument,
+  deleteDocument
+} = require('../controllers/knowledgeController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Ask a question, answered from the documents with sources
+router.post('/ask', askKnowledge);
+
+// List knowledge base documents
+router.get('/documents', getDocuments);
+
+// Upload a PDF, Markdown or text document
+router.post('/documents', uploadDocument);
+
+// Rebuild a document's index
+router.post('/documents/:documentId/reindex', reindexDocument);
+
+// Delete a document
+router.delete('/documents/:documentId', deleteDocument);
+
+module.exports = router;
@@ -0,0 +1,26 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getLocations,
+  createLocation,
+  updateLocation,
+  deleteLocation
+} = require('../controllers/locationController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Get built-in and custom locations with item counts
+router.get('/', getLocations);
+
+// Create a custom location
+router.post('/', createLocation);
+
+// Rename a custom location or change its kind
+router.put('/:locationId', updateLocation);
+
+// Delete a custom location
+router.delete('/:locationId', deleteLocation);
+
+module.exports = router;
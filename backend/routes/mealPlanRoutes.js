@@ -0,0 +1,43 @@
+// /backend/routes/mealPlanRoutes.js
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getMealPlans,
+  getCurrentMealPlan,
+  getMealPlan,
+  generateMealPlan,
+  updateMeal,
+  regenerateMeal,
+  swapMeals,
+  deleteMealPlan
+} = require('../controllers/mealPlanController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// List meal plans
+router.get('/', getMealPlans);
+
+// Get the plan covering today (or ?date=)
+router.get('/current', getCurrentMealPlan);
+
+// Generate a week's plan, keeping locked meals
+router.post('/generate', generateMealPlan);
+
+// Get a meal plan
+router.get('/:planId', getMealPlan);
+
+// Delete a meal plan
+router.delete('/:planId', deleteMealPlan);
+
+// Swap two meals
+router.post('/:planId/swap', swapMeals);
+
+// Edit, lock or unlock a meal
+router.put('/:planId/meals/:mealId', updateMeal);
+
+// Regenerate a single meal
+router.post('/:planId/meals/:mealId/regenerate', regenerateMeal);
+
+module.exports = router;
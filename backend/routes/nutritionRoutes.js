@@ -0,0 +1,26 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getNutritionSummary,
+  getNutritionLog,
+  deleteNutritionLog,
+  getNutritionLookup
+} = require('../controllers/nutritionController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Get daily and weekly intake against health-goal targets
+router.get('/summary', getNutritionSummary);
+
+// Get the items consumed on a day
+router.get('/log', getNutritionLog);
+
+// Delete a log entry
+router.delete('/log/:logId', deleteNutritionLog);
+
+// Look up nutrients per 100 g by item name
+router.get('/lookup', getNutritionLookup);
+
+module.exports = router;
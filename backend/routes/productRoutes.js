@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const { getProductByBarcode, updateProduct } = require('../controllers/productController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Look up a product by barcode
+router.get('/barcode/:code', getProductByBarcode);
+
+// Save a correction (or a new product) for a barcode
+router.put('/barcode/:code', updateProduct);
+
+module.exports = router;
@@ -1,7 +1,63 @@
 const express = require('express');
 const router = express.Router();
 const User = require('../models/User');
+const Item = require('../models/Item');
 const bcrypt = require('bcryptjs');
+const { resolveExpirySettings } = require('../services/expirySettings');
+const { invalidateRecommendations } = require('../services/recommendationCache');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validate a PUT /settings body, returning a list of error messages
+const validateSettings = ({ expirySettings, notificationSettings }) => {
+  const errors = [];
+  const categories = Item.schema.path('category').enumValues;
+  const isDays = (value, max) => Number.isInteger(value) && value >= 1 && value <= max;
+
+  if (expirySettings) {
+    const { expiringSoonDays, useWithinDays, categoryOverrides } = expirySettings;
+    if (expiringSoonDays !== undefined && !isDays(expiringSoonDays, 90)) {
+      errors.push('expiringSoonDays must be a whole number between 1 and 90');
+    }
+    if (useWithinDays !== undefined && !isDays(useWithinDays, 180)) {
+      errors.push('useWithinDays must be a whole number between 1 and 180');
+    }
+    Object.entries(categoryOverrides || {}).forEach(([category, days]) => {
+      if (!categories.includes(category)) {
+        errors.push(`Unknown category "${category}"`);
+      } else if (days !== null && !isDays(days, 365)) {
+        errors.push(`Override for ${category} must be between 1 and 365 days`);
+      }
+    });
+  }
+
+  if (notificationSettings) {
+    const { times, quietHours, channels } = notificationSettings;
+    if (times !== undefined && (!Array.isArray(times) || !times.every(t => TIME_PATTERN.test(t)))) {
+      errors.push('times must be a list of HH:mm values');
+    }
+    if (quietHours) {
+      ['start', 'end'].forEach(key => {
+        if (quietHours[key] !== undefined && !TIME_PATTERN.test(quietHours[key])) {
+          errors.push(`quietHours.${key} must be HH:mm`);
+        }
+      });
+    }
+    Object.entries(channels || {}).forEach(([channel, enabled]) => {
+      if (!['push', 'inApp'].includes(channel) || typeof enabled !== 'boolean') {
+        errors.push(`Invalid channel setting "${channel}"`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+const formatSettings = (user) => ({
+  expirySettings: resolveExpirySettings(user),
+  notificationSettings: user.notificationSettings,
+  timezone: user.timezone
+});
 
 // Middleware to verify JWT token (assuming you have this)
 const authenticateToken = require('../middleware/authMiddleware');
@@ -42,16 +98,88 @@ router.put('/profile', authenticateToken, async (req, res) => {
     }
 
     await user.save();
+    if (preferences) {
+      await invalidateRecommendations(req.user);
+    }
 
     // Return user without password
     const updatedUser = await User.findById(req.user._id).select('-password');
     res.json({ message: 'Profile updated successfully', user: updatedUser });
   } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     console.error('Error updating profile:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
+// GET expiry and notification settings
+router.get('/settings', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('expirySettings notificationSettings timezone');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json(formatSettings(user));
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// UPDATE expiry and notification settings
+// A categoryOverrides value of null removes that override
+router.put('/settings', authenticateToken, async (req, res) => {
+  try {
+    const errors = validateSettings(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid settings', errors });
+    }
+
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { expirySettings, notificationSettings } = req.body;
+
+    if (expirySettings) {
+      const { categoryOverrides, ...windows } = expirySettings;
+      Object.entries(windows).forEach(([key, value]) => {
+        user.set(`expirySettings.${key}`, value);
+      });
+      Object.entries(categoryOverrides || {}).forEach(([category, days]) => {
+        if (days === null) {
+          user.expirySettings.categoryOverrides.delete(category);
+        } else {
+          user.expirySettings.categoryOverrides.set(category, days);
+        }
+      });
+    }
+
+    if (notificationSettings) {
+      const { quietHours, channels, times } = notificationSettings;
+      Object.entries(quietHours || {}).forEach(([key, value]) => {
+        user.set(`notificationSettings.quietHours.${key}`, value);
+      });
+      Object.entries(channels || {}).forEach(([key, value]) => {
+        user.set(`notificationSettings.channels.${key}`, value);
+      });
+      if (times) {
+        user.notificationSettings.times = [...new Set(times)].sort();
+      }
+    }
+
+    await user.save();
+
+    res.json({ message: 'Settings updated successfully', ...formatSettings(user) });
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // INCREMENT recipe view count
 router.post('/recipe-viewed', authenticateToken, async (req, res) => {
   try {
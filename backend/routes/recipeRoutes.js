@@ -6,8 +6,21 @@ const {
   getRecipeRecommendations,
   startRecipeChat,
   handleChatMessage,
-  getRecipeDetails
+  streamChatMessage,
+  getRecipeDetails,
+  getChatSessions,
+  getChatSession,
+  deleteChatSession,
+  cookRecipe
 } = require('../controllers/recipeController');
+const {
+  getSavedRecipes,
+  getSavedRecipe,
+  saveRecipe,
+  setFavorite,
+  setTags,
+  deleteSavedRecipe
+} = require('../controllers/savedRecipeController');
 
 // All routes require authentication
 router.use(authMiddleware);
@@ -26,6 +39,39 @@ router.post('/chat/start', startRecipeChat);
 // Handle chat messages
 router.post('/chat/message', handleChatMessage);
 
+// Handle chat messages, streaming the reply as Server-Sent Events
+router.post('/chat/message/stream', streamChatMessage);
+
+// List past chat sessions
+router.get('/chat/sessions', getChatSessions);
+
+// Resume a chat session (full history)
+router.get('/chat/sessions/:sessionId', getChatSession);
+
+// Delete a chat session
+router.delete('/chat/sessions/:sessionId', deleteChatSession);
+
+// Cook a recipe and deduct its ingredients from inventory
+router.post('/cook', cookRecipe);
+
+// List saved recipes (search, tag and favorite filters)
+router.get('/saved', getSavedRecipes);
+
+// Save a recipe
+router.post('/saved', saveRecipe);
+
+// Get a saved recipe
+router.get('/saved/:recipeId', getSavedRecipe);
+
+// Favorite or unfavorite a saved recipe
+router.put('/saved/:recipeId/favorite', setFavorite);
+
+// Replace a saved recipe's tags
+router.put('/saved/:recipeId/tags', setTags);
+
+// Delete a saved recipe
+router.delete('/saved/:recipeId', deleteSavedRecipe);
+
 // Get detailed recipe information
 router.get('/details/:recipeName', getRecipeDetails);
 
@@ -0,0 +1,43 @@
+// /backend/routes/shoppingListRoutes.js
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middleware/authMiddleware');
+const {
+  getShoppingList,
+  addShoppingItem,
+  addFromRecipe,
+  addFromMealPlan,
+  updateShoppingItem,
+  checkShoppingItem,
+  deleteShoppingItem,
+  clearCheckedItems
+} = require('../controllers/shoppingListController');
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Get the shopping list grouped by category
+router.get('/', getShoppingList);
+
+// Add an item by hand
+router.post('/', addShoppingItem);
+
+// Add a recipe's missing ingredients
+router.post('/from-recipe', addFromRecipe);
+
+// Add what a meal plan needs
+router.post('/from-meal-plan', addFromMealPlan);
+
+// Remove checked-off items
+router.delete('/checked', clearCheckedItems);
+
+// Update an item
+router.put('/:entryId', updateShoppingItem);
+
+// Check an item off, adding it to the inventory
+router.post('/:entryId/check', checkShoppingItem);
+
+// Delete an item
+router.delete('/:entryId', deleteShoppingItem);
+
+module.exports = router;
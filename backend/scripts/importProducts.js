@@ -0,0 +1,148 @@
+// /backend/scripts/importProducts.js
+// Import an Open Food Facts dump into the Product catalog.
+//
+//   node scripts/importProducts.js <file> [--country=en:india]
+//
+// <file> is the JSONL export (openfoodfacts-products.jsonl[.gz]) or the
+// tab-separated CSV export (en.openfoodfacts.org.products.csv[.gz]).
+// Products corrected in the app (source: 'user') are left untouched.
+require('dotenv').config();
+const fs = require('fs');
+const zlib = require('zlib');
+const readline = require('readline');
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const Product = require('../models/Product');
+const { mapOpenFoodFactsProduct } = require('../services/productCatalog');
+
+const BATCH_SIZE = 1000;
+
+const parseArgs = (argv) => {
+  const [file, ...flags] = argv;
+  const options = { file };
+  flags.forEach(flag => {
+    const [key, value] = flag.replace(/^--/, '').split('=');
+    options[key] = value;
+  });
+  return options;
+};
+
+const openLines = (file) => {
+  let stream = fs.createReadStream(file);
+  if (file.endsWith('.gz')) {
+    stream = stream.pipe(zlib.createGunzip());
+  }
+  return readline.createInterface({ input: stream, crlfDelay: Infinity });
+};
+
+// CSV rows are flat, with nutriments as top-level columns
+const csvRowToRecord = (header, line) => {
+  const values = line.split('\t');
+  const row = Object.fromEntries(header.map((key, index) => [key, values[index]]));
+  return {
+    ...row,
+    categories_tags: String(row.categories_tags || '').split(','),
+    countries_tags: String(row.countries_tags || '').split(','),
+    nutriments: row
+  };
+};
+
+const writeBatch = async (products, summary) => {
+  if (products.length === 0) return;
+
+  const operations = products.map(product => ({
+    updateOne: {
+      filter: { barcode: product.barcode, source: { $ne: 'user' } },
+      update: {
+        $set: { ...product, source: 'import', updatedAt: new Date() },
+        $setOnInsert: { createdAt: new Date() }
+      },
+      upsert: true
+    }
+  }));
+
+  try {
+    const result = await Product.bulkWrite(operations, { ordered: false });
+    summary.upserted += result.upsertedCount;
+    summary.updated += result.modifiedCount;
+  } catch (error) {
+    // A duplicate key means the filter skipped a user-corrected product
+    const writeErrors = error.writeErrors || [];
+    if (writeErrors.length === 0 || writeErrors.some(e => e.code !== 11000)) throw error;
+    summary.upserted += error.result?.upsertedCount || 0;
+    summary.updated += error.result?.modifiedCount || 0;
+    summary.keptUserEdits += writeErrors.length;
+  }
+};
+
+const importProducts = async ({ file, country }) => {
+  const isCsv = /\.csv(\.gz)?$/.test(file);
+  const summary = { read: 0, skipped: 0, upserted: 0, updated: 0, keptUserEdits: 0 };
+  let header = null;
+  let batch = [];
+
+  for await (const line of openLines(file)) {
+    if (!line.trim()) continue;
+
+    if (isCsv && !header) {
+      header = line.split('\t');
+      continue;
+    }
+
+    summary.read += 1;
+
+    let record;
+    try {
+      record = isCsv ? csvRowToRecord(header, line) : JSON.parse(line);
+    } catch {
+      summary.skipped += 1;
+      continue;
+    }
+
+    if (country && !(record.countries_tags || []).includes(country)) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    const product = mapOpenFoodFactsProduct(record);
+    if (!product) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    batch.push(product);
+    if (batch.length >= BATCH_SIZE) {
+      await writeBatch(batch, summary);
+      batch = [];
+      console.log(`📦 ${summary.read} records read...`);
+    }
+  }
+
+  await writeBatch(batch, summary);
+  return summary;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.file) {
+    console.error('Usage: node scripts/importProducts.js <file.jsonl[.gz]|file.csv[.gz]> [--country=en:india]');
+    process.exit(1);
+  }
+
+  await connectDB();
+  try {
+    const summary = await importProducts(options);
+    console.log('✅ Product import finished:', summary);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Product import failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { importProducts };
@@ -13,13 +13,28 @@ app.use(cors({
     origin: FRONTEND_URL,
     credentials: true,
 }));
-app.use(express.json());
+// Knowledge base uploads arrive as base64 in the JSON body
+app.use(express.json({ limit: '15mb' }));
 
 // Routes
 app.use('/api', require('./routes/authRoutes'));
 app.use('/api/items', require('./routes/itemRoutes'));
 app.use('/api/recipes', require('./routes/recipeRoutes'));
 app.use('/api/profile', require('./routes/profileRoutes'));
+app.use('/api/household', require('./routes/householdRoutes'));
+app.use('/api/products', require('./routes/productRoutes'));
+app.use('/api/locations', require('./routes/locationRoutes'));
+app.use('/api/nutrition', require('./routes/nutritionRoutes'));
+app.use('/api/mealplans', require('./routes/mealPlanRoutes'));
+app.use('/api/shopping-list', require('./routes/shoppingListRoutes'));
+app.use('/api/knowledge', require('./routes/knowledgeRoutes'));
+app.use('/api/cron', require('./routes/cronRoutes'));
+
+// Expiry push notifications (serverless deployments use /api/cron instead)
+if (process.env.DISABLE_SCHEDULER !== 'true') {
+  const ExpiryNotifier = require('./services/expiryNotifier');
+  new ExpiryNotifier().start();
+}
 
 
 const PORT = process.env.PORT || 5000;
@@ -0,0 +1,175 @@
+// /backend/services/dietaryRules.js
+// Diets, allergens and intolerances as rules over recipe ingredients. Each
+// ingredient group lists the words that put an ingredient in it ("butter" is
+// dairy) and the names that look like it but aren't ("peanut butter").
+// Names are compared in the ingredient matcher's canonical form, so plurals
+// and synonyms (prawn/shrimp, curd/yogurt) are covered.
+const { normalizeIngredient } = require('./ingredientMatcher');
+
+const INGREDIENT_GROUPS = {
+  meat: {
+    label: 'Meat',
+    words: ['chicken', 'beef', 'pork', 'lamb', 'mutton', 'turkey', 'duck', 'veal', 'goat', 'bacon', 'ham', 'sausage', 'steak', 'salami', 'pepperoni', 'chorizo', 'prosciutto', 'gelatin', 'lard'],
+    except: []
+  },
+  fish: {
+    label: 'Fish',
+    words: ['fish', 'salmon', 'tuna', 'cod', 'anchovy', 'sardine', 'mackerel', 'trout', 'tilapia', 'haddock'],
+    except: []
+  },
+  shellfish: {
+    label: 'Shellfish',
+    words: ['shrimp', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'octopus', 'crayfish'],
+    except: ['oyster mushroom']
+  },
+  dairy: {
+    label: 'Dairy',
+    words: ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'paneer', 'ghee', 'whey', 'buttermilk', 'mozzarella', 'parmesan', 'cheddar', 'feta', 'ricotta'],
+    except: ['coconut milk', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'coconut cream', 'peanut butter', 'almond butter', 'nut butter', 'cocoa butter', 'cream tartar', 'vegan']
+  },
+  eggs: {
+    label: 'Eggs',
+    words: ['egg', 'mayonnaise', 'meringue'],
+    except: ['vegan']
+  },
+  nuts: {
+    label: 'Tree nuts',
+    words: ['nut', 'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'praline', 'marzipan'],
+    except: []
+  },
+  peanuts: {
+    label: 'Peanuts',
+    words: ['peanut', 'groundnut'],
+    except: []
+  },
+  gluten: {
+    label: 'Gluten',
+    words: ['wheat', 'flour', 'bread', 'breadcrumb', 'pasta', 'spaghetti', 'macaroni', 'noodle', 'couscous', 'barley', 'rye', 'semolina', 'bulgur', 'seitan', 'tortilla', 'soy sauce', 'cracker', 'cake', 'biscuit', 'roti', 'naan', 'pita', 'beer', 'spelt', 'farro'],
+    except: ['gluten free', 'rice flour', 'almond flour', 'coconut flour', 'chickpea flour', 'gram flour', 'buckwheat', 'rice noodle', 'corn tortilla', 'tamari']
+  },
+  soy: {
+    label: 'Soy',
+    words: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+    except: []
+  },
+  sesame: {
+    label: 'Sesame',
+    words: ['sesame', 'tahini'],
+    except: []
+  },
+  honey: {
+    label: 'Honey',
+    words: ['honey'],
+    except: []
+  }
+};
+
+// Groups shown as "contains" labels on recipe cards
+const LABELLED_GROUPS = ['dairy', 'eggs', 'gluten', 'nuts', 'peanuts', 'shellfish', 'fish', 'soy', 'sesame'];
+
+// Allergens a user can declare, with the groups each one rules out
+const ALLERGENS = {
+  nuts: ['nuts'],
+  peanuts: ['peanuts'],
+  gluten: ['gluten'],
+  shellfish: ['shellfish'],
+  fish: ['fish'],
+  eggs: ['eggs'],
+  dairy: ['dairy'],
+  soy: ['soy'],
+  sesame: ['sesame']
+};
+
+// Intolerances a user can declare. `except` adds names that are fine for the
+// intolerance but not the allergy (lactose-free milk is still dairy).
+const INTOLERANCES = {
+  lactose: { groups: ['dairy'], except: ['lactose free', 'ghee'] },
+  gluten: { groups: ['gluten'], except: [] }
+};
+
+// Diets the app offers (see the profile screen) that rule ingredients out;
+// keto and paleo are left to the prompt
+const DIETS = {
+  vegan: ['meat', 'fish', 'shellfish', 'dairy', 'eggs', 'honey'],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  pescatarian: ['meat']
+};
+
+const containsPhrase = (name, phrase) => ` ${name} `.includes(` ${phrase} `);
+
+// Groups an ingredient name belongs to, ignoring `extraExceptions`
+const getIngredientGroups = (ingredient, extraExceptions = []) => {
+  const name = normalizeIngredient(ingredient);
+  return Object.entries(INGREDIENT_GROUPS)
+    .filter(([, group]) =>
+      group.words.some(word => containsPhrase(name, word)) &&
+      ![...group.except, ...extraExceptions].some(phrase => containsPhrase(name, phrase))
+    )
+    .map(([key]) => key);
+};
+
+// Everything a recipe is checked against: its main ingredients and its name
+// ("Shrimp Pad Thai" contains shrimp even if the list forgets it)
+const getRecipeIngredients = (recipe) => [recipe.name, ...(recipe.mainIngredients || [])].filter(Boolean);
+
+// The user's restrictions as rules: { reason, groups, except }
+const resolveDietaryRestrictions = (preferences = {}) => {
+  const rules = [];
+  // Whole names only: "non vegeterian" is not vegetarian
+  const diet = String(preferences.diet || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (DIETS[diet]) rules.push({ reason: `${diet} diet`, groups: DIETS[diet], except: [] });
+  (preferences.allergens || []).forEach(allergen => {
+    if (ALLERGENS[allergen]) rules.push({ reason: `${allergen} allergy`, groups: ALLERGENS[allergen], except: [] });
+  });
+  (preferences.intolerances || []).forEach(intolerance => {
+    const rule = INTOLERANCES[intolerance];
+    if (rule) rules.push({ reason: `${intolerance} intolerance`, groups: rule.groups, except: rule.except });
+  });
+
+  return rules;
+};
+
+// Every way a recipe breaks the rules, as
+// { ingredient, group, reason } (e.g. butter / dairy / vegan diet)
+const findViolations = (recipe, rules) => getRecipeIngredients(recipe).flatMap(ingredient =>
+  rules.flatMap(rule => getIngredientGroups(ingredient, rule.except)
+    .filter(group => rule.groups.includes(group))
+    .map(group => ({ ingredient, group, reason: rule.reason })))
+);
+
+// "contains" labels for a recipe card. Recommendations only list their main
+// ingredients, so a missing label doesn't mean the recipe is free from the
+// allergen (pesto has cheese, mayonnaise has egg) and none is claimed.
+const getDietaryLabels = (recipe) => {
+  const found = new Set(getRecipeIngredients(recipe).flatMap(ingredient => getIngredientGroups(ingredient)));
+  return {
+    contains: LABELLED_GROUPS.filter(group => found.has(group)).map(group => INGREDIENT_GROUPS[group].label)
+  };
+};
+
+// One line per offending ingredient, for logs and regeneration prompts
+const describeViolations = (recipe, violations) => {
+  const byIngredient = new Map();
+  violations.forEach(({ ingredient, group, reason }) => {
+    const key = `${ingredient}|${group}`;
+    if (!byIngredient.has(key)) byIngredient.set(key, { ingredient, group, reasons: [] });
+    byIngredient.get(key).reasons.push(reason);
+  });
+
+  return [...byIngredient.values()].map(({ ingredient, group, reasons }) =>
+    `"${recipe.name}" uses ${INGREDIENT_GROUPS[group].label.toLowerCase()} (${ingredient}), ruled out by the ${reasons.join(' and ')}`
+  );
+};
+
+module.exports = {
+  INGREDIENT_GROUPS,
+  ALLERGENS,
+  INTOLERANCES,
+  DIETS,
+  getIngredientGroups,
+  resolveDietaryRestrictions,
+  findViolations,
+  getDietaryLabels,
+  describeViolations
+};
@@ -0,0 +1,216 @@
+// /backend/services/expiryNotifier.js
+const cron = require('node-cron');
+const Item = require('../models/Item');
+const User = require('../models/User');
+const NotificationLog = require('../models/NotificationLog');
+const { createPushSender } = require('./pushSenders');
+const {
+  DEFAULT_NOTIFICATION_TIMES,
+  resolveExpirySettings,
+  buildExpiringSoonQuery
+} = require('./expirySettings');
+
+const DEFAULT_CRON = '*/30 * * * *';
+// Alerts go out during this many minutes after each of the user's
+// notification times; must be longer than the scheduler interval
+const DELIVERY_WINDOW_MINUTES = 60;
+
+// "HH:mm" -> minutes after midnight
+const parseTime = (value) => {
+  const [hours, minutes] = String(value || '').split(':').map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+  return hours * 60 + minutes;
+};
+
+// Minutes after midnight for `date` in the given IANA timezone
+const getLocalMinutes = (date, timeZone) => {
+  let formatter;
+  try {
+    formatter = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  } catch {
+    formatter = new Intl.DateTimeFormat('en-GB', { timeZone: 'UTC', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  }
+  return parseTime(formatter.format(date));
+};
+
+// The user's quiet hours in minutes after midnight, or null when off
+const getQuietHours = (user) => {
+  const quietHours = user.notificationSettings?.quietHours;
+  if (!quietHours || quietHours.enabled === false) return null;
+
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) return null;
+  return { start, end };
+};
+
+// Whether `minutes` falls in quiet hours, which may wrap past midnight
+// (e.g. 22:00-07:00)
+const isWithin = (minutes, { start, end }) => (start < end
+  ? minutes >= start && minutes < end
+  : minutes >= start || minutes < end);
+
+// Finds items about to expire and pushes one alert per item to each member
+// of the pantry they belong to
+class ExpiryNotifier {
+  constructor({ sender = createPushSender(), now = () => new Date() } = {}) {
+    this.sender = sender;
+    this.now = now;
+    this.task = null;
+  }
+
+  isQuietTime(user, date = this.now()) {
+    const quietHours = getQuietHours(user);
+    return quietHours !== null && isWithin(getLocalMinutes(date, user.timezone || 'UTC'), quietHours);
+  }
+
+  // Whether `date` falls in one of the user's delivery windows. Alerts due
+  // in a window overlapping quiet hours are held until they end, so the end
+  // of quiet hours opens a window too.
+  isDeliveryTime(user, date = this.now()) {
+    const times = (user.notificationSettings?.times ?? DEFAULT_NOTIFICATION_TIMES)
+      .map(parseTime)
+      .filter(time => time !== null);
+    if (times.length === 0) return true;
+
+    const quietHours = getQuietHours(user);
+    const windowEnd = time => (time + DELIVERY_WINDOW_MINUTES - 1) % (24 * 60);
+    if (quietHours && times.some(time => isWithin(time, quietHours) || isWithin(windowEnd(time), quietHours))) {
+      times.push(quietHours.end);
+    }
+
+    const current = getLocalMinutes(date, user.timezone || 'UTC');
+    return times.some(time => {
+      const elapsed = (current - time + 24 * 60) % (24 * 60);
+      return elapsed < DELIVERY_WINDOW_MINUTES;
+    });
+  }
+
+  buildMessage(user, items) {
+    const formatDate = (date) => new Date(date).toDateString();
+    const first = items[0];
+
+    return {
+      to: user.pushToken,
+      title: items.length === 1 ? '⏰ Item Expiring Soon' : `⏰ ${items.length} Items Expiring Soon`,
+      body: items.length === 1
+        ? `${first.name} is expiring on ${formatDate(first.expirationDate)}`
+        : `${items.slice(0, 3).map(item => item.name).join(', ')}${items.length > 3 ? ` and ${items.length - 3} more` : ''} are expiring soon`,
+      data: {
+        type: 'expiring_item',
+        itemIds: items.map(item => item._id.toString())
+      }
+    };
+  }
+
+  // Collect the items in the user's pantry they haven't been alerted about yet
+  async getPendingItems(user, now) {
+    const items = await Item.find({
+      ...Item.scopeFor(user),
+      isUsed: false,
+      ...buildExpiringSoonQuery(resolveExpirySettings(user), now)
+    }).sort({ expirationDate: 1 });
+
+    if (items.length === 0) return [];
+
+    const logs = await NotificationLog.find({
+      userId: user.userId,
+      type: 'expiring-soon',
+      itemId: { $in: items.map(item => item._id) }
+    });
+
+    const alreadySent = new Set(
+      logs.map(log => `${log.itemId}_${log.expirationDate.getTime()}`)
+    );
+
+    return items.filter(item =>
+      !alreadySent.has(`${item._id}_${item.expirationDate.getTime()}`)
+    );
+  }
+
+  // Run one pass over all users with a push token
+  async run() {
+    const now = this.now();
+    const summary = { usersNotified: 0, itemsNotified: 0, deferred: 0, failed: 0 };
+
+    const users = await User.find({
+      pushToken: { $ne: null },
+      'notificationSettings.channels.push': { $ne: false }
+    }).select('userId householdId pushToken timezone notificationSettings expirySettings');
+
+    for (const user of users) {
+      try {
+        if (!this.isDeliveryTime(user, now)) continue;
+
+        const items = await this.getPendingItems(user, now);
+        if (items.length === 0) continue;
+
+        // Leave the items pending; the window opening when quiet hours end
+        // sends them
+        if (this.isQuietTime(user, now)) {
+          summary.deferred += 1;
+          continue;
+        }
+
+        const [result] = await this.sender.send([this.buildMessage(user, items)]);
+
+        if (result?.status !== 'ok') {
+          summary.failed += 1;
+          if (result?.details?.error === 'DeviceNotRegistered') {
+            await User.updateOne({ _id: user._id }, { pushToken: null });
+          }
+          continue;
+        }
+
+        await NotificationLog.insertMany(
+          items.map(item => ({
+            userId: user.userId,
+            itemId: item._id,
+            type: 'expiring-soon',
+            expirationDate: item.expirationDate,
+            sentAt: now
+          })),
+          { ordered: false }
+        ).catch(error => {
+          // Duplicate keys mean another run already logged the alert
+          if (error.code !== 11000) throw error;
+        });
+
+        summary.usersNotified += 1;
+        summary.itemsNotified += items.length;
+      } catch (error) {
+        summary.failed += 1;
+        console.error(`Expiry notification error for user ${user.userId}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  start(expression = process.env.EXPIRY_NOTIFIER_CRON || DEFAULT_CRON) {
+    if (this.task) return this.task;
+
+    this.task = cron.schedule(expression, async () => {
+      try {
+        const summary = await this.run();
+        if (summary.itemsNotified || summary.failed) {
+          console.log('🔔 Expiry notifications:', summary);
+        }
+      } catch (error) {
+        console.error('❌ Expiry notifier run failed:', error);
+      }
+    }, { name: 'expiry-notifier', noOverlap: true });
+
+    console.log(`🔔 Expiry notifier scheduled (${expression})`);
+    return this.task;
+  }
+
+  stop() {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+    }
+  }
+}
+
+module.exports = ExpiryNotifier;
@@ -0,0 +1,70 @@
+// /backend/services/expirySettings.js
+// Per-user expiry windows. Every "expiring soon" check (endpoints, the Item
+// model, the notifier and the Gemini prompt) goes through these helpers.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_EXPIRY_SETTINGS = {
+  expiringSoonDays: 3,
+  useWithinDays: 7,
+  categoryOverrides: {}
+};
+
+const DEFAULT_NOTIFICATION_TIMES = ['08:00', '19:00'];
+
+// Plain settings object for a user document (or defaults when missing)
+const resolveExpirySettings = (user) => {
+  const settings = user?.expirySettings || {};
+  const overrides = settings.categoryOverrides instanceof Map
+    ? Object.fromEntries(settings.categoryOverrides)
+    : { ...(settings.categoryOverrides || {}) };
+
+  return {
+    expiringSoonDays: settings.expiringSoonDays || DEFAULT_EXPIRY_SETTINGS.expiringSoonDays,
+    useWithinDays: settings.useWithinDays || DEFAULT_EXPIRY_SETTINGS.useWithinDays,
+    categoryOverrides: overrides
+  };
+};
+
+// Expiring-soon window in days for a category
+const getExpiringSoonDays = (settings, category) => {
+  const override = settings.categoryOverrides?.[category];
+  return override || settings.expiringSoonDays;
+};
+
+// Mongo condition matching items inside their category's expiring-soon window
+const buildExpiringSoonQuery = (settings, now = new Date()) => {
+  const windowEnd = (days) => new Date(now.getTime() + (days * DAY_MS));
+  const overriddenCategories = Object.keys(settings.categoryOverrides || {});
+
+  const conditions = overriddenCategories.map(category => ({
+    category,
+    expirationDate: { $gte: now, $lte: windowEnd(getExpiringSoonDays(settings, category)) }
+  }));
+
+  conditions.push({
+    category: { $nin: overriddenCategories },
+    expirationDate: { $gte: now, $lte: windowEnd(settings.expiringSoonDays) }
+  });
+
+  return { $or: conditions };
+};
+
+const getDaysUntilExpiry = (expirationDate, now = new Date()) =>
+  Math.ceil((new Date(expirationDate) - now) / DAY_MS);
+
+const isExpiringSoon = (item, settings = DEFAULT_EXPIRY_SETTINGS, now = new Date()) => {
+  const expirationDate = new Date(item.expirationDate);
+  const windowEnd = new Date(now.getTime() + (getExpiringSoonDays(settings, item.category) * DAY_MS));
+  return expirationDate <= windowEnd && expirationDate >= now;
+};
+
+module.exports = {
+  DEFAULT_EXPIRY_SETTINGS,
+  DEFAULT_NOTIFICATION_TIMES,
+  resolveExpirySettings,
+  getExpiringSoonDays,
+  buildExpiringSoonQuery,
+  getDaysUntilExpiry,
+  isExpiringSoon
+};
@@ -1,25 +1,61 @@
 // /backend/services/geminiService.js
-const { GoogleGenerativeAI } = require('@google/generative-ai');
 const RAGService = require('./ragService');
-const path = require('path');
-
+const { createLlmProvider } = require('./llmProviders');
+const {
+  DEFAULT_EXPIRY_SETTINGS,
+  getExpiringSoonDays,
+  getDaysUntilExpiry
+} = require('./expirySettings');
+const {
+  RECIPE_INSTRUCTIONS_EXAMPLE,
+  validateRecipeInstructions,
+  validateRecipeRecommendations,
+  validateMealPlan,
+  validateMeal,
+  validateRecipeDetails
+} = require('./recipeSchema');
+const { StructuredOutputError, generateStructured } = require('./structuredOutput');
+const { resolveDietaryRestrictions, findViolations, describeViolations } = require('./dietaryRules');
+
+// Knowledge base answers need at least one chunk this similar to the question
+const KNOWLEDGE_MIN_SIMILARITY = Number(process.env.RAG_MIN_SIMILARITY) || 0.5;
+const NOT_IN_KNOWLEDGE_BASE = 'This is not in the knowledge base.';
+
+const validateRecommendations = (data) => {
+  const { recipes, errors } = validateRecipeRecommendations(data);
+  return { value: recipes, errors };
+};
+
+const validateMealPlanResponse = (data) => {
+  const { meals, errors } = validateMealPlan(data);
+  return { value: meals, errors };
+};
+
+const validateMealResponse = (data) => {
+  const { meal, errors } = validateMeal(data);
+  return { value: meal, errors };
+};
+
+const validateRecipeDetailsResponse = (data) => {
+  const { details, errors } = validateRecipeDetails(data);
+  return { value: details, errors };
+};
+
+// Prompts and response handling for the app's AI features. Text generation
+// and embeddings go through the configured LLM provider (Gemini by default).
 class GeminiService {
-  constructor() {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not defined in environment variables');
-    }
-    this.genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  constructor(llm = createLlmProvider()) {
+    this.llm = llm;
 
     // Initialize RAG service
-    this.ragService = new RAGService();
+    this.ragService = new RAGService(this.llm);
     this.initializeRAG();
   }
 
   async initializeRAG() {
     try {
-      const pdfPath = path.join(__dirname, '../services/goodfood.pdf');
-      await this.ragService.initialize(pdfPath);
+      // The built-in goodfood.pdf plus documents uploaded to the knowledge base
+      await this.ragService.initialize();
       console.log('✅ RAG service initialized successfully');
     } catch (error) {
       console.error('❌ Failed to initialize RAG:', error);
@@ -27,17 +63,19 @@ class GeminiService {
     }
   }
 
-  // Generate recipe recommendations with RAG context
-  async generateRecipeRecommendations(inventory, userPreferences = {}) {
+  // Generate recipe recommendations with RAG context. Recipes breaking the
+  // user's diet, allergies or intolerances are replaced or left out. Throws a
+  // StructuredOutputError when no valid list could be produced.
+  async generateRecipeRecommendations(inventory, userPreferences = {}, expirySettings = DEFAULT_EXPIRY_SETTINGS, { userId } = {}) {
     try {
-      const inventoryList = this.formatInventoryForPrompt(inventory);
+      const inventoryList = this.formatInventoryForPrompt(inventory, expirySettings);
 
       // Get relevant context from PDF for recipe generation
       const query = `recipe recommendations for ${Object.keys(inventory).join(', ')} with preferences ${JSON.stringify(userPreferences)}`;
       let contextText = '';
 
       if (this.ragService.initialized) {
-        const relevantChunks = await this.ragService.getContext(query, 2);
+        const relevantChunks = await this.ragService.getContext(query, 2, { userId });
         contextText = this.ragService.formatContextForPrompt(relevantChunks);
       }
 
@@ -57,6 +95,8 @@ class GeminiService {
         - Cuisine Preferences: ${userPreferences.cuisinePreferences?.join(', ') || 'Any cuisine'}
         - Skill Level: ${userPreferences.skillLevel || 'intermediate'}
         - Household Size: ${userPreferences.householdSize || 2}
+        - Allergies: ${userPreferences.allergens?.join(', ') || 'None'}
+        - Intolerances: ${userPreferences.intolerances?.join(', ') || 'None'}
 
         Requirements:
         1. Use insights from the knowledge base context when relevant
@@ -64,6 +104,8 @@ class GeminiService {
         3. Each recipe should use at least 3 ingredients from the inventory
         4. Keep recipes practical and achievable
         5. Consider nutritional balance
+        6. healthScore is a whole number from 1 (least healthy) to 10 (most healthy)
+        7. Never use an ingredient the user's diet, allergies or intolerances rule out, even when it is in the inventory
 
         Return ONLY a JSON array with exactly this structure:
         [
@@ -82,57 +124,248 @@ class GeminiService {
         IMPORTANT: Return ONLY valid JSON. No markdown formatting, no extra text.
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      const recipes = await generateStructured(this.llm, prompt, validateRecommendations, { label: 'recipe recommendations' });
+      return await this.enforceDietaryRestrictions(prompt, recipes, userPreferences);
 
-      // Clean and parse response
-      let cleanedText = text.trim();
-      if (cleanedText.startsWith('```json')) {
-        cleanedText = cleanedText.replace(/```json\n?/, '').replace(/\n?```$/, '');
-      } else if (cleanedText.startsWith('```')) {
-        cleanedText = cleanedText.replace(/```\n?/, '').replace(/\n?```$/, '');
-      }
+    } catch (error) {
+      if (error instanceof StructuredOutputError) throw error;
+      console.error('💥 Error generating recipe recommendations:', error);
+      throw new StructuredOutputError('generation_failed', 'Could not generate recipe recommendations', [error.message]);
+    }
+  }
 
-      let recipes;
-      try {
-        recipes = JSON.parse(cleanedText);
-      } catch (parseError) {
-        console.error('❌ JSON Parse Error:', parseError);
-        return [];
-      }
+  // Check recommendations against the user's dietary rules and ask once for
+  // replacements of the ones breaking them. Replacements that break them too
+  // are dropped, as are all of them when the replacement request fails.
+  async enforceDietaryRestrictions(prompt, recipes, userPreferences) {
+    const rules = resolveDietaryRestrictions(userPreferences);
+    const breaksRules = recipe => findViolations(recipe, rules).length > 0;
+
+    const allowed = recipes.filter(recipe => !breaksRules(recipe));
+    const rejected = recipes.filter(breaksRules);
+    if (rejected.length === 0) {
+      return recipes;
+    }
+
+    const problems = rejected.flatMap(recipe => describeViolations(recipe, findViolations(recipe, rules)));
+    console.warn('⚠️ Recipes breaking dietary restrictions:', problems.join('; '));
+
+    const replacementPrompt = `${prompt}
+
+        These recipes were rejected because of the user's dietary restrictions:
+        ${problems.map(problem => `- ${problem}`).join('\n        ')}
+        Instead, return a JSON array of exactly ${rejected.length} different recipe(s) in the same format.
+        ${allowed.length ? `Do not repeat: ${allowed.map(recipe => recipe.name).join(', ')}` : ''}
+      `;
+
+    try {
+      const replacements = await generateStructured(this.llm, replacementPrompt, validateRecommendations, { label: 'replacement recipes' });
+      const kept = replacements
+        .filter(recipe => !breaksRules(recipe) && !allowed.some(existing => existing.name === recipe.name))
+        .slice(0, rejected.length);
 
-      if (!Array.isArray(recipes)) {
-        return [];
+      if (kept.length < rejected.length) {
+        console.warn(`⚠️ Dropped ${rejected.length - kept.length} recipe(s) that could not be replaced`);
       }
+      return [...allowed, ...kept];
+    } catch (error) {
+      console.error('Error replacing recipes that break dietary restrictions:', error.message);
+      return allowed;
+    }
+  }
 
-      const validRecipes = recipes.filter(recipe => {
-        return recipe.name && recipe.description && recipe.mainIngredients &&
-               Array.isArray(recipe.mainIngredients) && recipe.cookingTime &&
-               recipe.difficulty && recipe.cuisine;
-      });
+  // Generate meals for the given { date, slot } pairs of a weekly plan.
+  // `lockedMeals` are already planned and shouldn't be repeated. Throws a
+  // StructuredOutputError when no valid plan could be produced.
+  async generateMealPlan(inventory, userPreferences = {}, expirySettings = DEFAULT_EXPIRY_SETTINGS, options = {}) {
+    const { slots = [], servings = 2, lockedMeals = [], expiringItems = [] } = options;
+
+    try {
+      const prompt = `
+        You are a professional chef and nutritionist planning a week of home cooking.
+
+        Plan one meal for each of these slots (date and meal):
+        ${slots.map(({ date, slot }) => `- ${date} ${slot}`).join('\n        ')}
+
+        Available Inventory:
+        ${this.formatInventoryForPrompt(inventory, expirySettings)}
+
+        ${this.formatMealPlanContext(userPreferences, servings, expiringItems, lockedMeals)}
+
+        Requirements:
+        1. Plan the meals that use expiring ingredients on the earliest days, before they expire
+        2. Build meals mostly from the inventory; keep extra shopping small
+        3. Don't repeat a dish within the week and vary cuisines and main ingredients
+        4. Breakfasts and snacks should be quick; dinners can take longer
+        5. Keep the week nutritionally balanced for the health goals
+
+        Return ONLY a JSON array with one object per slot, exactly this structure:
+        [
+          {
+            "date": "YYYY-MM-DD",
+            "slot": "dinner",
+            "name": "Recipe Name",
+            "description": "Brief appetizing description in 10-15 words",
+            "mainIngredients": ["ingredient1", "ingredient2", "ingredient3"],
+            "cookingTime": "30 minutes",
+            "difficulty": "Easy",
+            "cuisine": "Cuisine type"
+          }
+        ]
 
-      return validRecipes;
+        IMPORTANT: Return ONLY valid JSON. No markdown formatting, no extra text.
+      `;
 
+      return await generateStructured(this.llm, prompt, validateMealPlanResponse, { label: 'meal plan' });
     } catch (error) {
-      console.error('💥 Error generating recipe recommendations:', error);
-      return [];
+      if (error instanceof StructuredOutputError) throw error;
+      console.error('💥 Error generating meal plan:', error);
+      throw new StructuredOutputError('generation_failed', 'Could not generate meal plan', [error.message]);
     }
   }
 
-  // Handle chat with RAG-enhanced responses
-  async handleChatMessage(message, context = {}) {
+  // Generate a single replacement meal for one slot of a plan. Throws a
+  // StructuredOutputError when no valid meal could be produced.
+  async generateMeal(inventory, userPreferences = {}, expirySettings = DEFAULT_EXPIRY_SETTINGS, options = {}) {
+    const { date, slot, servings = 2, avoid = [], expiringItems = [] } = options;
+
+    try {
+      const prompt = `
+        You are a professional chef and nutritionist. Suggest one ${slot} for ${date}.
+
+        Available Inventory:
+        ${this.formatInventoryForPrompt(inventory, expirySettings)}
+
+        ${this.formatMealPlanContext(userPreferences, servings, expiringItems)}
+
+        Requirements:
+        1. Prefer ingredients that expire soon
+        2. Build the meal mostly from the inventory
+        3. Don't suggest any of these, they are already planned: ${avoid.join(', ') || 'none'}
+
+        Return ONLY a JSON object with exactly this structure:
+        {
+          "name": "Recipe Name",
+          "description": "Brief appetizing description in 10-15 words",
+          "mainIngredients": ["ingredient1", "ingredient2", "ingredient3"],
+          "cookingTime": "30 minutes",
+          "difficulty": "Easy",
+          "cuisine": "Cuisine type"
+        }
+
+        IMPORTANT: Return ONLY valid JSON. No markdown formatting, no extra text.
+      `;
+
+      return await generateStructured(this.llm, prompt, validateMealResponse, { label: 'meal' });
+    } catch (error) {
+      if (error instanceof StructuredOutputError) throw error;
+      console.error('💥 Error generating meal:', error);
+      throw new StructuredOutputError('generation_failed', 'Could not generate meal', [error.message]);
+    }
+  }
+
+  // Generate quantified ingredients and steps for a recipe being saved.
+  // Throws a StructuredOutputError when no valid details could be produced.
+  async generateRecipeDetails(recipe) {
+    const { name, description, mainIngredients = [], servings = 2 } = recipe;
+
     try {
-      const { currentRecipe, availableIngredients, conversationHistory } = context;
+      const prompt = `
+        You are a professional chef. Write out the full recipe for "${name}" serving ${servings}.
+        ${description ? `Description: ${description}` : ''}
+        ${mainIngredients.length ? `Main ingredients: ${mainIngredients.join(', ')}` : ''}
+
+        Return ONLY a JSON object with exactly this structure:
+        {
+          "ingredients": [
+            { "name": "ingredient", "amount": 200, "unit": "g", "notes": "diced" }
+          ],
+          "steps": ["Step one", "Step two"]
+        }
+
+        Use metric units where possible. Leave out "amount" and "unit" for things like "salt to taste".
+        IMPORTANT: Return ONLY valid JSON. No markdown formatting, no extra text.
+      `;
+
+      return await generateStructured(this.llm, prompt, validateRecipeDetailsResponse, { label: 'recipe details' });
+    } catch (error) {
+      if (error instanceof StructuredOutputError) throw error;
+      console.error('💥 Error generating recipe details:', error);
+      throw new StructuredOutputError('generation_failed', 'Could not generate recipe details', [error.message]);
+    }
+  }
 
-      // Retrieve relevant context from PDF
+  // Generate structured step-by-step instructions for a recipe. Throws a
+  // StructuredOutputError when the model's answer doesn't validate.
+  async generateRecipeInstructions(recipeName, availableIngredients = [], request = '', { userId } = {}) {
+    try {
       let ragContext = '';
       if (this.ragService.initialized) {
-        const relevantChunks = await this.ragService.getContext(message, 3);
+        const relevantChunks = await this.ragService.getContext(`how to cook ${recipeName}`, 2, { userId });
         ragContext = this.ragService.formatContextForPrompt(relevantChunks);
       }
 
-      let prompt = `
+      const prompt = `
+        You are a professional chef. Write the complete recipe for "${recipeName}".
+
+        ${ragContext ? `KNOWLEDGE BASE:\n${ragContext}\n\n` : ''}
+
+        Available ingredients: ${availableIngredients.join(', ') || 'none listed'}
+        ${request ? `User request: ${request}` : ''}
+
+        Requirements:
+        1. Use the available ingredients where they fit
+        2. Give every ingredient an amount and unit, using null for things like "salt to taste"
+        3. One action per step, with how long it takes in minutes
+        4. Add a timer to steps that involve waiting (simmering, baking, resting)
+        5. List the equipment needed
+
+        Return ONLY a JSON object with exactly this structure:
+        ${JSON.stringify(RECIPE_INSTRUCTIONS_EXAMPLE, null, 2)}
+
+        IMPORTANT: Return ONLY valid JSON. No markdown formatting, no extra text.
+      `;
+
+      return await generateStructured(this.llm, prompt, data => {
+        const { recipe, errors } = validateRecipeInstructions(data);
+        return { value: recipe, errors };
+      }, { label: 'recipe instructions' });
+    } catch (error) {
+      if (error instanceof StructuredOutputError) throw error;
+      console.error('💥 Error generating recipe instructions:', error);
+      throw new StructuredOutputError('generation_failed', 'Could not generate recipe instructions', [error.message]);
+    }
+  }
+
+  // Handle chat with RAG-enhanced responses
+  async handleChatMessage(message, context = {}) {
+    try {
+      const prompt = await this.buildChatPrompt(message, context);
+      return await this.llm.generateText(prompt);
+    } catch (error) {
+      console.error('Error handling chat message:', error);
+      throw new Error('Failed to process chat message');
+    }
+  }
+
+  // Same reply as handleChatMessage, yielded in pieces as the model writes
+  // it. Aborting `signal` stops generation.
+  async *streamChatMessage(message, context = {}, { signal } = {}) {
+    const prompt = await this.buildChatPrompt(message, context);
+    yield* this.llm.generateStream(prompt, { signal });
+  }
+
+  async buildChatPrompt(message, context = {}) {
+    const { currentRecipe, availableIngredients, conversationHistory, userId } = context;
+
+    // Retrieve relevant context from the knowledge base
+    let ragContext = '';
+    if (this.ragService.initialized) {
+      const relevantChunks = await this.ragService.getContext(message, 3, { userId });
+      ragContext = this.ragService.formatContextForPrompt(relevantChunks);
+    }
+
+    return `
         You are a friendly, expert chef with access to specialized food knowledge.
 
         ${ragContext ? `KNOWLEDGE BASE:\n${ragContext}\n\n` : ''}
@@ -140,7 +373,8 @@ class GeminiService {
         Current Context:
         ${currentRecipe ? `- Working on: ${currentRecipe}` : ''}
         ${availableIngredients?.length ? `- Available: ${availableIngredients.join(', ')}` : ''}
-        ${conversationHistory ? `- Previous chat: ${conversationHistory}` : ''}
+
+        ${conversationHistory ? `CONVERSATION SO FAR:\n${conversationHistory}\n` : ''}
 
         User's message: "${message}"
 
@@ -150,27 +384,49 @@ class GeminiService {
         3. Provide specific, actionable advice
         4. If asked about topics in the knowledge base, draw from that context
         5. Keep responses concise but informative
+        6. Stay consistent with the conversation so far and don't repeat earlier answers
 
         Provide your response:
       `;
+  }
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+  // Condense older chat turns so long conversations still fit in the prompt
+  async summarizeConversation(messages, previousSummary = '') {
+    try {
+      const prompt = `
+        Summarize the following cooking conversation between a user and a chef assistant.
+        Keep the recipe being discussed, ingredient substitutions, user constraints and any
+        decisions that were made. Use at most 8 short bullet points.
+
+        ${previousSummary ? `EARLIER SUMMARY:\n${previousSummary}\n` : ''}
+        CONVERSATION:
+        ${this.formatConversationHistory(messages)}
+      `;
+
+      return (await this.llm.generateText(prompt)).trim();
     } catch (error) {
-      console.error('Error handling chat message:', error);
-      throw new Error('Failed to process chat message');
+      console.error('Error summarizing conversation:', error);
+      throw new Error('Failed to summarize conversation');
     }
   }
 
-  // New method: Ask questions directly about the PDF content
-  async askAboutKnowledge(question) {
+  // Ask questions directly about the knowledge base documents of
+  // `options.userId`, optionally only the ones in `options.documentIds`.
+  // Returns { found, answer, chunks };
+  // when no chunk clears KNOWLEDGE_MIN_SIMILARITY the model isn't asked at
+  // all, so it can't make an answer up.
+  async askAboutKnowledge(question, options = {}) {
     try {
       if (!this.ragService.initialized) {
-        return "Knowledge base is not available at the moment.";
+        return { found: false, answer: 'Knowledge base is not available at the moment.', chunks: [] };
+      }
+
+      const chunks = await this.ragService.getContext(question, 3, options);
+      const relevantChunks = chunks.filter(chunk => Number(chunk.similarity) >= KNOWLEDGE_MIN_SIMILARITY);
+      if (relevantChunks.length === 0) {
+        return { found: false, answer: NOT_IN_KNOWLEDGE_BASE, chunks };
       }
 
-      const relevantChunks = await this.ragService.getContext(question, 3);
       const contextText = this.ragService.formatContextForPrompt(relevantChunks);
 
       const prompt = `
@@ -181,12 +437,11 @@ class GeminiService {
 
         QUESTION: ${question}
 
-        Provide a clear, accurate answer based on the context above. If the context doesn't contain relevant information, say so.
+        Provide a clear, accurate answer based on the context above and name the sources (document and page) you used. If the context doesn't contain relevant information, say so.
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+      const answer = await this.llm.generateText(prompt);
+      return { found: true, answer, chunks: relevantChunks };
     } catch (error) {
       console.error('Error querying knowledge base:', error);
       throw new Error('Failed to query knowledge base');
@@ -194,28 +449,65 @@ class GeminiService {
   }
 
   // Helper methods
-  formatInventoryForPrompt(inventory) {
+  formatInventoryForPrompt(inventory, expirySettings = DEFAULT_EXPIRY_SETTINGS) {
     let inventoryText = '';
     Object.entries(inventory).forEach(([category, items]) => {
       inventoryText += `\n${category.toUpperCase()}:\n`;
       items.forEach(item => {
-        const expirationStatus = this.getExpirationStatus(item.expirationDate);
+        const expirationStatus = this.getExpirationStatus(item.expirationDate, category, expirySettings);
         inventoryText += `- ${item.name} (${item.quantity.amount} ${item.quantity.unit})${expirationStatus}\n`;
       });
     });
     return inventoryText;
   }
 
-  getExpirationStatus(expirationDate) {
-    const today = new Date();
-    const expDate = new Date(expirationDate);
-    const daysUntilExpiry = Math.ceil((expDate - today) / (1000 * 60 * 60 * 24));
+  formatMealPlanContext(userPreferences, servings, expiringItems = [], lockedMeals = []) {
+    const expiring = expiringItems.length
+      ? expiringItems.map(item => `- ${item.name} (${item.daysLeft} days left)`).join('\n')
+      : '- nothing urgent';
+    const locked = lockedMeals.length
+      ? `\nAlready planned (keep as is, don't repeat):\n${lockedMeals.map(meal => `- ${meal.date} ${meal.slot}: ${meal.name}`).join('\n')}\n`
+      : '';
+
+    return `
+        Use Up First (soonest first):
+        ${expiring}
+        ${locked}
+        User Preferences:
+        - Diet: ${userPreferences.diet || 'No specific diet'}
+        - Health Goals: ${userPreferences.healthGoals?.join(', ') || 'General health'}
+        - Cuisine Preferences: ${userPreferences.cuisinePreferences?.join(', ') || 'Any cuisine'}
+        - Skill Level: ${userPreferences.skillLevel || 'intermediate'}
+        - Servings per meal: ${servings}
+    `;
+  }
+
+  formatConversationHistory(messages = []) {
+    return messages
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Chef'}: ${msg.content}`)
+      .join('\n');
+  }
+
+  getExpirationStatus(expirationDate, category, expirySettings = DEFAULT_EXPIRY_SETTINGS) {
+    const daysUntilExpiry = getDaysUntilExpiry(expirationDate);
 
     if (daysUntilExpiry < 0) return ' [EXPIRED]';
-    if (daysUntilExpiry <= 2) return ' [EXPIRES SOON]';
-    if (daysUntilExpiry <= 7) return ' [USE WITHIN WEEK]';
+    if (daysUntilExpiry <= getExpiringSoonDays(expirySettings, category)) return ' [EXPIRES SOON]';
+    if (daysUntilExpiry <= expirySettings.useWithinDays) return ` [USE WITHIN ${expirySettings.useWithinDays} DAYS]`;
     return '';
   }
 }
 
+GeminiService.KNOWLEDGE_MIN_SIMILARITY = KNOWLEDGE_MIN_SIMILARITY;
+
+let sharedService = null;
+
+// The instance controllers use, so the RAG index is loaded once per process
+GeminiService.getShared = () => {
+  if (!sharedService) {
+    sharedService = new GeminiService();
+  }
+  return sharedService;
+};
+
 module.exports = GeminiService;
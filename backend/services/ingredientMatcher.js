@@ -0,0 +1,242 @@
+// /backend/services/ingredientMatcher.js
+// Matching recipe ingredients to pantry items. Names are reduced to a
+// canonical form (singular words, one name per ingredient, no preparation
+// words) and compared word by word, so "tomatoes" matches "cherry tomato"
+// while "egg" no longer matches "eggplant". Each match has a confidence
+// between 0 and 1. With INGREDIENT_EMBEDDINGS=true, ingredients with no match
+// by name are compared by embedding similarity as well.
+
+// Matches below this confidence are ignored
+const MIN_CONFIDENCE = 0.6;
+
+const EMBEDDINGS_ENABLED = process.env.INGREDIENT_EMBEDDINGS === 'true';
+const EMBEDDING_MIN_SIMILARITY = Number(process.env.INGREDIENT_EMBEDDING_MIN_SIMILARITY) || 0.85;
+
+// Canonical name for each group of names meaning the same ingredient. Names
+// are written singular, as they are after singularize().
+const SYNONYMS = {
+  cilantro: ['coriander', 'coriander leaf', 'chinese parsley'],
+  'coriander seed': ['ground coriander', 'coriander powder'],
+  scallion: ['green onion', 'spring onion'],
+  eggplant: ['aubergine', 'brinjal'],
+  zucchini: ['courgette'],
+  'bell pepper': ['capsicum', 'sweet pepper'],
+  chickpea: ['garbanzo bean', 'garbanzo', 'chana'],
+  shrimp: ['prawn'],
+  'ground beef': ['minced beef', 'beef mince'],
+  chili: ['chilli', 'chile'],
+  yogurt: ['yoghurt', 'curd'],
+  arugula: ['rocket'],
+  beet: ['beetroot'],
+  okra: ['ladyfinger', 'lady finger', 'bhindi'],
+  'snow pea': ['mangetout', 'mange tout'],
+  cornstarch: ['corn starch', 'cornflour', 'corn flour'],
+  'all purpose flour': ['plain flour', 'maida'],
+  'powdered sugar': ['icing sugar', 'confectioners sugar'],
+  'heavy cream': ['double cream', 'whipping cream'],
+  'baking soda': ['bicarbonate of soda', 'bicarb soda']
+};
+
+// Words that describe preparation or size rather than the ingredient
+const DESCRIPTORS = new Set([
+  'fresh', 'freshly', 'chopped', 'finely', 'roughly', 'diced', 'sliced', 'minced',
+  'grated', 'crushed', 'peeled', 'ground', 'large', 'small', 'medium', 'ripe',
+  'organic', 'boneless', 'skinless', 'whole', 'raw', 'cooked', 'frozen', 'extra',
+  'virgin', 'salted', 'unsalted', 'of', 'a', 'some'
+]);
+
+// Words naming a product made from an ingredient: "chicken stock" is not
+// chicken, and "coconut milk" is not milk
+const PRODUCT_WORDS = new Set([
+  'stock', 'broth', 'sauce', 'paste', 'powder', 'oil', 'juice', 'milk', 'butter',
+  'cream', 'flour', 'vinegar', 'extract', 'syrup', 'jam', 'seed', 'flake', 'water',
+  'wine', 'noodle', 'bread', 'cake', 'soup', 'chip', 'cracker'
+]);
+
+// Head nouns that turn the words before them into another ingredient:
+// "cream cheese" is not cream and "garlic powder" is not garlic, while
+// "cheddar cheese" is still cheese
+const BLOCKING_HEADS = new Set(['cheese', 'powder', 'paste']);
+
+// Words that look plural but aren't, or don't follow the rules below
+const SINGULAR_EXCEPTIONS = {
+  leaves: 'leaf',
+  halves: 'half',
+  loaves: 'loaf',
+  molasses: 'molasses',
+  hummus: 'hummus',
+  couscous: 'couscous',
+  asparagus: 'asparagus',
+  swiss: 'swiss'
+};
+
+const singularize = (word) => {
+  if (SINGULAR_EXCEPTIONS[word]) return SINGULAR_EXCEPTIONS[word];
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+// Synonym phrases as word lists, longest first so "coriander leaf" wins over
+// "coriander". Canonical names are phrases too, so the "coriander" in
+// "coriander seed" is not read as cilantro.
+const SYNONYM_PHRASES = Object.entries(SYNONYMS)
+  .flatMap(([canonical, names]) => [canonical, ...names].map(name => ({ words: name.split(' '), canonical: canonical.split(' ') })))
+  .sort((a, b) => b.words.length - a.words.length);
+
+const replaceSynonyms = (words) => {
+  const result = [];
+  let i = 0;
+  while (i < words.length) {
+    const phrase = SYNONYM_PHRASES.find(entry =>
+      entry.words.every((word, offset) => words[i + offset] === word)
+    );
+    if (phrase) {
+      result.push(...phrase.canonical);
+      i += phrase.words.length;
+    } else {
+      result.push(words[i]);
+      i += 1;
+    }
+  }
+  return result;
+};
+
+// Canonical words of an ingredient name:
+// "2 Large Tomatoes (chopped)" -> ['tomato'], "Spring onions" -> ['scallion']
+const toWords = (name) => {
+  const words = String(name || '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+
+  const canonical = replaceSynonyms(words).filter(word => !DESCRIPTORS.has(word));
+  // A name made only of descriptors ("ground") keeps its words
+  return canonical.length > 0 ? canonical : words;
+};
+
+const normalizeIngredient = (name) => toWords(name).join(' ');
+
+// Confidence that two canonical word lists name the same ingredient. The
+// last word is the head noun ("cherry tomato" is a tomato).
+const scoreWords = (a, b) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.join(' ') === b.join(' ')) return 1;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const shorterHead = shorter[shorter.length - 1];
+  const longerHead = longer[longer.length - 1];
+  const contained = shorter.every(word => longer.includes(word));
+
+  if (contained) {
+    if (shorterHead === longerHead) {
+      // "tomato" and "cherry tomato", but not "milk" and "coconut milk"
+      return PRODUCT_WORDS.has(longerHead) ? 0.5 : 0.85;
+    }
+    // "chicken" and "chicken breast", but not "chicken" and "chicken stock"
+    // or "cream" and "cream cheese"
+    return PRODUCT_WORDS.has(longerHead) || BLOCKING_HEADS.has(longerHead) ? 0.3 : 0.8;
+  }
+
+  if (shorterHead === longerHead) {
+    // "red onion" and "white onion", but not "olive oil" and "sesame oil"
+    return PRODUCT_WORDS.has(longerHead) ? 0.3 : 0.65;
+  }
+
+  return 0;
+};
+
+const scoreMatch = (a, b) => scoreWords(toWords(a), toWords(b));
+
+const isMatch = (a, b, minConfidence = MIN_CONFIDENCE) => scoreMatch(a, b) >= minConfidence;
+
+// Items matching an ingredient, best first; items scoring the same keep
+// their order (e.g. soonest-expiring first)
+const findMatches = (name, items, { minConfidence = MIN_CONFIDENCE, getName = item => item.name } = {}) => {
+  const wanted = toWords(name);
+  return items
+    .map(item => ({ item, confidence: scoreWords(wanted, toWords(getName(item))) }))
+    .filter(match => match.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+// The best matching item and its confidence, or null
+const findBestMatch = (name, items, options) => findMatches(name, items, options)[0] || null;
+
+// Embeddings of canonical names, shared by all requests
+const embeddingCache = new Map();
+const MAX_CACHED_EMBEDDINGS = 2000;
+
+const getEmbedding = async (llm, name) => {
+  if (!embeddingCache.has(name)) {
+    if (embeddingCache.size >= MAX_CACHED_EMBEDDINGS) {
+      embeddingCache.clear();
+    }
+    embeddingCache.set(name, await llm.embed(name));
+  }
+  return embeddingCache.get(name);
+};
+
+const cosineSimilarity = (a, b) => {
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  return dot / ((Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB)) || 1);
+};
+
+// Best item for each name as { name, item, confidence, method }, with item
+// null when nothing matches. `method` is 'name', or 'embedding' when the
+// match came from embedding similarity (only with INGREDIENT_EMBEDDINGS and
+// an `llm` provider). Embedding failures are logged and leave names unmatched.
+const matchIngredients = async (names, items, { llm, minConfidence, getName = item => item.name } = {}) => {
+  const results = names.map(name => {
+    const match = findBestMatch(name, items, { minConfidence, getName });
+    return match
+      ? { name, item: match.item, confidence: match.confidence, method: 'name' }
+      : { name, item: null, confidence: 0, method: null };
+  });
+
+  const unmatched = results.filter(result => !result.item);
+  if (!EMBEDDINGS_ENABLED || !llm || unmatched.length === 0 || items.length === 0) {
+    return results;
+  }
+
+  try {
+    const itemVectors = await Promise.all(items.map(item => getEmbedding(llm, normalizeIngredient(getName(item)))));
+
+    for (const result of unmatched) {
+      const vector = await getEmbedding(llm, normalizeIngredient(result.name));
+      itemVectors.forEach((itemVector, i) => {
+        const similarity = cosineSimilarity(vector, itemVector);
+        if (similarity >= EMBEDDING_MIN_SIMILARITY && similarity > result.confidence) {
+          Object.assign(result, { item: items[i], confidence: Number(similarity.toFixed(3)), method: 'embedding' });
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Ingredient embedding match error:', error.message);
+  }
+
+  return results;
+};
+
+module.exports = {
+  MIN_CONFIDENCE,
+  SYNONYMS,
+  normalizeIngredient,
+  scoreMatch,
+  isMatch,
+  findMatches,
+  findBestMatch,
+  matchIngredients
+};
@@ -0,0 +1,82 @@
+// /backend/services/knowledgeIndexer.js
+// Background indexing for knowledge base uploads. Embedding a large PDF takes
+// minutes, so uploads are saved as 'pending' and answered straight away;
+// documents are then indexed one at a time. Documents left pending or
+// half-indexed by a restart are queued again by resumePendingIndexing.
+const KnowledgeDocument = require('../models/KnowledgeDocument');
+const GeminiService = require('./geminiService');
+
+const queue = [];
+// Ids queued or being indexed in this process
+const queued = new Set();
+let running = null;
+
+// Index one document and record the outcome on it
+const indexDocument = async ({ documentId, force }) => {
+  const { ragService } = GeminiService.getShared();
+
+  const document = await KnowledgeDocument.findById(documentId).select('+content');
+  if (!document) return;
+
+  document.status = 'indexing';
+  await document.save();
+
+  try {
+    const { key, pages, chunkCount } = await ragService.indexDocument(
+      { id: document._id, title: document.title, format: document.format, userId: document.userId },
+      document.content,
+      { force }
+    );
+    document.set({ status: 'indexed', error: undefined, indexKey: key, pages, chunkCount, indexedAt: new Date() });
+  } catch (error) {
+    console.error('Knowledge document indexing error:', error);
+    await ragService.removeDocument(document._id);
+    document.set({ status: 'failed', error: error.message, indexKey: undefined, chunkCount: 0 });
+  }
+
+  // Deleted while it was being indexed
+  if (!(await KnowledgeDocument.exists({ _id: documentId }))) {
+    await ragService.removeDocument(documentId);
+    return;
+  }
+  await document.save();
+};
+
+const processQueue = async () => {
+  while (queue.length > 0) {
+    const job = queue.shift();
+    try {
+      await indexDocument(job);
+    } catch (error) {
+      console.error('Knowledge indexing job error:', error);
+    } finally {
+      queued.delete(String(job.documentId));
+    }
+  }
+};
+
+// Queue a document for indexing; `force` re-embeds even when an index exists
+const enqueueIndexing = (documentId, { force = false } = {}) => {
+  const id = String(documentId);
+  if (queued.has(id)) return;
+
+  queued.add(id);
+  queue.push({ documentId: id, force });
+  if (!running) {
+    running = processQueue().finally(() => {
+      running = null;
+    });
+  }
+};
+
+// Queue a user's documents that are waiting for indexing but not queued
+// here, e.g. after a restart or on a serverless instance that was frozen
+const resumePendingIndexing = async (userId) => {
+  const documents = await KnowledgeDocument.find({ userId, status: { $in: ['pending', 'indexing'] } }).select('_id');
+  documents.forEach(document => enqueueIndexing(document._id));
+};
+
+module.exports = {
+  enqueueIndexing,
+  resumePendingIndexing
+};
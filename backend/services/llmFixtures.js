@@ -0,0 +1,128 @@
+// /backend/services/llmFixtures.js
+// Canned responses for the mock LLM provider. Each fixture recognizes one of
+// the prompts in geminiService.js and answers in the shape it asks for,
+// built from what the prompt contains (inventory names, dates, recipe name)
+// so results are deterministic but still relevant.
+const fs = require('fs');
+const { RECIPE_INSTRUCTIONS_EXAMPLE } = require('./recipeSchema');
+
+const DIFFICULTIES = ['Easy', 'Easy', 'Medium', 'Medium', 'Hard'];
+
+// Inventory lines look like "- Tomato (3 pieces) - expires in 2 days"
+const parseInventoryNames = (prompt) =>
+  [...prompt.matchAll(/^\s*- (.+?) \([\d.]+ [^)]*\)/gm)].map(match => match[1]);
+
+// Pick `count` names starting at `offset`, wrapping around
+const pickIngredients = (names, offset, count = 3) => {
+  if (names.length === 0) return ['rice', 'onion', 'garlic'].slice(0, count);
+  return Array.from({ length: Math.min(count, names.length) }, (_, i) => names[(offset + i) % names.length]);
+};
+
+const mockRecipe = (names, index, extra = {}) => {
+  const mainIngredients = pickIngredients(names, index);
+  return {
+    name: `${mainIngredients[0]} ${['Stir-Fry', 'Soup', 'Salad', 'Curry', 'Bake'][index % 5]}`,
+    description: `A simple dish built around ${mainIngredients.join(', ')} from your pantry.`,
+    mainIngredients,
+    cookingTime: `${20 + index * 10} minutes`,
+    difficulty: DIFFICULTIES[index % DIFFICULTIES.length],
+    cuisine: 'Home cooking',
+    ...extra
+  };
+};
+
+const quoted = (prompt, prefix) => {
+  const match = prompt.match(new RegExp(`${prefix} "([^"]+)"`));
+  return match ? match[1] : 'Mock Recipe';
+};
+
+const FIXTURES = [
+  {
+    name: 'recipe-recommendations',
+    match: /suggest 5 creative/i,
+    respond: (prompt) => {
+      const names = parseInventoryNames(prompt);
+      return JSON.stringify(Array.from({ length: 5 }, (_, index) =>
+        mockRecipe(names, index, { healthScore: 7, servings: 2 })));
+    }
+  },
+  {
+    name: 'meal-plan',
+    match: /Plan one meal for each of these slots/i,
+    respond: (prompt) => {
+      const names = parseInventoryNames(prompt);
+      const slots = [...prompt.matchAll(/^\s*- (\d{4}-\d{2}-\d{2}) ([a-z-]+)\s*$/gm)];
+      return JSON.stringify(slots.map(([, date, slot], index) =>
+        mockRecipe(names, index, { date, slot, name: `${mockRecipe(names, index).name} (${date} ${slot})` })));
+    }
+  },
+  {
+    name: 'single-meal',
+    match: /Suggest one ([a-z-]+) for (\d{4}-\d{2}-\d{2})/i,
+    respond: (prompt) => {
+      const [, slot, date] = prompt.match(/Suggest one ([a-z-]+) for (\d{4}-\d{2}-\d{2})/i);
+      const meal = mockRecipe(parseInventoryNames(prompt), 1);
+      return JSON.stringify({ ...meal, name: `${meal.name} (${date} ${slot}, new)` });
+    }
+  },
+  {
+    name: 'recipe-details',
+    match: /Write out the full recipe for "/,
+    respond: () => JSON.stringify({
+      ingredients: RECIPE_INSTRUCTIONS_EXAMPLE.ingredients.map(({ name, amount, unit, notes }) => ({ name, amount, unit, notes })),
+      steps: RECIPE_INSTRUCTIONS_EXAMPLE.steps.map(step => step.instruction)
+    })
+  },
+  {
+    name: 'recipe-instructions',
+    match: /Write the complete recipe for "/,
+    respond: (prompt) => JSON.stringify({
+      ...RECIPE_INSTRUCTIONS_EXAMPLE,
+      name: quoted(prompt, 'Write the complete recipe for')
+    })
+  },
+  {
+    name: 'conversation-summary',
+    match: /Summarize the following cooking conversation/i,
+    respond: () => '- The user is cooking a recipe with the chef assistant (mock summary)'
+  },
+  {
+    name: 'knowledge-answer',
+    match: /from a food and nutrition knowledge base/i,
+    respond: (prompt) => {
+      const context = prompt.match(/\[Context 1\][^\n]*\n([\s\S]*?)(?:\n\n---|\n\s*QUESTION:)/);
+      return context
+        ? `According to the knowledge base: ${context[1].trim().slice(0, 300)}`
+        : 'The knowledge base does not contain information about this.';
+    }
+  },
+  {
+    name: 'chat',
+    match: /User's message: "/,
+    respond: (prompt) => {
+      const message = prompt.match(/User's message: "([\s\S]*?)"\s*\n/);
+      return `**Chef (mock):** Here's some help with "${message ? message[1] : ''}". Keep tasting as you go!`;
+    }
+  }
+];
+
+// Extra fixtures from a JSON file: [{ "match": "regex", "response": "text" or {...} }]
+const loadFileFixtures = (fixturesPath) => {
+  if (!fixturesPath) return [];
+  const entries = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+  return entries.map((entry, index) => ({
+    name: entry.name || `file-fixture-${index}`,
+    match: new RegExp(entry.match, 'i'),
+    respond: () => (typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response))
+  }));
+};
+
+const generateFixtureText = (prompt, fixturesPath) => {
+  const fixture = [...loadFileFixtures(fixturesPath), ...FIXTURES].find(entry => entry.match.test(prompt));
+  return fixture ? fixture.respond(prompt) : 'This is a mock response.';
+};
+
+module.exports = {
+  FIXTURES,
+  generateFixtureText
+};
@@ -0,0 +1,249 @@
+// /backend/services/llmProviders.js
+const axios = require('axios');
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const { generateFixtureText } = require('./llmFixtures');
+
+// Every provider implements:
+//   generateText(prompt, {json})     -> Promise<string>; `json` asks for JSON-only
+//                                       output where the provider supports it
+//   generateStream(prompt, {signal}) -> AsyncIterable<string>, the text in pieces
+//   embed(text)                      -> Promise<number[]>
+// and exposes a `name` for logging.
+
+// Split a streamed HTTP response body into lines
+async function* readLines(stream) {
+  stream.setEncoding('utf8');
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
+
+// Google Gemini (GEMINI_API_KEY, GEMINI_MODEL, GEMINI_EMBEDDING_MODEL)
+class GeminiProvider {
+  constructor({
+    apiKey = process.env.GEMINI_API_KEY,
+    model = process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp',
+    embeddingModel = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004'
+  } = {}) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not defined in environment variables');
+    }
+    this.name = 'gemini';
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = this.genAI.getGenerativeModel({ model });
+    this.embeddingModel = this.genAI.getGenerativeModel({ model: embeddingModel });
+  }
+
+  async generateText(prompt, { json = false } = {}) {
+    const result = await this.model.generateContent(json
+      ? {
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          generationConfig: { responseMimeType: 'application/json' }
+        }
+      : prompt);
+    const response = await result.response;
+    return response.text();
+  }
+
+  async *generateStream(prompt, { signal } = {}) {
+    const result = await this.model.generateContentStream(prompt, { signal });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+
+  async embed(text) {
+    const result = await this.embeddingModel.embedContent(text);
+    return result.embedding.values;
+  }
+}
+
+// Any server speaking the OpenAI chat completions and embeddings API
+// (OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_EMBEDDING_MODEL)
+class OpenAICompatibleProvider {
+  constructor({
+    apiKey = process.env.OPENAI_API_KEY,
+    baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    model = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+  } = {}) {
+    this.name = 'openai';
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+    this.headers = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      this.headers.Authorization = `Bearer ${apiKey}`;
+    }
+  }
+
+  // `json` is ignored: JSON mode only allows objects, and some prompts ask
+  // for arrays, so those rely on the prompt
+  async generateText(prompt) {
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }]
+    }, { headers: this.headers });
+    return response.data.choices?.[0]?.message?.content || '';
+  }
+
+  // Server-sent events, one "data: {json}" line per delta
+  async *generateStream(prompt, { signal } = {}) {
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: true
+    }, { headers: this.headers, responseType: 'stream', signal });
+
+    for await (const line of readLines(response.data)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  async embed(text) {
+    const response = await axios.post(`${this.baseUrl}/embeddings`, {
+      model: this.embeddingModel,
+      input: text
+    }, { headers: this.headers });
+    return response.data.data[0].embedding;
+  }
+}
+
+// A local Ollama server (OLLAMA_URL, OLLAMA_MODEL, OLLAMA_EMBEDDING_MODEL)
+class OllamaProvider {
+  constructor({
+    baseUrl = process.env.OLLAMA_URL || 'http://localhost:11434',
+    model = process.env.OLLAMA_MODEL || 'llama3.1',
+    embeddingModel = process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text'
+  } = {}) {
+    this.name = 'ollama';
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.model = model;
+    this.embeddingModel = embeddingModel;
+  }
+
+  async generateText(prompt, { json = false } = {}) {
+    const response = await axios.post(`${this.baseUrl}/api/generate`, {
+      model: this.model,
+      prompt,
+      stream: false,
+      ...(json && { format: 'json' })
+    });
+    return response.data.response || '';
+  }
+
+  // Newline-delimited JSON, one { response, done } object per line
+  async *generateStream(prompt, { signal } = {}) {
+    const response = await axios.post(`${this.baseUrl}/api/generate`, {
+      model: this.model,
+      prompt,
+      stream: true
+    }, { responseType: 'stream', signal });
+
+    for await (const line of readLines(response.data)) {
+      if (!line.trim()) continue;
+      const data = JSON.parse(line);
+      if (data.response) yield data.response;
+      if (data.done) return;
+    }
+  }
+
+  async embed(text) {
+    const response = await axios.post(`${this.baseUrl}/api/embeddings`, {
+      model: this.embeddingModel,
+      prompt: text
+    });
+    return response.data.embedding;
+  }
+}
+
+const MOCK_EMBEDDING_SIZE = 256;
+// Pause between streamed words, so clients see the reply arrive gradually
+const MOCK_STREAM_DELAY_MS = 20;
+
+// Deterministic offline provider for development and tests. Text comes from
+// the fixtures in llmFixtures.js (plus LLM_FIXTURES_PATH if set); embeddings
+// are hashed bags of words, so texts sharing words are similar.
+class MockProvider {
+  constructor({ fixturesPath = process.env.LLM_FIXTURES_PATH } = {}) {
+    this.name = 'mock';
+    this.fixturesPath = fixturesPath;
+    this.calls = [];
+  }
+
+  async generateText(prompt) {
+    this.calls.push({ type: 'text', prompt });
+    return generateFixtureText(prompt, this.fixturesPath);
+  }
+
+  async *generateStream(prompt, { signal } = {}) {
+    this.calls.push({ type: 'stream', prompt });
+    const words = generateFixtureText(prompt, this.fixturesPath).match(/\S+\s*/g) || [];
+    for (const word of words) {
+      if (signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      yield word;
+    }
+  }
+
+  async embed(text) {
+    this.calls.push({ type: 'embed', text });
+
+    const vector = new Array(MOCK_EMBEDDING_SIZE).fill(0);
+    const words = String(text).toLowerCase().match(/[a-z0-9]+/g) || [];
+    words.forEach(word => {
+      let hash = 0;
+      for (let i = 0; i < word.length; i++) {
+        hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+      }
+      vector[hash % MOCK_EMBEDDING_SIZE] += 1;
+    });
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / magnitude);
+  }
+}
+
+// Pick a provider from LLM_PROVIDER ('gemini', 'openai', 'ollama' or 'mock').
+// Without LLM_PROVIDER, Gemini is used when GEMINI_API_KEY is set and the
+// mock otherwise, so the server still starts without credentials.
+const createLlmProvider = (type = process.env.LLM_PROVIDER) => {
+  if (!type) {
+    if (process.env.GEMINI_API_KEY) {
+      type = 'gemini';
+    } else {
+      console.warn('⚠️ No LLM_PROVIDER or GEMINI_API_KEY set, using the mock LLM provider');
+      type = 'mock';
+    }
+  }
+
+  switch (type) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'ollama':
+      return new OllamaProvider();
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${type}"`);
+  }
+};
+
+module.exports = {
+  GeminiProvider,
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  MockProvider,
+  createLlmProvider
+};
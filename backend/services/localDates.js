@@ -0,0 +1,24 @@
+// /backend/services/localDates.js
+// Calendar days (YYYY-MM-DD) as the user sees them, in their timezone
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD of `date` in the given IANA timezone (UTC if it's not a valid zone)
+const toLocalDate = (date, timeZone) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC' }).format(date);
+  }
+};
+
+// The day `days` after (or before, if negative) a YYYY-MM-DD day
+const shiftDate = (day, days) =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+module.exports = {
+  DATE_PATTERN,
+  toLocalDate,
+  shiftDate
+};
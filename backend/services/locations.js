@@ -0,0 +1,78 @@
+// /backend/services/locations.js
+// Storage locations are either one of the built-in kinds (fridge, freezer,
+// pantry) or a user-defined Location. The API refers to both by a single
+// key: the kind for built-ins, the Location _id for custom ones.
+const mongoose = require('mongoose');
+const Item = require('../models/Item');
+const Location = require('../models/Location');
+const { STORAGE_LOCATIONS } = require('./shelfLife');
+
+const UNASSIGNED = 'unassigned';
+
+const BUILT_IN_LOCATIONS = STORAGE_LOCATIONS.map(kind => ({
+  key: kind,
+  name: kind.charAt(0).toUpperCase() + kind.slice(1),
+  kind,
+  custom: false
+}));
+
+// Group key for an item
+const getLocationKey = (item) => {
+  if (item.locationId) return String(item.locationId);
+  return item.storageLocation || UNASSIGNED;
+};
+
+// Custom locations are shared the same way as items
+const findUserLocations = (user) => Location.find(Item.scopeFor(user)).sort({ name: 1 });
+
+// Built-in plus the user's custom locations, as { key, name, kind, custom }
+const listLocations = async (user) => {
+  const custom = await findUserLocations(user);
+  return [
+    ...BUILT_IN_LOCATIONS,
+    ...custom.map(location => ({
+      key: String(location._id),
+      name: location.name,
+      kind: location.kind,
+      custom: true
+    }))
+  ];
+};
+
+// key -> display name, including items with no location
+const getLocationNames = async (user) => {
+  const locations = await listLocations(user);
+  const names = new Map(locations.map(location => [location.key, location.name]));
+  names.set(UNASSIGNED, 'Unassigned');
+  return names;
+};
+
+// Resolve a location key to the fields stored on an item (null if unknown)
+const resolveLocation = async (user, key) => {
+  if (STORAGE_LOCATIONS.includes(key)) {
+    return { storageLocation: key, locationId: null };
+  }
+  if (!mongoose.isValidObjectId(key)) return null;
+
+  const location = await Location.findOne({ _id: key, ...Item.scopeFor(user) });
+  return location ? { storageLocation: location.kind, locationId: location._id } : null;
+};
+
+// Mongo condition matching items in a location (null if the key is invalid)
+const buildLocationFilter = (key) => {
+  if (key === UNASSIGNED) return { storageLocation: null, locationId: null };
+  if (STORAGE_LOCATIONS.includes(key)) return { storageLocation: key, locationId: null };
+  if (mongoose.isValidObjectId(key)) return { locationId: new mongoose.Types.ObjectId(key) };
+  return null;
+};
+
+module.exports = {
+  UNASSIGNED,
+  BUILT_IN_LOCATIONS,
+  getLocationKey,
+  findUserLocations,
+  listLocations,
+  getLocationNames,
+  resolveLocation,
+  buildLocationFilter
+};
@@ -0,0 +1,87 @@
+// /backend/services/mealPlanner.js
+// Slots and expiry-first ordering for weekly meal plans. The meals
+// themselves come from GeminiService; this decides which days and slots
+// need one and moves meals that use up expiring items to the front.
+const { getDaysUntilExpiry } = require('./expirySettings');
+const { shiftDate } = require('./localDates');
+const { isMatch } = require('./ingredientMatcher');
+
+const PLAN_DAYS = 7;
+const DEFAULT_MEALS_PER_DAY = 3;
+
+const SLOTS_BY_MEAL_COUNT = {
+  1: ['dinner'],
+  2: ['lunch', 'dinner'],
+  3: ['breakfast', 'lunch', 'dinner'],
+  4: ['breakfast', 'lunch', 'snack', 'dinner'],
+  5: ['breakfast', 'morning-snack', 'lunch', 'snack', 'dinner']
+};
+
+// "3 meals/day" -> 3
+const parseMealFrequency = (mealFrequency) => {
+  const count = parseInt(String(mealFrequency || '').match(/\d+/)?.[0], 10);
+  return SLOTS_BY_MEAL_COUNT[count] ? count : DEFAULT_MEALS_PER_DAY;
+};
+
+const getPlanDays = (weekStart) =>
+  Array.from({ length: PLAN_DAYS }, (_, i) => shiftDate(weekStart, i));
+
+// Every { date, slot } the plan should fill, in calendar order
+const getPlanSlots = (weekStart, mealsPerDay) =>
+  getPlanDays(weekStart).flatMap(date =>
+    SLOTS_BY_MEAL_COUNT[mealsPerDay].map(slot => ({ date, slot }))
+  );
+
+// Items to use up while they're good, soonest first; expired items are left out
+const getExpiringItems = (inventory, expirySettings, now = new Date()) =>
+  inventory
+    .map(item => ({
+      name: item.name,
+      expirationDate: item.expirationDate,
+      daysLeft: getDaysUntilExpiry(item.expirationDate, now)
+    }))
+    .filter(item => item.daysLeft >= 0 && item.daysLeft <= expirySettings.useWithinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+// Whether any of a meal's ingredients matches a pantry item
+const usesItem = (meal, itemName) =>
+  (meal.mainIngredients || []).some(ingredient => isMatch(ingredient, itemName));
+
+// Names of the expiring items a meal uses up
+const findExpiringUsed = (meal, expiringItems) =>
+  expiringItems.filter(item => usesItem(meal, item.name)).map(item => item.name);
+
+// Days until the most urgent expiring item a meal uses; meals without one sort last
+const getUrgency = (meal, expiringItems) => {
+  const item = expiringItems.find(i => usesItem(meal, i.name));
+  return item ? item.daysLeft : Number.MAX_SAFE_INTEGER;
+};
+
+// Reorder unlocked meals within each slot so the ones using the
+// soonest-expiring items land on the earliest free days. Locked meals stay put.
+const prioritizeExpiring = (meals, expiringItems) => {
+  const bySlot = {};
+  meals.filter(meal => !meal.locked).forEach(meal => {
+    (bySlot[meal.slot] = bySlot[meal.slot] || []).push(meal);
+  });
+
+  Object.values(bySlot).forEach(slotMeals => {
+    const dates = slotMeals.map(meal => meal.date).sort();
+    slotMeals
+      .sort((a, b) => getUrgency(a, expiringItems) - getUrgency(b, expiringItems))
+      .forEach((meal, i) => { meal.date = dates[i]; });
+  });
+
+  return meals;
+};
+
+module.exports = {
+  PLAN_DAYS,
+  SLOTS_BY_MEAL_COUNT,
+  parseMealFrequency,
+  getPlanDays,
+  getPlanSlots,
+  getExpiringItems,
+  findExpiringUsed,
+  prioritizeExpiring
+};
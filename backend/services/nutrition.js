@@ -0,0 +1,181 @@
+// /backend/services/nutrition.js
+// Approximate nutrients per 100 g of common foods (raw/uncooked unless the
+// name says otherwise). Entries are matched against item names by keyword,
+// most specific first, like the shelf-life table. `unitWeight` is the weight
+// in grams of one piece, used to scale items counted in pieces.
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber'];
+
+const NUTRIENT_DATABASE = [
+  { keywords: ['peanut butter'], per100g: [588, 25, 20, 50, 6] },
+  { keywords: ['coconut milk'], per100g: [230, 2.3, 6, 24, 2.2] },
+  { keywords: ['ice cream', 'kulfi'], per100g: [207, 3.5, 24, 11, 0.7] },
+  { keywords: ['cream cheese'], per100g: [342, 6, 4, 34, 0] },
+  { keywords: ['instant noodle', 'maggi', 'ramen'], per100g: [450, 9, 60, 20, 2], unitWeight: 70 },
+  { keywords: ['sweet potato'], per100g: [86, 1.6, 20, 0.1, 3], unitWeight: 130 },
+  { keywords: ['buttermilk', 'chaas'], per100g: [40, 3.3, 4.8, 0.9, 0] },
+  { keywords: ['milk'], per100g: [61, 3.2, 4.8, 3.3, 0] },
+  { keywords: ['yogurt', 'yoghurt', 'curd', 'dahi'], per100g: [61, 3.5, 4.7, 3.3, 0] },
+  { keywords: ['paneer'], per100g: [265, 18.3, 1.2, 20.8, 0] },
+  { keywords: ['tofu'], per100g: [76, 8, 1.9, 4.8, 0.3] },
+  { keywords: ['cheese'], per100g: [402, 25, 1.3, 33, 0], unitWeight: 20 },
+  { keywords: ['ghee'], per100g: [900, 0, 0, 100, 0] },
+  { keywords: ['butter'], per100g: [717, 0.9, 0.1, 81, 0] },
+  { keywords: ['cream'], per100g: [340, 2.8, 2.8, 36, 0] },
+  { keywords: ['egg'], per100g: [143, 12.6, 0.7, 9.5, 0], unitWeight: 50 },
+  { keywords: ['chicken', 'turkey'], per100g: [120, 22.5, 0, 2.6, 0] },
+  { keywords: ['mince', 'ground beef', 'keema', 'beef'], per100g: [254, 17.2, 0, 20, 0] },
+  { keywords: ['mutton', 'lamb', 'pork'], per100g: [282, 16.6, 0, 23.4, 0] },
+  { keywords: ['salmon'], per100g: [208, 20, 0, 13, 0] },
+  { keywords: ['prawn', 'shrimp'], per100g: [85, 20, 0, 0.5, 0] },
+  { keywords: ['fish', 'tuna', 'cod'], per100g: [96, 20, 0, 1.5, 0] },
+  { keywords: ['bacon', 'ham', 'sausage', 'salami'], per100g: [300, 14, 1.5, 26, 0], unitWeight: 30 },
+  { keywords: ['bread', 'bun', 'pav'], per100g: [265, 9, 49, 3.2, 2.7], unitWeight: 30 },
+  { keywords: ['roti', 'chapati', 'tortilla', 'naan'], per100g: [297, 9.8, 46, 7.5, 4.9], unitWeight: 40 },
+  { keywords: ['rice'], per100g: [365, 7.1, 80, 0.7, 1.3] },
+  { keywords: ['pasta', 'spaghetti', 'macaroni', 'noodle'], per100g: [371, 13, 75, 1.5, 3.2] },
+  { keywords: ['oats', 'oatmeal'], per100g: [389, 16.9, 66, 6.9, 10.6] },
+  { keywords: ['flour', 'atta', 'maida', 'besan'], per100g: [340, 13, 72, 2.5, 10.7] },
+  { keywords: ['lentil', 'dal'], per100g: [352, 24.6, 63, 1.1, 10.7] },
+  { keywords: ['chickpea', 'chana', 'rajma', 'kidney bean', 'bean'], per100g: [364, 19, 61, 6, 17] },
+  { keywords: ['apple'], per100g: [52, 0.3, 14, 0.2, 2.4], unitWeight: 180 },
+  { keywords: ['banana'], per100g: [89, 1.1, 23, 0.3, 2.6], unitWeight: 120 },
+  { keywords: ['orange', 'mosambi'], per100g: [47, 0.9, 12, 0.1, 2.4], unitWeight: 130 },
+  { keywords: ['mango'], per100g: [60, 0.8, 15, 0.4, 1.6], unitWeight: 200 },
+  { keywords: ['avocado'], per100g: [160, 2, 8.5, 14.7, 6.7], unitWeight: 200 },
+  { keywords: ['strawberry', 'strawberries', 'berry', 'berries', 'blueberry', 'blueberries'], per100g: [32, 0.7, 7.7, 0.3, 2] },
+  { keywords: ['grape'], per100g: [69, 0.7, 18, 0.2, 0.9] },
+  { keywords: ['tomato', 'tomatoes'], per100g: [18, 0.9, 3.9, 0.2, 1.2], unitWeight: 120 },
+  { keywords: ['potato', 'potatoes'], per100g: [77, 2, 17, 0.1, 2.2], unitWeight: 170 },
+  { keywords: ['onion'], per100g: [40, 1.1, 9.3, 0.1, 1.7], unitWeight: 110 },
+  { keywords: ['garlic'], per100g: [149, 6.4, 33, 0.5, 2.1], unitWeight: 40 },
+  { keywords: ['carrot'], per100g: [41, 0.9, 10, 0.2, 2.8], unitWeight: 60 },
+  { keywords: ['cucumber'], per100g: [15, 0.7, 3.6, 0.1, 0.5], unitWeight: 300 },
+  { keywords: ['capsicum', 'bell pepper'], per100g: [31, 1, 6, 0.3, 2.1], unitWeight: 120 },
+  { keywords: ['spinach', 'palak', 'kale'], per100g: [23, 2.9, 3.6, 0.4, 2.2] },
+  { keywords: ['lettuce'], per100g: [15, 1.4, 2.9, 0.2, 1.3] },
+  { keywords: ['broccoli'], per100g: [34, 2.8, 7, 0.4, 2.6] },
+  { keywords: ['cauliflower', 'gobi'], per100g: [25, 1.9, 5, 0.3, 2] },
+  { keywords: ['cabbage'], per100g: [25, 1.3, 5.8, 0.1, 2.5] },
+  { keywords: ['peas', 'matar'], per100g: [81, 5.4, 14, 0.4, 5.7] },
+  { keywords: ['corn'], per100g: [86, 3.3, 19, 1.4, 2] },
+  { keywords: ['mushroom'], per100g: [22, 3.1, 3.3, 0.3, 1] },
+  { keywords: ['almond'], per100g: [579, 21, 22, 50, 12.5] },
+  { keywords: ['cashew'], per100g: [553, 18, 30, 44, 3.3] },
+  { keywords: ['walnut'], per100g: [654, 15, 14, 65, 6.7] },
+  { keywords: ['peanut'], per100g: [567, 25.8, 16, 49, 8.5] },
+  { keywords: ['chocolate'], per100g: [546, 4.9, 61, 31, 7] },
+  { keywords: ['biscuit', 'cookie'], per100g: [480, 6, 65, 22, 2] },
+  { keywords: ['chips', 'crisps'], per100g: [536, 7, 53, 35, 4.8] },
+  { keywords: ['juice'], per100g: [45, 0.7, 10.4, 0.2, 0.2] },
+  { keywords: ['cola', 'soda', 'soft drink'], per100g: [42, 0, 10.6, 0, 0] },
+  { keywords: ['jam'], per100g: [278, 0.4, 69, 0.1, 1] },
+  { keywords: ['ketchup'], per100g: [112, 1.7, 26, 0.3, 0.3] },
+  { keywords: ['honey'], per100g: [304, 0.3, 82, 0, 0.2] },
+  { keywords: ['sugar', 'jaggery'], per100g: [387, 0, 100, 0, 0] },
+  { keywords: ['oil'], per100g: [884, 0, 0, 100, 0] }
+];
+
+// Recommended daily intake for an average adult, and how each health goal
+// from the user's profile changes it. Goals are applied in order.
+const BASE_DAILY_TARGETS = { calories: 2000, protein: 50, carbs: 275, fat: 78, fiber: 28 };
+
+const GOAL_TARGETS = {
+  'weight loss': { calories: 1600, fiber: 30 },
+  'weight gain': { calories: 2500, protein: 70 },
+  'muscle building': { calories: 2300, protein: 100 },
+  'low sugar': { carbs: 200 },
+  'heart healthy': { fat: 60, fiber: 30 }
+};
+
+// Whether intake should reach a target (min), stay under it (max) or be
+// close to it (target)
+const TARGET_TYPES = { calories: 'target', protein: 'min', carbs: 'max', fat: 'max', fiber: 'min' };
+
+const emptyNutrients = () => Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, 0]));
+
+const round = (value) => Math.round(value * 10) / 10;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const matchesKeyword = (name, keyword) =>
+  new RegExp(`\\b${escapeRegex(keyword)}(?:s|es)?\\b`, 'i').test(name);
+
+// Nutrients per 100 g for an item name, or null when the database has no match
+const lookupNutrition = (name) => {
+  if (!name) return null;
+  const entry = NUTRIENT_DATABASE.find(e => e.keywords.some(keyword => matchesKeyword(name, keyword)));
+  if (!entry) return null;
+
+  return {
+    matched: entry.keywords.find(keyword => matchesKeyword(name, keyword)),
+    nutritionalInfo: Object.fromEntries(NUTRIENTS.map((nutrient, i) => [nutrient, entry.per100g[i]])),
+    unitWeight: entry.unitWeight ?? null
+  };
+};
+
+// Fill in nutritional info (and piece weight) on item data from the database
+const fillNutrition = (data, name = data.name) => {
+  const match = lookupNutrition(name);
+  if (!match) return;
+
+  data.nutritionalInfo = match.nutritionalInfo;
+  if (data.unitWeight == null) {
+    data.unitWeight = match.unitWeight;
+  }
+};
+
+const hasNutrition = (info) => Boolean(info) && NUTRIENTS.some(nutrient => info[nutrient] > 0);
+
+// Nutrients in `grams` of a food given its nutrients per 100 g
+const scaleNutrients = (per100g, grams) =>
+  Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, round((per100g?.[nutrient] || 0) * grams / 100)]));
+
+const addNutrients = (a, b) =>
+  Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, round((a[nutrient] || 0) + (b[nutrient] || 0))]));
+
+// Daily targets adjusted for the user's health goals
+const getDailyTargets = (healthGoals = []) =>
+  healthGoals.reduce(
+    (targets, goal) => ({ ...targets, ...GOAL_TARGETS[goal?.toLowerCase()] }),
+    { ...BASE_DAILY_TARGETS }
+  );
+
+// Compare intake with targets for a number of days. Status is 'under',
+// 'on-track' or 'over'; "target" nutrients are on track within 10%.
+const compareIntake = (intake, dailyTargets, days = 1) =>
+  Object.fromEntries(NUTRIENTS.map(nutrient => {
+    const target = dailyTargets[nutrient] * days;
+    const amount = intake[nutrient] || 0;
+    const ratio = target ? amount / target : 0;
+    const type = TARGET_TYPES[nutrient];
+
+    let status = 'on-track';
+    if (type === 'min' && ratio < 1) status = 'under';
+    if (type === 'max' && ratio > 1) status = 'over';
+    if (type === 'target' && ratio < 0.9) status = 'under';
+    if (type === 'target' && ratio > 1.1) status = 'over';
+
+    return [nutrient, {
+      intake: round(amount),
+      target,
+      percent: Math.round(ratio * 100),
+      type,
+      status
+    }];
+  }));
+
+module.exports = {
+  NUTRIENTS,
+  NUTRIENT_DATABASE,
+  BASE_DAILY_TARGETS,
+  GOAL_TARGETS,
+  emptyNutrients,
+  lookupNutrition,
+  hasNutrition,
+  fillNutrition,
+  scaleNutrients,
+  addNutrients,
+  getDailyTargets,
+  compareIntake
+};
@@ -0,0 +1,161 @@
+// /backend/services/productCatalog.js
+// Barcode lookups against the local Product catalog, plus the mapping from
+// Open Food Facts records (used by scripts/importProducts.js).
+const Product = require('../models/Product');
+const { normalizeUnit } = require('./unitConverter');
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+
+// barcode -> { product, expiresAt }; misses are cached too (product: null)
+const cache = new Map();
+
+// Open Food Facts category tags -> Item categories, checked in order so
+// packaging (frozen, canned) wins over what the food is
+const CATEGORY_TAGS = [
+  { category: 'frozen', tags: ['frozen-foods', 'frozen'] },
+  { category: 'canned', tags: ['canned-foods', 'canned'] },
+  { category: 'beverages', tags: ['beverages', 'drinks', 'waters', 'juices', 'sodas', 'teas', 'coffees'] },
+  { category: 'dairy', tags: ['dairies', 'milks', 'cheeses', 'yogurts', 'butters', 'creams', 'eggs'] },
+  { category: 'meat', tags: ['meats', 'poultries', 'fishes', 'seafood', 'sausages', 'hams'] },
+  { category: 'fruits', tags: ['fruits', 'fresh-fruits', 'dried-fruits'] },
+  { category: 'vegetables', tags: ['vegetables', 'fresh-vegetables', 'legumes'] },
+  { category: 'spices', tags: ['spices', 'herbs', 'condiments', 'salts'] },
+  { category: 'grains', tags: ['cereals-and-potatoes', 'cereals', 'breads', 'pastas', 'rices', 'flours', 'breakfast-cereals'] },
+  { category: 'pantry', tags: ['groceries', 'sauces', 'oils', 'sugars', 'spreads', 'snacks', 'sweet-snacks', 'salty-snacks', 'biscuits'] }
+];
+
+// Quantity units Open Food Facts uses that need scaling onto our units
+const QUANTITY_UNIT_SCALE = {
+  mg: { unit: 'g', factor: 0.001 },
+  cl: { unit: 'ml', factor: 10 },
+  dl: { unit: 'ml', factor: 100 },
+  'fl oz': { unit: 'ml', factor: 29.5735 }
+};
+
+// Digits only; UPC-A (12 digits) becomes EAN-13 so both scans hit one entry
+const normalizeBarcode = (code) => {
+  const digits = String(code || '').replace(/\D/g, '');
+  if (![8, 12, 13, 14].includes(digits.length)) return null;
+  return digits.length === 12 ? `0${digits}` : digits;
+};
+
+const mapCategory = (categoryTags = []) => {
+  const tags = categoryTags.map(tag => String(tag).replace(/^[a-z]{2}:/, ''));
+  const match = CATEGORY_TAGS.find(entry => entry.tags.some(tag => tags.includes(tag)));
+  return match ? match.category : 'other';
+};
+
+// "500 g", "1,5 L", "6 x 330 ml" -> { amount, unit }; multipacks become a
+// count of cans/bottles/packets when the packaging says so
+const parseQuantity = (text, packaging = '') => {
+  const match = String(text || '').toLowerCase()
+    .match(/(?:(\d+)\s*[x×]\s*)?(\d+(?:[.,]\d+)?)\s*(fl oz|mg|kg|g|cl|dl|ml|l|oz|lb)\b/);
+  if (!match) return { amount: 1, unit: 'pieces' };
+
+  const [, packCount, rawAmount, rawUnit] = match;
+  if (packCount) {
+    const pack = String(packaging).toLowerCase();
+    const unit = pack.includes('can') ? 'cans' : pack.includes('bottle') ? 'bottles' : 'packets';
+    return { amount: Number(packCount), unit };
+  }
+
+  const amount = Number(rawAmount.replace(',', '.'));
+  const scaled = QUANTITY_UNIT_SCALE[rawUnit];
+  if (scaled) {
+    return { amount: Math.round(amount * scaled.factor * 100) / 100, unit: scaled.unit };
+  }
+  return { amount, unit: normalizeUnit(rawUnit) || 'pieces' };
+};
+
+const toNumber = (value) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.round(number * 10) / 10 : 0;
+};
+
+// Map one Open Food Facts product record onto Product fields (null if unusable)
+const mapOpenFoodFactsProduct = (record) => {
+  const barcode = normalizeBarcode(record?.code);
+  const name = (record?.product_name || record?.generic_name || '').trim();
+  if (!barcode || !name) return null;
+
+  const nutriments = record.nutriments || {};
+  const categoryTags = Array.isArray(record.categories_tags)
+    ? record.categories_tags
+    : String(record.categories_tags || record.categories || '').split(',').map(tag => tag.trim().toLowerCase());
+
+  return {
+    barcode,
+    name,
+    brand: String(record.brands || '').split(',')[0].trim() || undefined,
+    category: mapCategory(categoryTags),
+    defaultQuantity: parseQuantity(record.quantity, record.packaging),
+    nutritionalInfo: {
+      calories: toNumber(nutriments['energy-kcal_100g'] ?? nutriments['energy-kcal']),
+      protein: toNumber(nutriments.proteins_100g),
+      carbs: toNumber(nutriments.carbohydrates_100g),
+      fat: toNumber(nutriments.fat_100g),
+      fiber: toNumber(nutriments.fiber_100g)
+    }
+  };
+};
+
+const cacheSet = (barcode, product) => {
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+  cache.set(barcode, { product, expiresAt: Date.now() + CACHE_TTL_MS });
+};
+
+// Find a product by barcode, using the in-memory cache first
+const lookupBarcode = async (code) => {
+  const barcode = normalizeBarcode(code);
+  if (!barcode) return null;
+
+  const cached = cache.get(barcode);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.product;
+  }
+
+  const product = await Product.findOne({ barcode }).lean();
+  cacheSet(barcode, product);
+  return product;
+};
+
+// Save a user's correction (or a product missing from the catalog)
+const saveCorrection = async (code, fields, userId) => {
+  const barcode = normalizeBarcode(code);
+  if (!barcode) return null;
+
+  const update = { source: 'user', correctedBy: userId, updatedAt: new Date() };
+  ['name', 'brand', 'category'].forEach(key => {
+    if (fields[key] !== undefined) update[key] = fields[key];
+  });
+  if (fields.defaultQuantity) {
+    update.defaultQuantity = fields.defaultQuantity;
+  }
+  Object.entries(fields.nutritionalInfo || {}).forEach(([key, value]) => {
+    update[`nutritionalInfo.${key}`] = value;
+  });
+
+  const product = await Product.findOneAndUpdate(
+    { barcode },
+    { $set: update, $setOnInsert: { barcode, createdAt: new Date() } },
+    { new: true, upsert: true, runValidators: true }
+  ).lean();
+
+  cacheSet(barcode, product);
+  return product;
+};
+
+const clearProductCache = () => cache.clear();
+
+module.exports = {
+  normalizeBarcode,
+  mapCategory,
+  parseQuantity,
+  mapOpenFoodFactsProduct,
+  lookupBarcode,
+  saveCorrection,
+  clearProductCache
+};
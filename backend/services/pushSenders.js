@@ -0,0 +1,95 @@
+// /backend/services/pushSenders.js
+const axios = require('axios');
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100; // Expo accepts at most 100 messages per request
+
+// Every sender implements `send(messages)` where a message is
+// { to, title, body, data } and resolves to one result per message:
+// { status: 'ok' | 'error', error?, details? }
+
+// Sends push notifications through the Expo push service
+class ExpoPushSender {
+  constructor({ accessToken = process.env.EXPO_ACCESS_TOKEN } = {}) {
+    this.accessToken = accessToken;
+  }
+
+  static isExpoPushToken(token) {
+    return typeof token === 'string' && /^Expo(nent)?PushToken\[.+\]$/.test(token);
+  }
+
+  async send(messages) {
+    const results = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE).map(message => ({
+        sound: 'default',
+        channelId: 'expiring-items',
+        ...message
+      }));
+
+      const headers = {
+        Accept: 'application/json',
+        'Content-Type': 'application/json'
+      };
+      if (this.accessToken) {
+        headers.Authorization = `Bearer ${this.accessToken}`;
+      }
+
+      try {
+        const response = await axios.post(EXPO_PUSH_URL, batch, { headers });
+        const tickets = response.data?.data || [];
+        batch.forEach((_, index) => {
+          const ticket = tickets[index] || { status: 'error', message: 'Missing ticket' };
+          results.push({
+            status: ticket.status,
+            error: ticket.message,
+            details: ticket.details
+          });
+        });
+      } catch (error) {
+        console.error('Expo push request failed:', error.message);
+        batch.forEach(() => results.push({ status: 'error', error: error.message }));
+      }
+    }
+
+    return results;
+  }
+}
+
+// Records messages instead of sending them (local development and tests)
+class LocalPushSender {
+  constructor() {
+    this.sent = [];
+  }
+
+  async send(messages) {
+    messages.forEach(message => {
+      console.log(`📨 [local push] ${message.to}: ${message.title} - ${message.body}`);
+      this.sent.push({ ...message, sentAt: new Date() });
+    });
+    return messages.map(() => ({ status: 'ok' }));
+  }
+
+  clear() {
+    this.sent = [];
+  }
+}
+
+// Pick a sender from PUSH_SENDER ('expo' by default, or 'local')
+const createPushSender = (type = process.env.PUSH_SENDER || 'expo') => {
+  switch (type) {
+    case 'local':
+      return new LocalPushSender();
+    case 'expo':
+      return new ExpoPushSender();
+    default:
+      throw new Error(`Unknown PUSH_SENDER "${type}"`);
+  }
+};
+
+module.exports = {
+  ExpoPushSender,
+  LocalPushSender,
+  createPushSender
+};
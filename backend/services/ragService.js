@@ -1,65 +1,329 @@
 // /backend/services/ragService.js
 const fs = require('fs').promises;
 const path = require('path');
+const crypto = require('crypto');
+const mongoose = require('mongoose');
 const pdf = require('pdf-parse');
-const { GoogleGenerativeAI } = require('@google/generative-ai');
+const { createLlmProvider } = require('./llmProviders');
 
-class RAGService {
-  constructor() {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not defined');
+// Bump when chunking changes so existing indexes are rebuilt
+const INDEX_VERSION = 2;
+
+// How often searches check the knowledge base for documents added or removed
+// through other server instances. This instance's own changes apply at once.
+const SYNC_INTERVAL_MS = (Number(process.env.RAG_SYNC_INTERVAL_SECONDS) || 60) * 1000;
+
+// faiss-node is a native module, so load it only when an index is needed.
+// null when it can't be loaded; searches then use BruteForceIndex.
+let faiss;
+const loadFaiss = () => {
+  if (faiss === undefined) {
+    try {
+      faiss = require('faiss-node');
+    } catch (error) {
+      console.error('⚠️ faiss-node could not be loaded, using brute-force search:', error.message);
+      faiss = null;
+    }
+  }
+  return faiss;
+};
+
+// Exact inner-product search comparing the query with every vector; the
+// same results as faiss's IndexFlatIP, just slower on large indexes
+class BruteForceIndex {
+  constructor(dimensions) {
+    this.dimensions = dimensions;
+    this.vectors = [];
+  }
+
+  add(values) {
+    for (let i = 0; i < values.length; i += this.dimensions) {
+      this.vectors.push(values.slice(i, i + this.dimensions));
     }
-    this.genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    this.embeddingModel = this.genAI.getGenerativeModel({ model: 'text-embedding-004' });
+  }
 
-    // Store chunks and embeddings in memory (use a proper vector DB for production)
-    this.documentChunks = [];
+  ntotal() {
+    return this.vectors.length;
+  }
+
+  search(query, k) {
+    const best = this.vectors
+      .map((vector, label) => ({
+        label,
+        distance: vector.reduce((sum, value, i) => sum + value * query[i], 0)
+      }))
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, k);
+
+    return { labels: best.map(match => match.label), distances: best.map(match => match.distance) };
+  }
+}
+
+// Search index over normalized embeddings
+const createVectorIndex = (embeddings) => {
+  const dimensions = embeddings[0].length;
+  const faissModule = loadFaiss();
+  const index = faissModule ? new faissModule.IndexFlatIP(dimensions) : new BruteForceIndex(dimensions);
+  index.add(embeddings.flat());
+  return index;
+};
+
+// Scale to unit length so inner product equals cosine similarity
+const normalize = (vector) => {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / magnitude);
+};
+
+// Shipped with the app and always part of the knowledge base
+const BUILT_IN_DOCUMENT = {
+  id: 'goodfood',
+  title: 'Good Food',
+  filename: 'goodfood.pdf',
+  format: 'pdf',
+  path: path.join(__dirname, 'goodfood.pdf')
+};
+
+// Same text extraction as pdf-parse's default, but keeping each page apart
+const renderPage = async (pageData, pages) => {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY;
+  let text = '';
+  for (const item of textContent.items) {
+    text += (lastY === item.transform[5] || !lastY) ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  pages.push({ page: pageData.pageNumber, text });
+  return text;
+};
+
+class RAGService {
+  // `llm` is any provider from llmProviders.js; only embed() is used here
+  constructor(llm = createLlmProvider()) {
+    this.llm = llm;
+
+    // Searchable documents by id: { id, title, userId, key, index, chunks }.
+    // userId is the uploader, null for the built-in PDF.
+    this.documents = new Map();
     this.initialized = false;
+    this.syncing = null;
+    this.lastSyncedAt = 0;
   }
 
-  // Initialize RAG by processing the PDF
-  async initialize(pdfPath) {
-    try {
-      console.log('🔄 Initializing RAG with PDF:', pdfPath);
+  // Load the built-in PDF and every indexed document from the knowledge
+  // base. Chunks and embeddings are stored in the database, keyed by a hash
+  // of the document and the provider, and only rebuilt when either changes.
+  async initialize(pdfPath = BUILT_IN_DOCUMENT.path) {
+    console.log('🔄 Initializing RAG with PDF:', pdfPath);
 
-      // Read and parse PDF
+    try {
       const dataBuffer = await fs.readFile(pdfPath);
-      const pdfData = await pdf(dataBuffer);
-
-      console.log('📄 PDF extracted, pages:', pdfData.numpages);
-
-      // Split text into chunks
-      const chunks = this.splitIntoChunks(pdfData.text, 1000, 200);
-      console.log('✂️ Created chunks:', chunks.length);
-
-      // Generate embeddings for each chunk
-      for (let i = 0; i < chunks.length; i++) {
-        const embedding = await this.generateEmbedding(chunks[i]);
-        this.documentChunks.push({
-          id: i,
-          text: chunks[i],
-          embedding: embedding
-        });
-
-        // Rate limiting - wait a bit between requests
-        if (i < chunks.length - 1) {
-          await this.sleep(100);
+      await this.indexDocument({ ...BUILT_IN_DOCUMENT, path: pdfPath }, dataBuffer);
+    } catch (error) {
+      // Uploaded documents can still be searched without the built-in PDF
+      console.error('❌ Error loading built-in PDF:', error);
+    }
+
+    await this.syncDocuments();
+    this.initialized = true;
+    console.log('✅ RAG initialization complete, documents:', this.documents.size);
+  }
+
+  // Make `document` ({ id, title, format, userId }) searchable, loading its
+  // stored index or building one. `force` re-embeds even when an index exists.
+  async indexDocument(document, dataBuffer, { force = false } = {}) {
+    const id = String(document.id);
+    const key = this.getIndexKey(dataBuffer);
+
+    let stored = force ? null : await this.loadIndex(id, key);
+    if (stored) {
+      console.log('📦 Loaded stored RAG index:', document.title);
+    } else {
+      stored = await this.buildIndex(document, dataBuffer);
+      await this.saveIndex(id, key, stored);
+    }
+
+    this.documents.set(id, {
+      id,
+      title: document.title,
+      userId: document.userId ? String(document.userId) : null,
+      key,
+      index: createVectorIndex(stored.embeddings),
+      chunks: stored.chunks
+    });
+    return { key, pages: stored.pages, chunkCount: stored.chunks.length };
+  }
+
+  // Stop searching a document and delete its stored index
+  async removeDocument(documentId) {
+    const id = String(documentId);
+    this.documents.delete(id);
+    if (!this.hasDatabase()) return;
+
+    const KnowledgeIndex = require('../models/KnowledgeIndex');
+    const KnowledgeChunk = require('../models/KnowledgeChunk');
+    await KnowledgeIndex.deleteOne({ documentId: id });
+    await KnowledgeChunk.deleteMany({ documentId: id });
+  }
+
+  // Bring uploaded documents in line with the knowledge base collection, so
+  // uploads and deletions made through any server instance are picked up
+  async syncDocuments() {
+    if (!this.syncing) {
+      this.syncing = this.loadUploadedDocuments().finally(() => {
+        this.syncing = null;
+        this.lastSyncedAt = Date.now();
+      });
+    }
+    return this.syncing;
+  }
+
+  // Whether a database connection is open or being opened. Without one
+  // (e.g. in tests) indexes are only kept in memory.
+  hasDatabase() {
+    return mongoose.connection.readyState !== 0;
+  }
+
+  async loadUploadedDocuments() {
+    if (!this.hasDatabase()) return;
+
+    // Required here so the service can be used without a database
+    const KnowledgeDocument = require('../models/KnowledgeDocument');
+
+    try {
+      const documents = await KnowledgeDocument.find({ status: 'indexed' })
+        .select('userId title format indexKey');
+      const ids = new Set(documents.map(document => String(document._id)));
+
+      for (const id of this.documents.keys()) {
+        if (id !== BUILT_IN_DOCUMENT.id && !ids.has(id)) {
+          this.documents.delete(id);
         }
       }
 
-      this.initialized = true;
-      console.log('✅ RAG initialization complete');
+      for (const document of documents) {
+        const id = String(document._id);
+        if (this.documents.get(id)?.key === document.indexKey) continue;
 
+        const { content } = await KnowledgeDocument.findById(id).select('+content');
+        await this.indexDocument({ id, title: document.title, format: document.format, userId: document.userId }, content);
+      }
     } catch (error) {
-      console.error('❌ Error initializing RAG:', error);
-      throw error;
+      // Keep searching whatever is already loaded
+      console.error('Error syncing knowledge base documents:', error);
+    }
+  }
+
+  getIndexKey(dataBuffer) {
+    return crypto.createHash('sha256')
+      .update(dataBuffer)
+      .update(`${this.llm.name}:${INDEX_VERSION}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  // Load a stored index as { pages, chunks, embeddings }, or null when
+  // there is none for this version of the document
+  async loadIndex(documentId, key) {
+    if (!this.hasDatabase()) return null;
+
+    const KnowledgeIndex = require('../models/KnowledgeIndex');
+    const KnowledgeChunk = require('../models/KnowledgeChunk');
+
+    try {
+      const header = await KnowledgeIndex.findOne({ documentId, indexKey: key });
+      if (!header) return null;
+
+      const stored = await KnowledgeChunk.find({ documentId, indexKey: key }).sort({ chunkId: 1 }).lean();
+      if (stored.length === 0 || stored.length !== header.chunkCount) return null;
+
+      return {
+        pages: header.pages,
+        chunks: stored.map(chunk => ({ id: chunk.chunkId, page: chunk.page, text: chunk.text })),
+        embeddings: stored.map(chunk => chunk.embedding)
+      };
+    } catch (error) {
+      console.error('Error loading stored RAG index:', error);
+      return null;
+    }
+  }
+
+  // Store a document's chunks and embeddings, replacing any older index.
+  // The header goes last, so a half-written index is never loaded.
+  async saveIndex(documentId, key, { pages, chunks, embeddings }) {
+    if (!this.hasDatabase()) return;
+
+    const KnowledgeIndex = require('../models/KnowledgeIndex');
+    const KnowledgeChunk = require('../models/KnowledgeChunk');
+
+    try {
+      await KnowledgeIndex.deleteOne({ documentId });
+      await KnowledgeChunk.deleteMany({ documentId });
+      await KnowledgeChunk.insertMany(chunks.map((chunk, i) => ({
+        documentId,
+        indexKey: key,
+        chunkId: chunk.id,
+        page: chunk.page,
+        text: chunk.text,
+        embedding: embeddings[i]
+      })));
+      await KnowledgeIndex.create({
+        documentId,
+        indexKey: key,
+        provider: this.llm.name,
+        dimensions: embeddings[0].length,
+        pages,
+        chunkCount: chunks.length
+      });
+      console.log('💾 Saved RAG index:', documentId);
+    } catch (error) {
+      // The index still works from memory; it is rebuilt on the next start
+      console.error('⚠️ Could not store RAG index:', error.message);
+    }
+  }
+
+  // Split a document into pages of text. Markdown and plain text have no
+  // pages, so they come back as a single section with `page: null`.
+  async extractPages(dataBuffer, format) {
+    if (format !== 'pdf') {
+      return { pages: null, sections: [{ page: null, text: dataBuffer.toString('utf8') }] };
+    }
+
+    const sections = [];
+    const pdfData = await pdf(dataBuffer, { pagerender: pageData => renderPage(pageData, sections) });
+    console.log('📄 PDF extracted, pages:', pdfData.numpages);
+
+    return { pages: pdfData.numpages, sections: sections.sort((a, b) => a.page - b.page) };
+  }
+
+  // Parse, chunk and embed a document
+  async buildIndex(document, dataBuffer) {
+    const { pages, sections } = await this.extractPages(dataBuffer, document.format);
+
+    // Chunk page by page so every chunk can cite the page it came from
+    const chunks = sections.flatMap(({ page, text }) =>
+      this.splitIntoChunks(text, 1000, 200).map(chunkText => ({ page, text: chunkText })));
+    if (chunks.length === 0) {
+      throw new Error('No text found in document');
+    }
+    console.log('✂️ Created chunks:', chunks.length);
+
+    const embeddings = [];
+    for (let i = 0; i < chunks.length; i++) {
+      embeddings.push(normalize(await this.generateEmbedding(chunks[i].text)));
+
+      // Rate limiting - wait a bit between requests
+      if (i < chunks.length - 1) {
+        await this.sleep(100);
+      }
     }
+
+    return { pages, chunks: chunks.map((chunk, id) => ({ id, ...chunk })), embeddings };
   }
 
   // Split text into overlapping chunks
   splitIntoChunks(text, chunkSize = 1000, overlap = 200) {
     const chunks = [];
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+    const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g) || [text];
 
     let currentChunk = '';
 
@@ -83,44 +347,55 @@ class RAGService {
     return chunks;
   }
 
-  // Generate embedding for text using Gemini
+  // Generate embedding for text with the configured provider
   async generateEmbedding(text) {
     try {
-      const result = await this.embeddingModel.embedContent(text);
-      return result.embedding.values;
+      return await this.llm.embed(text);
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw error;
     }
   }
 
-  // Calculate cosine similarity between two vectors
-  cosineSimilarity(vecA, vecB) {
-    const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
-    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-    return dotProduct / (magnitudeA * magnitudeB);
-  }
-
-  // Retrieve most relevant chunks for a query
-  async retrieveRelevantChunks(query, topK = 3) {
+  // Retrieve most relevant chunks for a query from the built-in PDF and the
+  // documents `userId` uploaded; other users' uploads are never searched.
+  // `documentIds` limits the search further.
+  async retrieveRelevantChunks(query, topK = 3, { documentIds, userId } = {}) {
     if (!this.initialized) {
       throw new Error('RAG service not initialized. Call initialize() first.');
     }
 
     try {
+      if (Date.now() - this.lastSyncedAt > SYNC_INTERVAL_MS) {
+        await this.syncDocuments();
+      }
+
+      const wanted = documentIds ? new Set(documentIds.map(String)) : null;
+      const documents = [...this.documents.values()]
+        .filter(document => document.userId === null || (userId && document.userId === String(userId)))
+        .filter(document => !wanted || wanted.has(document.id));
+      if (documents.length === 0) return [];
+
       // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query);
+      const queryEmbedding = normalize(await this.generateEmbedding(query));
 
-      // Calculate similarity scores for all chunks
-      const scores = this.documentChunks.map(chunk => ({
-        ...chunk,
-        similarity: this.cosineSimilarity(queryEmbedding, chunk.embedding)
-      }));
+      // Top K by cosine similarity from each document's index, then overall
+      const matches = documents.flatMap(document => {
+        const k = Math.min(topK, document.index.ntotal());
+        if (k === 0) return [];
+        const { labels, distances } = document.index.search(queryEmbedding, k);
 
-      // Sort by similarity and return top K
-      scores.sort((a, b) => b.similarity - a.similarity);
-      return scores.slice(0, topK);
+        return labels.map((label, i) => ({
+          ...document.chunks[label],
+          documentId: document.id,
+          documentTitle: document.title,
+          similarity: distances[i]
+        }));
+      });
+
+      return matches
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, topK);
 
     } catch (error) {
       console.error('Error retrieving chunks:', error);
@@ -129,24 +404,28 @@ class RAGService {
   }
 
   // Get augmented context for a query
-  async getContext(query, topK = 3) {
-    const relevantChunks = await this.retrieveRelevantChunks(query, topK);
+  async getContext(query, topK = 3, options = {}) {
+    const relevantChunks = await this.retrieveRelevantChunks(query, topK, options);
 
     return relevantChunks.map(chunk => ({
       text: chunk.text,
+      documentId: chunk.documentId,
+      documentTitle: chunk.documentTitle,
+      page: chunk.page,
       similarity: chunk.similarity.toFixed(3)
     }));
   }
 
-  // Format context for prompt
+  // Format context for prompt, citing where each chunk came from
   formatContextForPrompt(chunks) {
     if (!chunks || chunks.length === 0) {
       return 'No relevant context found in the knowledge base.';
     }
 
-    return chunks.map((chunk, index) =>
-      `[Context ${index + 1}] (Relevance: ${chunk.similarity})\n${chunk.text}`
-    ).join('\n\n---\n\n');
+    return chunks.map((chunk, index) => {
+      const source = chunk.page ? `${chunk.documentTitle}, page ${chunk.page}` : chunk.documentTitle;
+      return `[Context ${index + 1}] (Source: ${source}; Relevance: ${chunk.similarity})\n${chunk.text}`;
+    }).join('\n\n---\n\n');
   }
 
   // Helper sleep function
@@ -155,4 +434,7 @@ class RAGService {
   }
 }
 
+RAGService.BUILT_IN_DOCUMENT = BUILT_IN_DOCUMENT;
+RAGService.BruteForceIndex = BruteForceIndex;
+
 module.exports = RAGService;
@@ -0,0 +1,332 @@
+// /backend/services/recipeSchema.js
+// Shape and validation of structured recipe instructions and recommendations.
+// The model is asked for JSON in these shapes; the validators normalize what
+// comes back (numbers given as strings, missing step numbers, durations as
+// text) and report anything the app can't render.
+
+const { DATE_PATTERN } = require('./localDates');
+
+// Example sent to the model with the prompt
+const RECIPE_INSTRUCTIONS_EXAMPLE = {
+  name: 'Recipe Name',
+  description: 'Brief description in 15-20 words',
+  servings: 2,
+  prepTimeMinutes: 10,
+  cookTimeMinutes: 20,
+  difficulty: 'Easy',
+  equipment: ['Large pan', 'Chopping board'],
+  ingredients: [
+    { name: 'onion', amount: 1, unit: 'pieces', notes: 'finely chopped', optional: false },
+    { name: 'salt', amount: null, unit: null, notes: 'to taste', optional: false }
+  ],
+  steps: [
+    { instruction: 'Heat the oil and fry the onion until golden.', durationMinutes: 5, timer: { label: 'Fry onion', minutes: 5 } },
+    { instruction: 'Season and serve.', durationMinutes: 1, timer: null }
+  ],
+  tips: ['Optional tip']
+};
+
+const toNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) && number >= 0 ? number : NaN;
+};
+
+const toStringList = (value) => (Array.isArray(value)
+  ? value.map(entry => String(entry).trim()).filter(Boolean)
+  : []);
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+// Minutes in a duration such as 45, "30 mins", "1 hour 15 minutes",
+// "20-25 minutes" (the upper bound) or "PT1H30M". Null when there are none.
+const parseMinutes = (value) => {
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.toLowerCase().replace(/^pt/, '');
+  let total = 0;
+  const parts = text.matchAll(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|h|minutes?|mins?|m)(?![a-z])/g);
+  for (const [, low, high, unit] of parts) {
+    total += parseFloat(high || low) * (unit.startsWith('h') ? 60 : 1);
+  }
+  if (total === 0 && /^\s*\d+(\.\d+)?\s*$/.test(text)) {
+    total = parseFloat(text);
+  }
+  return total > 0 ? Math.round(total) : null;
+};
+
+// Validate and normalize recommended recipes. Returns { recipes, errors };
+// the recipes are only usable when errors is empty. cookingTime comes back
+// as "N minutes" with the number in cookingTimeMinutes, and healthScore is
+// clamped to 1-10.
+const validateRecipeRecommendations = (data) => {
+  // Some models wrap the list in an object
+  const list = Array.isArray(data) ? data : data?.recipes;
+  if (!Array.isArray(list) || list.length === 0) {
+    return { recipes: [], errors: ['Response must be a non-empty JSON array of recipes'] };
+  }
+
+  const errors = [];
+  const recipes = list.map((entry, index) => {
+    const recipe = entry && typeof entry === 'object' ? entry : {};
+    const field = (name) => `recipes[${index}].${name}`;
+
+    const name = typeof recipe.name === 'string' ? recipe.name.trim() : '';
+    if (!name) errors.push(`${field('name')} is required`);
+
+    const description = typeof recipe.description === 'string' ? recipe.description.trim() : '';
+    if (!description) errors.push(`${field('description')} is required`);
+
+    const mainIngredients = toStringList(recipe.mainIngredients);
+    if (mainIngredients.length === 0) errors.push(`${field('mainIngredients')} must be a non-empty list`);
+
+    const cookingTimeMinutes = parseMinutes(recipe.cookingTime ?? recipe.cookingTimeMinutes);
+    if (!cookingTimeMinutes) errors.push(`${field('cookingTime')} must be a duration such as "30 minutes"`);
+
+    const difficulty = DIFFICULTIES.find(level => level.toLowerCase() === String(recipe.difficulty || '').trim().toLowerCase());
+    if (!difficulty) errors.push(`${field('difficulty')} must be one of: ${DIFFICULTIES.join(', ')}`);
+
+    const cuisine = typeof recipe.cuisine === 'string' ? recipe.cuisine.trim() : '';
+    if (!cuisine) errors.push(`${field('cuisine')} is required`);
+
+    const healthScore = parseFloat(recipe.healthScore);
+    if (!Number.isFinite(healthScore)) errors.push(`${field('healthScore')} must be a number from 1 to 10`);
+
+    const servings = toNumber(recipe.servings);
+
+    return {
+      name,
+      description,
+      mainIngredients,
+      cookingTime: cookingTimeMinutes ? `${cookingTimeMinutes} minutes` : '',
+      cookingTimeMinutes,
+      difficulty: difficulty || '',
+      cuisine,
+      healthScore: Number.isFinite(healthScore) ? Math.min(10, Math.max(1, Math.round(healthScore))) : null,
+      servings: servings >= 1 ? Math.round(servings) : 2
+    };
+  });
+
+  return { recipes, errors };
+};
+
+// Normalize one planned meal, adding problems to `errors` under `prefix`
+const normalizeMeal = (entry, prefix, errors) => {
+  const meal = entry && typeof entry === 'object' ? entry : {};
+
+  const name = typeof meal.name === 'string' ? meal.name.trim() : '';
+  if (!name) errors.push(`${prefix}name is required`);
+
+  const mainIngredients = toStringList(meal.mainIngredients);
+  if (mainIngredients.length === 0) errors.push(`${prefix}mainIngredients must be a non-empty list`);
+
+  const cookingTimeMinutes = parseMinutes(meal.cookingTime ?? meal.cookingTimeMinutes);
+  const difficulty = DIFFICULTIES.find(level => level.toLowerCase() === String(meal.difficulty || '').trim().toLowerCase());
+
+  return {
+    name,
+    description: typeof meal.description === 'string' ? meal.description.trim() : '',
+    mainIngredients,
+    cookingTime: cookingTimeMinutes ? `${cookingTimeMinutes} minutes` : '',
+    difficulty: difficulty || '',
+    cuisine: typeof meal.cuisine === 'string' ? meal.cuisine.trim() : ''
+  };
+};
+
+// Validate and normalize the meals of a weekly plan. Returns { meals,
+// errors }; every meal needs its date and slot so it can be placed.
+const validateMealPlan = (data) => {
+  const list = Array.isArray(data) ? data : data?.meals;
+  if (!Array.isArray(list) || list.length === 0) {
+    return { meals: [], errors: ['Response must be a non-empty JSON array of meals'] };
+  }
+
+  const errors = [];
+  const meals = list.map((entry, index) => {
+    const prefix = `meals[${index}].`;
+    const date = typeof entry?.date === 'string' ? entry.date.trim() : '';
+    if (!DATE_PATTERN.test(date)) errors.push(`${prefix}date must be YYYY-MM-DD`);
+
+    const slot = typeof entry?.slot === 'string' ? entry.slot.trim().toLowerCase() : '';
+    if (!slot) errors.push(`${prefix}slot is required`);
+
+    return { date, slot, ...normalizeMeal(entry, prefix, errors) };
+  });
+
+  return { meals, errors };
+};
+
+// Validate and normalize a single replacement meal. Returns { meal, errors }.
+const validateMeal = (data) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { meal: null, errors: ['Meal must be a JSON object'] };
+  }
+
+  const errors = [];
+  const meal = normalizeMeal(data, '', errors);
+  return { meal, errors };
+};
+
+// Validate and normalize the ingredients and steps generated for a recipe
+// being saved. Returns { details, errors }; steps are plain strings.
+const validateRecipeDetails = (data) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { details: null, errors: ['Recipe details must be a JSON object'] };
+  }
+
+  const errors = [];
+  if (!Array.isArray(data.ingredients) || data.ingredients.length === 0) {
+    errors.push('ingredients must be a non-empty list');
+  }
+  const ingredients = (Array.isArray(data.ingredients) ? data.ingredients : []).map((ingredient, index) => {
+    const name = typeof ingredient?.name === 'string' ? ingredient.name.trim() : '';
+    if (!name) errors.push(`ingredients[${index}].name is required`);
+
+    const amount = toNumber(ingredient?.amount);
+    return {
+      name,
+      amount: Number.isNaN(amount) ? null : amount,
+      unit: ingredient?.unit ? String(ingredient.unit).trim() : null,
+      notes: ingredient?.notes ? String(ingredient.notes).trim() : ''
+    };
+  });
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    errors.push('steps must be a non-empty list');
+  }
+  const steps = (Array.isArray(data.steps) ? data.steps : []).map((step, index) => {
+    const text = typeof step === 'string' ? step.trim() : '';
+    if (!text) errors.push(`steps[${index}] must be a non-empty string`);
+    return text;
+  });
+
+  return { details: { ingredients, steps }, errors };
+};
+
+// Validate and normalize model output. Returns { recipe, errors }; the
+// recipe is only usable when errors is empty.
+const validateRecipeInstructions = (data) => {
+  const errors = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { recipe: null, errors: ['Recipe must be a JSON object'] };
+  }
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) errors.push('name is required');
+
+  const timeFields = {};
+  ['servings', 'prepTimeMinutes', 'cookTimeMinutes'].forEach(field => {
+    const value = toNumber(data[field]);
+    if (Number.isNaN(value)) errors.push(`${field} must be a non-negative number`);
+    timeFields[field] = Number.isNaN(value) ? null : value;
+  });
+
+  if (!Array.isArray(data.ingredients) || data.ingredients.length === 0) {
+    errors.push('ingredients must be a non-empty list');
+  }
+  const ingredients = (Array.isArray(data.ingredients) ? data.ingredients : []).map((ingredient, index) => {
+    const ingredientName = typeof ingredient?.name === 'string' ? ingredient.name.trim() : '';
+    if (!ingredientName) errors.push(`ingredients[${index}].name is required`);
+
+    const amount = toNumber(ingredient?.amount);
+    if (Number.isNaN(amount)) errors.push(`ingredients[${index}].amount must be a non-negative number or null`);
+
+    return {
+      name: ingredientName,
+      amount: Number.isNaN(amount) ? null : amount,
+      unit: ingredient?.unit ? String(ingredient.unit).trim() : null,
+      notes: ingredient?.notes ? String(ingredient.notes).trim() : '',
+      optional: Boolean(ingredient?.optional)
+    };
+  });
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    errors.push('steps must be a non-empty list');
+  }
+  const steps = (Array.isArray(data.steps) ? data.steps : []).map((step, index) => {
+    // Accept bare strings for steps without timing
+    const entry = typeof step === 'string' ? { instruction: step } : (step || {});
+    const instruction = typeof entry.instruction === 'string' ? entry.instruction.trim() : '';
+    if (!instruction) errors.push(`steps[${index}].instruction is required`);
+
+    const durationMinutes = toNumber(entry.durationMinutes);
+    if (Number.isNaN(durationMinutes)) errors.push(`steps[${index}].durationMinutes must be a non-negative number or null`);
+
+    let timer = null;
+    if (entry.timer) {
+      const minutes = toNumber(entry.timer.minutes);
+      if (!minutes) {
+        errors.push(`steps[${index}].timer.minutes must be a positive number`);
+      } else {
+        timer = { label: String(entry.timer.label || `Step ${index + 1}`).trim(), minutes };
+      }
+    }
+
+    return {
+      number: index + 1,
+      instruction,
+      durationMinutes: Number.isNaN(durationMinutes) ? null : durationMinutes,
+      timer
+    };
+  });
+
+  const recipe = {
+    name,
+    description: typeof data.description === 'string' ? data.description.trim() : '',
+    servings: timeFields.servings || null,
+    prepTimeMinutes: timeFields.prepTimeMinutes,
+    cookTimeMinutes: timeFields.cookTimeMinutes,
+    totalTimeMinutes: (timeFields.prepTimeMinutes || 0) + (timeFields.cookTimeMinutes || 0) || null,
+    difficulty: typeof data.difficulty === 'string' ? data.difficulty.trim() : '',
+    equipment: toStringList(data.equipment),
+    ingredients,
+    steps,
+    tips: toStringList(data.tips)
+  };
+
+  return { recipe, errors };
+};
+
+const formatAmount = ({ amount, unit }) => [amount, unit].filter(part => part !== null && part !== '').join(' ');
+
+// Markdown version of a structured recipe, stored in chat history and read aloud
+const formatRecipeMarkdown = (recipe) => {
+  const details = [
+    recipe.totalTimeMinutes && `⏱️ ${recipe.totalTimeMinutes} minutes`,
+    recipe.difficulty && `📊 ${recipe.difficulty}`,
+    recipe.servings && `🍽️ Serves ${recipe.servings}`
+  ].filter(Boolean);
+
+  const sections = [`## ${recipe.name}`];
+  if (recipe.description) sections.push(recipe.description);
+  if (details.length) sections.push(details.join(' · '));
+  if (recipe.equipment.length) {
+    sections.push(`### Equipment\n${recipe.equipment.map(item => `- ${item}`).join('\n')}`);
+  }
+  sections.push(`### Ingredients\n${recipe.ingredients.map(ingredient => {
+    const amount = formatAmount(ingredient);
+    const notes = ingredient.notes ? `, ${ingredient.notes}` : '';
+    const optional = ingredient.optional ? ' (optional)' : '';
+    return `- ${amount ? `${amount} ` : ''}${ingredient.name}${notes}${optional}`;
+  }).join('\n')}`);
+  sections.push(`### Steps\n${recipe.steps.map(step => {
+    const duration = step.durationMinutes ? ` _(${step.durationMinutes} min)_` : '';
+    return `${step.number}. ${step.instruction}${duration}`;
+  }).join('\n')}`);
+  if (recipe.tips.length) {
+    sections.push(`### Tips\n${recipe.tips.map(tip => `- ${tip}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+module.exports = {
+  RECIPE_INSTRUCTIONS_EXAMPLE,
+  validateRecipeInstructions,
+  validateRecipeRecommendations,
+  validateMealPlan,
+  validateMeal,
+  validateRecipeDetails,
+  parseMinutes,
+  formatRecipeMarkdown
+};
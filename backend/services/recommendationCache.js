@@ -0,0 +1,71 @@
+// /backend/services/recommendationCache.js
+// Per-user cache of recipe recommendations. Entries are keyed by a
+// fingerprint of everything the prompt is built from, so a changed pantry or
+// preference misses the cache on its own; invalidateRecommendations drops
+// entries as soon as items change so stale ones don't linger until the TTL.
+const crypto = require('crypto');
+const RecommendationCache = require('../models/RecommendationCache');
+
+const TTL_MINUTES = Number(process.env.RECOMMENDATION_CACHE_TTL_MINUTES) || 360;
+
+const toDay = (date) => (date ? new Date(date).toISOString().slice(0, 10) : null);
+
+// Hash of the unused inventory, preferences and expiry settings. Today's date
+// is included because the prompt describes items as expiring in N days.
+const getRecommendationFingerprint = (inventory, preferences = {}, expirySettings = {}) => {
+  const items = inventory
+    .map(item => [
+      item.name.trim().toLowerCase(),
+      item.category,
+      item.quantity?.amount,
+      item.quantity?.unit,
+      toDay(item.expirationDate)
+    ])
+    .map(entry => JSON.stringify(entry))
+    .sort();
+
+  return crypto.createHash('sha256')
+    .update(JSON.stringify({ items, preferences, expirySettings, today: toDay(new Date()) }))
+    .digest('hex');
+};
+
+// The cached entry for this fingerprint, or null
+const getCachedRecommendations = (userId, fingerprint) => RecommendationCache.findOne({
+  userId,
+  fingerprint,
+  expiresAt: { $gt: new Date() }
+});
+
+const cacheRecommendations = (user, fingerprint, recommendations, totalInventoryItems) =>
+  RecommendationCache.findOneAndUpdate(
+    { userId: user.userId },
+    {
+      householdId: user.householdId || null,
+      fingerprint,
+      recommendations,
+      totalInventoryItems,
+      expiresAt: new Date(Date.now() + TTL_MINUTES * 60 * 1000),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    },
+    { upsert: true, new: true }
+  );
+
+// Drop the cached recommendations of everyone sharing the user's pantry.
+// Failures are only logged; the fingerprint still catches the change.
+const invalidateRecommendations = async (user) => {
+  try {
+    await RecommendationCache.deleteMany(user.householdId
+      ? { $or: [{ userId: user.userId }, { householdId: user.householdId }] }
+      : { userId: user.userId });
+  } catch (error) {
+    console.error('Error invalidating recommendation cache:', error);
+  }
+};
+
+module.exports = {
+  getRecommendationFingerprint,
+  getCachedRecommendations,
+  cacheRecommendations,
+  invalidateRecommendations
+};
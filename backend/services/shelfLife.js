@@ -0,0 +1,144 @@
+// /backend/services/shelfLife.js
+// Estimated shelf life in days per storage location. Product entries are
+// matched against item names by keyword, most specific first (so "ice cream"
+// wins over "cream"); anything unmatched falls back to its category.
+// null means the location isn't suitable for that food.
+
+const STORAGE_LOCATIONS = ['fridge', 'freezer', 'pantry'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CATEGORY_SHELF_LIFE = {
+  vegetables: { fridge: 7, freezer: 240, pantry: 4, default: 'fridge' },
+  fruits: { fridge: 7, freezer: 240, pantry: 5, default: 'fridge' },
+  dairy: { fridge: 7, freezer: 90, pantry: null, default: 'fridge' },
+  meat: { fridge: 2, freezer: 120, pantry: null, default: 'fridge' },
+  grains: { fridge: 180, freezer: 365, pantry: 180, default: 'pantry' },
+  pantry: { fridge: 365, freezer: 365, pantry: 365, default: 'pantry' },
+  spices: { fridge: 730, freezer: 1095, pantry: 730, default: 'pantry' },
+  beverages: { fridge: 10, freezer: 240, pantry: 270, default: 'pantry' },
+  frozen: { fridge: 3, freezer: 180, pantry: null, default: 'freezer' },
+  canned: { fridge: 4, freezer: 60, pantry: 730, default: 'pantry' },
+  other: { fridge: 7, freezer: 90, pantry: 30, default: 'pantry' }
+};
+
+const PRODUCT_SHELF_LIFE = [
+  { keywords: ['ice cream', 'kulfi'], fridge: null, freezer: 60, pantry: null, default: 'freezer' },
+  { keywords: ['cream cheese'], fridge: 14, freezer: 60, pantry: null, default: 'fridge' },
+  { keywords: ['peanut butter'], fridge: 270, freezer: null, pantry: 180, default: 'pantry' },
+  { keywords: ['coconut milk'], fridge: 7, freezer: 60, pantry: 730, default: 'pantry' },
+  { keywords: ['cooked rice', 'leftover', 'cooked'], fridge: 4, freezer: 90, pantry: null, default: 'fridge' },
+  { keywords: ['buttermilk', 'chaas'], fridge: 14, freezer: 90, pantry: null, default: 'fridge' },
+  { keywords: ['milk'], fridge: 7, freezer: 90, pantry: null, default: 'fridge' },
+  { keywords: ['yogurt', 'yoghurt', 'curd', 'dahi'], fridge: 14, freezer: 60, pantry: null, default: 'fridge' },
+  { keywords: ['paneer', 'tofu'], fridge: 5, freezer: 150, pantry: null, default: 'fridge' },
+  { keywords: ['butter', 'ghee'], fridge: 60, freezer: 270, pantry: 2, default: 'fridge' },
+  { keywords: ['parmesan', 'cheddar', 'hard cheese'], fridge: 42, freezer: 180, pantry: null, default: 'fridge' },
+  { keywords: ['cheese'], fridge: 21, freezer: 120, pantry: null, default: 'fridge' },
+  { keywords: ['cream'], fridge: 7, freezer: 120, pantry: null, default: 'fridge' },
+  { keywords: ['egg'], fridge: 28, freezer: 365, pantry: null, default: 'fridge' },
+  { keywords: ['mince', 'ground beef', 'ground meat', 'keema'], fridge: 2, freezer: 120, pantry: null, default: 'fridge' },
+  { keywords: ['chicken', 'turkey', 'poultry'], fridge: 2, freezer: 270, pantry: null, default: 'fridge' },
+  { keywords: ['fish', 'salmon', 'tuna steak', 'prawn', 'shrimp', 'seafood'], fridge: 2, freezer: 180, pantry: null, default: 'fridge' },
+  { keywords: ['bacon'], fridge: 7, freezer: 30, pantry: null, default: 'fridge' },
+  { keywords: ['ham', 'sausage', 'salami'], fridge: 7, freezer: 60, pantry: null, default: 'fridge' },
+  { keywords: ['bread', 'bun', 'pav'], fridge: 10, freezer: 90, pantry: 5, default: 'pantry' },
+  { keywords: ['tortilla', 'roti', 'chapati', 'naan'], fridge: 30, freezer: 180, pantry: 7, default: 'pantry' },
+  { keywords: ['rice', 'pasta', 'noodle', 'lentil', 'dal'], fridge: 730, freezer: 730, pantry: 730, default: 'pantry' },
+  { keywords: ['flour', 'atta', 'maida', 'besan'], fridge: 365, freezer: 730, pantry: 180, default: 'pantry' },
+  { keywords: ['banana'], fridge: 7, freezer: 90, pantry: 5, default: 'pantry' },
+  { keywords: ['apple'], fridge: 42, freezer: 240, pantry: 21, default: 'fridge' },
+  { keywords: ['berry', 'berries', 'strawberry', 'strawberries', 'blueberry', 'blueberries', 'grape'], fridge: 5, freezer: 240, pantry: 1, default: 'fridge' },
+  { keywords: ['orange', 'lemon', 'lime', 'grapefruit'], fridge: 28, freezer: 120, pantry: 7, default: 'pantry' },
+  { keywords: ['avocado', 'mango'], fridge: 7, freezer: 120, pantry: 4, default: 'pantry' },
+  { keywords: ['tomato', 'tomatoes'], fridge: 10, freezer: 60, pantry: 5, default: 'pantry' },
+  { keywords: ['potato', 'potatoes', 'sweet potato'], fridge: 21, freezer: 300, pantry: 30, default: 'pantry' },
+  { keywords: ['onion', 'garlic', 'shallot'], fridge: 60, freezer: 240, pantry: 30, default: 'pantry' },
+  { keywords: ['lettuce', 'spinach', 'kale', 'cilantro', 'coriander', 'mint', 'herb', 'herbs'], fridge: 5, freezer: 180, pantry: 1, default: 'fridge' },
+  { keywords: ['carrot', 'beetroot', 'radish'], fridge: 21, freezer: 300, pantry: 4, default: 'fridge' },
+  { keywords: ['ginger'], fridge: 21, freezer: 180, pantry: 7, default: 'fridge' },
+  { keywords: ['mushroom'], fridge: 7, freezer: 300, pantry: 1, default: 'fridge' },
+  { keywords: ['juice'], fridge: 10, freezer: 240, pantry: 270, default: 'fridge' },
+  { keywords: ['ketchup', 'sauce', 'chutney', 'jam', 'mayonnaise'], fridge: 180, freezer: null, pantry: 365, default: 'pantry' },
+  { keywords: ['honey'], fridge: null, freezer: null, pantry: 730, default: 'pantry' },
+  { keywords: ['oil'], fridge: 365, freezer: null, pantry: 365, default: 'pantry' },
+  { keywords: ['nut', 'almond', 'cashew', 'walnut', 'peanut'], fridge: 365, freezer: 730, pantry: 180, default: 'pantry' }
+];
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match so "egg" doesn't match "eggplant"; allows plural "s"/"es"
+const matchesKeyword = (name, keyword) =>
+  new RegExp(`\\b${escapeRegex(keyword)}(?:s|es)?\\b`, 'i').test(name);
+
+// The shelf-life entry for an item and where it came from
+const findShelfLife = (name, category) => {
+  const product = name
+    ? PRODUCT_SHELF_LIFE.find(entry => entry.keywords.some(keyword => matchesKeyword(name, keyword)))
+    : null;
+
+  if (product) {
+    const keyword = product.keywords.find(k => matchesKeyword(name, k));
+    return { entry: product, source: 'product', matched: keyword };
+  }
+
+  return {
+    entry: CATEGORY_SHELF_LIFE[category] || CATEGORY_SHELF_LIFE.other,
+    source: 'category',
+    matched: CATEGORY_SHELF_LIFE[category] ? category : 'other'
+  };
+};
+
+const getDefaultStorageLocation = (name, category) => findShelfLife(name, category).entry.default;
+
+// Estimate how long an item keeps. Unsuitable locations give 0 days with
+// `recommended: false` so the app can warn instead of guessing.
+const estimateShelfLife = ({ name, category, storageLocation }) => {
+  const { entry, source, matched } = findShelfLife(name, category);
+  const location = STORAGE_LOCATIONS.includes(storageLocation) ? storageLocation : entry.default;
+  const days = entry[location];
+
+  return {
+    storageLocation: location,
+    days: days ?? 0,
+    recommended: days !== null,
+    source,
+    matched,
+    locations: Object.fromEntries(STORAGE_LOCATIONS.map(loc => [loc, entry[loc]]))
+  };
+};
+
+const suggestExpirationDate = (item, from = new Date()) => {
+  const estimate = estimateShelfLife(item);
+  return {
+    ...estimate,
+    expirationDate: new Date(from.getTime() + estimate.days * DAY_MS)
+  };
+};
+
+// New expiry when an item moves between locations: the share of shelf life
+// it had left in the old location carries over to the new one
+const recalculateExpiration = (item, newLocation, now = new Date()) => {
+  const { entry } = findShelfLife(item.name, item.category);
+  const oldDays = entry[item.storageLocation] || entry[entry.default];
+  const newEstimate = estimateShelfLife({ name: item.name, category: item.category, storageLocation: newLocation });
+
+  const remainingDays = (new Date(item.expirationDate) - now) / DAY_MS;
+  const remainingShare = oldDays ? Math.min(Math.max(remainingDays / oldDays, 0), 1) : 1;
+  const days = Math.round(newEstimate.days * remainingShare);
+
+  return {
+    ...newEstimate,
+    days,
+    expirationDate: new Date(now.getTime() + days * DAY_MS)
+  };
+};
+
+module.exports = {
+  STORAGE_LOCATIONS,
+  CATEGORY_SHELF_LIFE,
+  PRODUCT_SHELF_LIFE,
+  getDefaultStorageLocation,
+  estimateShelfLife,
+  suggestExpirationDate,
+  recalculateExpiration
+};
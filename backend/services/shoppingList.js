@@ -0,0 +1,74 @@
+// /backend/services/shoppingList.js
+// Category guesses and duplicate checks for shopping list entries. Recipe
+// ingredients arrive as bare names ("cherry tomatoes"), so the category comes
+// from what the pantry has held under that name before, else from keywords.
+const Item = require('../models/Item');
+const { findBestMatch, normalizeIngredient } = require('./ingredientMatcher');
+
+// Checked in order, so "coconut milk" is pantry rather than dairy
+const CATEGORY_KEYWORDS = [
+  { category: 'frozen', keywords: ['frozen', 'ice cream'] },
+  { category: 'canned', keywords: ['canned', 'tinned'] },
+  { category: 'pantry', keywords: ['coconut milk', 'peanut butter', 'oil', 'sugar', 'honey', 'vinegar', 'sauce', 'ketchup', 'jam', 'stock', 'broth', 'baking', 'yeast', 'almond', 'cashew', 'walnut', 'peanut', 'nut'] },
+  { category: 'spices', keywords: ['salt', 'black pepper', 'peppercorn', 'cumin', 'turmeric', 'masala', 'chilli powder', 'chili powder', 'cinnamon', 'paprika', 'oregano', 'clove', 'cardamom', 'spice', 'seasoning'] },
+  { category: 'dairy', keywords: ['milk', 'cheese', 'butter', 'ghee', 'cream', 'yogurt', 'yoghurt', 'curd', 'paneer', 'egg'] },
+  { category: 'meat', keywords: ['chicken', 'beef', 'pork', 'lamb', 'mutton', 'turkey', 'fish', 'salmon', 'tuna', 'prawn', 'shrimp', 'bacon', 'ham', 'sausage', 'mince', 'steak'] },
+  { category: 'grains', keywords: ['rice', 'pasta', 'noodle', 'bread', 'flour', 'oats', 'quinoa', 'tortilla', 'roti', 'lentil', 'dal', 'bean', 'chickpea'] },
+  { category: 'fruits', keywords: ['apple', 'banana', 'orange', 'lemon', 'lime', 'mango', 'berry', 'berries', 'grape', 'avocado', 'pineapple', 'melon'] },
+  { category: 'vegetables', keywords: ['tomato', 'onion', 'garlic', 'ginger', 'potato', 'carrot', 'spinach', 'lettuce', 'cabbage', 'broccoli', 'cauliflower', 'pepper', 'capsicum', 'cucumber', 'mushroom', 'peas', 'corn', 'coriander', 'cilantro', 'mint', 'basil', 'chilli', 'chili'] },
+  { category: 'beverages', keywords: ['juice', 'soda', 'coffee', 'tea', 'water'] }
+];
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match so "tea" doesn't match "steak"; allows plural "s"/"es"
+const matchesKeyword = (name, keyword) =>
+  new RegExp(`\\b${escapeRegex(keyword)}(?:s|es)?\\b`, 'i').test(name);
+
+const guessCategoryFromKeywords = (name) => {
+  const match = CATEGORY_KEYWORDS.find(entry => entry.keywords.some(keyword => matchesKeyword(name, keyword)));
+  return match ? match.category : 'other';
+};
+
+// Category for a shopping entry: the one last used for an item with this
+// name in the user's pantry, falling back to keywords
+const guessCategory = async (user, name) => {
+  const previous = await Item.findOne({
+    ...Item.scopeFor(user),
+    name: new RegExp(`^${escapeRegex(String(name).trim())}$`, 'i')
+  }).sort({ createdAt: -1 }).select('category');
+
+  return previous?.category || guessCategoryFromKeywords(name);
+};
+
+// Whether the pantry has the ingredient, matched like recipe ingredients
+const isInPantry = (name, inventory) => findBestMatch(name, inventory) !== null;
+
+// Split names into ones not yet on the list and ones already there.
+// "Tomatoes" and "tomato" count as the same entry.
+const partitionNew = (names, existingEntries) => {
+  const existing = new Set(existingEntries.map(entry => normalizeIngredient(entry.name)));
+  const added = [];
+  const skipped = [];
+
+  names.forEach(name => {
+    const normalized = normalizeIngredient(name);
+    if (!normalized) return;
+    if (existing.has(normalized)) {
+      skipped.push(name);
+    } else {
+      existing.add(normalized);
+      added.push(name.trim());
+    }
+  });
+
+  return { added, skipped };
+};
+
+module.exports = {
+  CATEGORY_KEYWORDS,
+  guessCategory,
+  guessCategoryFromKeywords,
+  isInPantry,
+  partitionNew
+};
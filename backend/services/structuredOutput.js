@@ -0,0 +1,117 @@
+// /backend/services/structuredOutput.js
+// Getting JSON the app can rely on out of a language model. Responses are
+// requested in the provider's JSON mode, cleaned up when they don't parse
+// (locally, then by asking the model to fix them) and validated; when
+// validation fails the model is asked again with the errors it made.
+
+// Why structured generation failed:
+//   generation_failed  the provider call itself failed
+//   invalid_json       no parseable JSON, even after repair
+//   validation_failed  JSON that doesn't match the schema
+class StructuredOutputError extends Error {
+  constructor(reason, message, errors = []) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.reason = reason;
+    this.errors = errors;
+  }
+}
+
+const tryParse = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Fix the usual ways models break JSON: markdown fences, text around the
+// JSON, smart quotes and trailing commas
+const cleanJsonText = (text) => {
+  let cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+  if (start !== -1 && end > start) {
+    cleaned = cleaned.slice(start, end + 1);
+  }
+
+  return cleaned
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([\]}])/g, '$1');
+};
+
+// Parse a model response, undefined when it isn't JSON even after cleanup
+const parseModelJson = (text) => {
+  if (typeof text !== 'string') return undefined;
+  const parsed = tryParse(text.trim());
+  return parsed !== undefined ? parsed : tryParse(cleanJsonText(text));
+};
+
+// Ask the model to turn its broken output into valid JSON
+const repairWithModel = async (llm, text) => {
+  const prompt = `
+    The following text was supposed to be valid JSON but could not be parsed.
+    Return the same data as valid JSON only. No markdown formatting, no extra text.
+
+    TEXT:
+    ${text}
+  `;
+
+  try {
+    return parseModelJson(await llm.generateText(prompt, { json: true }));
+  } catch (error) {
+    console.error('JSON repair error:', error.message);
+    return undefined;
+  }
+};
+
+const withFeedback = (prompt, errors) => `${prompt}
+
+    Your previous response could not be used because of these problems:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+    Return the complete corrected JSON.
+  `;
+
+// Generate JSON for `prompt` and return validate(data).value. `validate`
+// returns { value, errors } and the value is used only when errors is empty.
+// Throws a StructuredOutputError once `retries` extra attempts have failed.
+const generateStructured = async (llm, prompt, validate, { retries = 1, label = 'response' } = {}) => {
+  let attemptPrompt = prompt;
+  let failure;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let text;
+    try {
+      text = await llm.generateText(attemptPrompt, { json: true });
+    } catch (error) {
+      throw new StructuredOutputError('generation_failed', `Could not generate ${label}`, [error.message]);
+    }
+
+    let data = parseModelJson(text);
+    if (data === undefined) {
+      data = await repairWithModel(llm, text);
+    }
+
+    if (data === undefined) {
+      failure = new StructuredOutputError('invalid_json', `The ${label} was not valid JSON`, ['Response was not valid JSON']);
+    } else {
+      const { value, errors } = validate(data);
+      if (errors.length === 0) {
+        return value;
+      }
+      failure = new StructuredOutputError('validation_failed', `The ${label} did not match the expected format`, errors);
+    }
+
+    console.warn(`⚠️ Invalid ${label} (attempt ${attempt + 1}):`, failure.errors.join('; '));
+    attemptPrompt = withFeedback(prompt, failure.errors);
+  }
+
+  throw failure;
+};
+
+module.exports = {
+  StructuredOutputError,
+  parseModelJson,
+  generateStructured
+};
@@ -0,0 +1,179 @@
+// /backend/services/unitConverter.js
+const { normalizeIngredient } = require('./ingredientMatcher');
+
+// Every unit in the Item quantity enum, with its dimension and factor to the
+// dimension's base unit (grams for mass, millilitres for volume).
+const UNITS = {
+  g: { dimension: 'mass', toBase: 1 },
+  kg: { dimension: 'mass', toBase: 1000 },
+  lb: { dimension: 'mass', toBase: 453.592 },
+  oz: { dimension: 'mass', toBase: 28.3495 },
+  ml: { dimension: 'volume', toBase: 1 },
+  l: { dimension: 'volume', toBase: 1000 },
+  cups: { dimension: 'volume', toBase: 240 },
+  tbsp: { dimension: 'volume', toBase: 15 },
+  tsp: { dimension: 'volume', toBase: 5 },
+  pieces: { dimension: 'count', toBase: 1 },
+  packets: { dimension: 'count', toBase: 1 },
+  cans: { dimension: 'count', toBase: 1 },
+  bottles: { dimension: 'count', toBase: 1 }
+};
+
+// Spellings that show up in recipes and LLM output
+const UNIT_ALIASES = {
+  gram: 'g', grams: 'g', gm: 'g', gms: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  ounce: 'oz', ounces: 'oz',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', ltr: 'l',
+  cup: 'cups', c: 'cups',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  piece: 'pieces', pc: 'pieces', pcs: 'pieces', whole: 'pieces', unit: 'pieces', units: 'pieces',
+  packet: 'packets', pack: 'packets', packs: 'packets',
+  can: 'cans', tin: 'cans', tins: 'cans',
+  bottle: 'bottles'
+};
+
+const BASE_UNITS = {
+  mass: 'g',
+  volume: 'ml'
+};
+
+// Approximate densities in grams per millilitre, used to convert between
+// volume and mass. Keywords are matched as whole words against the
+// ingredient's canonical name (see ingredientMatcher.js), longest first, so
+// "brown sugar" wins over "sugar" and "peanut butter" over "butter".
+const DENSITY_HINTS = [
+  { keywords: ['peanut butter', 'almond butter', 'nut butter'], density: 1.08 },
+  { keywords: ['brown sugar'], density: 0.83 },
+  { keywords: ['powdered sugar', 'icing sugar'], density: 0.56 },
+  { keywords: ['sugar'], density: 0.85 },
+  { keywords: ['whole wheat flour', 'atta'], density: 0.51 },
+  { keywords: ['flour', 'maida', 'besan', 'cornstarch'], density: 0.53 },
+  { keywords: ['cocoa'], density: 0.42 },
+  { keywords: ['rolled oats', 'oats'], density: 0.41 },
+  { keywords: ['rice'], density: 0.85 },
+  { keywords: ['lentil', 'dal', 'quinoa'], density: 0.82 },
+  { keywords: ['pasta', 'macaroni'], density: 0.45 },
+  { keywords: ['salt'], density: 1.2 },
+  { keywords: ['honey', 'syrup', 'molasses'], density: 1.42 },
+  { keywords: ['butter', 'ghee'], density: 0.96 },
+  { keywords: ['oil'], density: 0.92 },
+  { keywords: ['yogurt', 'yoghurt', 'curd'], density: 1.04 },
+  { keywords: ['cream'], density: 1.01 },
+  { keywords: ['milk'], density: 1.03 },
+  { keywords: ['cheese'], density: 0.45 },
+  { keywords: ['nuts', 'almond', 'cashew', 'peanut', 'walnut'], density: 0.6 },
+  { keywords: ['water', 'juice', 'stock', 'broth', 'vinegar', 'sauce'], density: 1.0 }
+];
+
+// Map free-form unit text onto one of the Item enum units (null if unknown)
+const normalizeUnit = (unit) => {
+  if (!unit) return null;
+  const key = String(unit).trim().toLowerCase().replace(/\.$/, '');
+  if (UNITS[key]) return key;
+  return UNIT_ALIASES[key] || null;
+};
+
+const getDimension = (unit) => {
+  const normalized = normalizeUnit(unit);
+  return normalized ? UNITS[normalized].dimension : null;
+};
+
+// Hint keywords in canonical form, phrases with more words first
+const DENSITY_KEYWORDS = DENSITY_HINTS
+  .flatMap(({ keywords, density }) => keywords.map(keyword => ({ phrase: normalizeIngredient(keyword), density })))
+  .sort((a, b) => b.phrase.split(' ').length - a.phrase.split(' ').length);
+
+// Density (g/ml) for an ingredient name, or null if we have no hint.
+// "salted butter" is butter, and "boiled potatoes" has no oil in it.
+const getDensity = (ingredientName) => {
+  if (!ingredientName) return null;
+  const name = ` ${normalizeIngredient(ingredientName)} `;
+  const hint = DENSITY_KEYWORDS.find(({ phrase }) => name.includes(` ${phrase} `));
+  return hint ? hint.density : null;
+};
+
+// Convert an amount between two units. Mass and volume convert freely
+// within their dimension; across them only when `options.ingredient` has a
+// density hint (or `options.density` is given). Count units only convert to
+// themselves (3 cans are not 3 bottles). Returns null when not possible.
+const convert = (amount, fromUnit, toUnit, options = {}) => {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (!from || !to) return null;
+  if (from === to) return amount;
+
+  const fromDef = UNITS[from];
+  const toDef = UNITS[to];
+  if (fromDef.dimension === 'count' || toDef.dimension === 'count') {
+    return null;
+  }
+
+  const baseAmount = amount * fromDef.toBase;
+
+  if (fromDef.dimension === toDef.dimension) {
+    return baseAmount / toDef.toBase;
+  }
+
+  const density = options.density || getDensity(options.ingredient);
+  if (!density) return null;
+
+  // volume (ml) -> mass (g) multiplies by density; mass -> volume divides
+  const converted = fromDef.dimension === 'volume'
+    ? baseAmount * density
+    : baseAmount / density;
+  return converted / toDef.toBase;
+};
+
+// Express a quantity in its dimension's base unit (g or ml); count units
+// are returned unchanged.
+const toBaseQuantity = (amount, unit) => {
+  const normalized = normalizeUnit(unit);
+  if (!normalized) return null;
+
+  const { dimension, toBase } = UNITS[normalized];
+  if (dimension === 'count') {
+    return { amount, unit: normalized, dimension };
+  }
+  return { amount: amount * toBase, unit: BASE_UNITS[dimension], dimension };
+};
+
+// Add up quantities ({ amount, unit, ingredient? }) in a target unit.
+// Anything that can't be converted is returned in `unconvertible`.
+const sumQuantities = (quantities, targetUnit, options = {}) => {
+  let total = 0;
+  const unconvertible = [];
+
+  quantities.forEach(quantity => {
+    const converted = convert(quantity.amount, quantity.unit, targetUnit, {
+      ...options,
+      ingredient: quantity.ingredient || options.ingredient
+    });
+
+    if (converted === null) {
+      unconvertible.push(quantity);
+    } else {
+      total += converted;
+    }
+  });
+
+  return {
+    total: Math.round(total * 1000) / 1000,
+    unit: normalizeUnit(targetUnit),
+    unconvertible
+  };
+};
+
+module.exports = {
+  UNITS,
+  BASE_UNITS,
+  normalizeUnit,
+  getDimension,
+  getDensity,
+  convert,
+  toBaseQuantity,
+  sumQuantities
+};
@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  getIngredientGroups,
+  resolveDietaryRestrictions,
+  findViolations,
+  getDietaryLabels
+} = require('../services/dietaryRules');
+
+test('ingredients are grouped by whole words, minus look-alikes', () => {
+  assert.deepEqual(getIngredientGroups('butter'), ['dairy']);
+  assert.deepEqual(getIngredientGroups('peanut butter'), ['peanuts']);
+  assert.deepEqual(getIngredientGroups('coconut milk'), []);
+  assert.deepEqual(getIngredientGroups('oyster mushrooms'), []);
+  assert.deepEqual(getIngredientGroups('Prawns'), ['shellfish']);
+});
+
+test('diets, allergens and intolerances become rules', () => {
+  const rules = resolveDietaryRestrictions({ diet: 'vegan', allergens: ['peanuts'], intolerances: ['lactose'] });
+  assert.deepEqual(rules.map(rule => rule.reason), ['vegan diet', 'peanuts allergy', 'lactose intolerance']);
+  assert.deepEqual(resolveDietaryRestrictions({}), []);
+});
+
+test('diets are matched by their whole name', () => {
+  assert.deepEqual(resolveDietaryRestrictions({ diet: 'non vegeterian' }), []);
+  assert.deepEqual(resolveDietaryRestrictions({ diet: 'keto' }), []);
+  assert.deepEqual(resolveDietaryRestrictions({ diet: ' Vegetarian ' }).map(rule => rule.reason), ['vegetarian diet']);
+});
+
+test('findViolations checks the recipe name and main ingredients', () => {
+  const rules = resolveDietaryRestrictions({ diet: 'vegetarian' });
+
+  assert.deepEqual(findViolations({ name: 'Shrimp Pad Thai', mainIngredients: ['rice noodles'] }, rules), [
+    { ingredient: 'Shrimp Pad Thai', group: 'shellfish', reason: 'vegetarian diet' }
+  ]);
+  assert.deepEqual(findViolations({ name: 'Dal Tadka', mainIngredients: ['lentils', 'ghee'] }, rules), []);
+});
+
+test('a lactose intolerance allows ghee but a dairy allergy does not', () => {
+  const recipe = { name: 'Dal Tadka', mainIngredients: ['lentils', 'ghee'] };
+
+  assert.equal(findViolations(recipe, resolveDietaryRestrictions({ intolerances: ['lactose'] })).length, 0);
+  assert.equal(findViolations(recipe, resolveDietaryRestrictions({ allergens: ['dairy'] })).length, 1);
+});
+
+test('getDietaryLabels lists the allergen groups a recipe contains', () => {
+  const labels = getDietaryLabels({ name: 'Paneer Tikka', mainIngredients: ['paneer', 'yogurt', 'cashews'] });
+  assert.deepEqual(labels, { contains: ['Dairy', 'Tree nuts'] });
+});
+
+test('getDietaryLabels never claims a recipe is free from an allergen', () => {
+  assert.deepEqual(getDietaryLabels({ name: 'Pesto Pasta', mainIngredients: ['basil', 'pine nuts'] }), {
+    contains: ['Gluten', 'Tree nuts']
+  });
+});
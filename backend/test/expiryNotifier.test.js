@@ -0,0 +1,126 @@
+// The notifier's schedule and a full run() against the local push sender,
+// with the database queries mocked
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert/strict');
+const Item = require('../models/Item');
+const User = require('../models/User');
+const NotificationLog = require('../models/NotificationLog');
+const ExpiryNotifier = require('../services/expiryNotifier');
+const { LocalPushSender } = require('../services/pushSenders');
+
+const at = (time) => new Date(`2025-06-01T${time}:00Z`);
+
+const createUser = (notificationSettings = {}) => ({
+  _id: 'user-doc',
+  userId: 'user-1',
+  householdId: null,
+  pushToken: 'ExponentPushToken[abc]',
+  timezone: 'UTC',
+  notificationSettings: {
+    quietHours: { enabled: true, start: '22:00', end: '07:00' },
+    times: ['08:00', '19:00'],
+    ...notificationSettings
+  }
+});
+
+const createItem = (id, name) => ({ _id: id, name, expirationDate: new Date('2025-06-03T00:00:00Z') });
+
+// Serve `users` and `items` from the mocked models and record the logs written
+const mockDatabase = ({ users, items, logged = [] }) => {
+  const written = [];
+  mock.method(User, 'find', () => ({ select: async () => users }));
+  mock.method(User, 'updateOne', async () => ({}));
+  mock.method(Item, 'find', () => ({ sort: async () => items }));
+  mock.method(NotificationLog, 'find', async () => logged);
+  mock.method(NotificationLog, 'insertMany', async (logs) => {
+    written.push(...logs);
+    return logs;
+  });
+  return written;
+};
+
+test.beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+
+test.afterEach(() => {
+  mock.restoreAll();
+});
+
+test('alerts go out during the hour after each notification time', () => {
+  const notifier = new ExpiryNotifier({ sender: new LocalPushSender() });
+  const user = createUser();
+
+  assert.equal(notifier.isDeliveryTime(user, at('08:30')), true);
+  assert.equal(notifier.isDeliveryTime(user, at('09:30')), false);
+  assert.equal(notifier.isDeliveryTime({ ...user, timezone: 'Asia/Kolkata' }, at('02:45')), true);
+});
+
+test('quiet hours may wrap past midnight', () => {
+  const notifier = new ExpiryNotifier({ sender: new LocalPushSender() });
+  const user = createUser();
+
+  assert.equal(notifier.isQuietTime(user, at('23:30')), true);
+  assert.equal(notifier.isQuietTime(user, at('06:59')), true);
+  assert.equal(notifier.isQuietTime(user, at('07:00')), false);
+  assert.equal(notifier.isQuietTime(createUser({ quietHours: { enabled: false } }), at('23:30')), false);
+});
+
+test('run sends one message per user and logs every item', async () => {
+  const sender = new LocalPushSender();
+  const items = [createItem('item-1', 'Milk'), createItem('item-2', 'Spinach')];
+  const written = mockDatabase({ users: [createUser()], items });
+
+  const summary = await new ExpiryNotifier({ sender, now: () => at('08:10') }).run();
+
+  assert.deepEqual(summary, { usersNotified: 1, itemsNotified: 2, deferred: 0, failed: 0 });
+  assert.equal(sender.sent.length, 1);
+  assert.equal(sender.sent[0].title, '⏰ 2 Items Expiring Soon');
+  assert.deepEqual(sender.sent[0].data.itemIds, ['item-1', 'item-2']);
+  assert.deepEqual(written.map(log => log.itemId), ['item-1', 'item-2']);
+});
+
+test('items already alerted about are not sent again', async () => {
+  const sender = new LocalPushSender();
+  const item = createItem('item-1', 'Milk');
+  mockDatabase({
+    users: [createUser()],
+    items: [item],
+    logged: [{ itemId: 'item-1', expirationDate: item.expirationDate }]
+  });
+
+  const summary = await new ExpiryNotifier({ sender, now: () => at('08:10') }).run();
+
+  assert.equal(summary.usersNotified, 0);
+  assert.equal(sender.sent.length, 0);
+});
+
+test('alerts due in quiet hours go out on the first run after they end', async () => {
+  const sender = new LocalPushSender();
+  const user = createUser({ times: ['06:30'] });
+  mockDatabase({ users: [user], items: [createItem('item-1', 'Milk')] });
+
+  const held = await new ExpiryNotifier({ sender, now: () => at('06:30') }).run();
+  assert.equal(held.deferred, 1);
+  assert.equal(sender.sent.length, 0);
+
+  const released = await new ExpiryNotifier({ sender, now: () => at('07:00') }).run();
+  assert.equal(released.itemsNotified, 1);
+  assert.equal(sender.sent[0].body, `Milk is expiring on ${new Date('2025-06-03T00:00:00Z').toDateString()}`);
+});
+
+test('the end of quiet hours is no delivery time when nothing was held', () => {
+  const notifier = new ExpiryNotifier({ sender: new LocalPushSender() });
+  assert.equal(notifier.isDeliveryTime(createUser(), at('07:10')), false);
+});
+
+test('unregistered devices lose their push token', async () => {
+  const sender = { send: async () => [{ status: 'error', details: { error: 'DeviceNotRegistered' } }] };
+  mockDatabase({ users: [createUser()], items: [createItem('item-1', 'Milk')] });
+
+  const summary = await new ExpiryNotifier({ sender, now: () => at('19:05') }).run();
+
+  assert.equal(summary.failed, 1);
+  assert.deepEqual(User.updateOne.mock.calls[0].arguments, [{ _id: 'user-doc' }, { pushToken: null }]);
+});
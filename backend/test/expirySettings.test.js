@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  DEFAULT_EXPIRY_SETTINGS,
+  resolveExpirySettings,
+  getExpiringSoonDays,
+  buildExpiringSoonQuery,
+  getDaysUntilExpiry,
+  isExpiringSoon
+} = require('../services/expirySettings');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+const inDays = (days) => new Date(now.getTime() + days * DAY_MS);
+
+test('resolveExpirySettings falls back to the defaults', () => {
+  assert.deepEqual(resolveExpirySettings(null), DEFAULT_EXPIRY_SETTINGS);
+  assert.deepEqual(resolveExpirySettings({ expirySettings: { expiringSoonDays: 5 } }), {
+    expiringSoonDays: 5,
+    useWithinDays: DEFAULT_EXPIRY_SETTINGS.useWithinDays,
+    categoryOverrides: {}
+  });
+});
+
+test('resolveExpirySettings turns Mongoose maps into plain objects', () => {
+  const user = { expirySettings: { categoryOverrides: new Map([['Dairy', 2]]) } };
+  assert.deepEqual(resolveExpirySettings(user).categoryOverrides, { Dairy: 2 });
+});
+
+test('category overrides replace the default window', () => {
+  const settings = { expiringSoonDays: 3, useWithinDays: 7, categoryOverrides: { Meat: 1 } };
+
+  assert.equal(getExpiringSoonDays(settings, 'Meat'), 1);
+  assert.equal(getExpiringSoonDays(settings, 'Fruits'), 3);
+  assert.equal(isExpiringSoon({ category: 'Meat', expirationDate: inDays(2) }, settings, now), false);
+  assert.equal(isExpiringSoon({ category: 'Fruits', expirationDate: inDays(2) }, settings, now), true);
+});
+
+test('isExpiringSoon ignores items that have already expired', () => {
+  assert.equal(isExpiringSoon({ category: 'Fruits', expirationDate: inDays(-1) }, DEFAULT_EXPIRY_SETTINGS, now), false);
+});
+
+test('buildExpiringSoonQuery has one condition per override plus the rest', () => {
+  const settings = { expiringSoonDays: 3, useWithinDays: 7, categoryOverrides: { Meat: 1 } };
+  const { $or: conditions } = buildExpiringSoonQuery(settings, now);
+
+  assert.equal(conditions.length, 2);
+  assert.deepEqual(conditions[0], { category: 'Meat', expirationDate: { $gte: now, $lte: inDays(1) } });
+  assert.deepEqual(conditions[1], { category: { $nin: ['Meat'] }, expirationDate: { $gte: now, $lte: inDays(3) } });
+});
+
+test('getDaysUntilExpiry rounds partial days up', () => {
+  assert.equal(getDaysUntilExpiry(inDays(2.5), now), 3);
+  assert.equal(getDaysUntilExpiry(inDays(-1), now), -1);
+});
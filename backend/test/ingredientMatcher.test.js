@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeIngredient, scoreMatch, isMatch, findBestMatch } = require('../services/ingredientMatcher');
+
+test('normalizeIngredient drops amounts, preparation words and plurals', () => {
+  assert.equal(normalizeIngredient('2 Large Tomatoes (chopped)'), 'tomato');
+  assert.equal(normalizeIngredient('Fresh basil leaves'), 'basil leaf');
+  assert.equal(normalizeIngredient('Potatoes'), 'potato');
+});
+
+test('normalizeIngredient maps synonyms onto one name', () => {
+  assert.equal(normalizeIngredient('Spring onions'), 'scallion');
+  assert.equal(normalizeIngredient('aubergine'), 'eggplant');
+  assert.equal(normalizeIngredient('Prawns'), 'shrimp');
+});
+
+test('multi-word synonyms are resolved before the single words in them', () => {
+  assert.equal(normalizeIngredient('coriander seeds'), 'coriander seed');
+  assert.equal(normalizeIngredient('Coriander leaves'), 'cilantro');
+  assert.equal(scoreMatch('coriander seeds', 'ground coriander'), 1);
+  assert.equal(scoreMatch('coriander seeds', 'coriander powder'), 1);
+  assert.equal(scoreMatch('cilantro', 'coriander'), 1);
+  assert.equal(isMatch('coriander seeds', 'cilantro'), false);
+});
+
+test('synonyms from the request match each other', () => {
+  assert.equal(scoreMatch('scallions', 'green onion'), 1);
+  assert.equal(scoreMatch('fresh coriander', 'cilantro'), 1);
+});
+
+test('words are compared whole, so egg is not eggplant', () => {
+  assert.equal(scoreMatch('egg', 'eggplant'), 0);
+  assert.equal(isMatch('eggs', 'egg'), true);
+});
+
+test('a more specific name of the same ingredient matches', () => {
+  assert.equal(scoreMatch('tomatoes', 'cherry tomato'), 0.85);
+  assert.equal(scoreMatch('chicken', 'chicken breast'), 0.8);
+  assert.equal(scoreMatch('red onion', 'white onion'), 0.65);
+});
+
+test('products made from an ingredient do not match it', () => {
+  assert.equal(isMatch('chicken', 'chicken stock'), false);
+  assert.equal(isMatch('milk', 'coconut milk'), false);
+  assert.equal(isMatch('olive oil', 'sesame oil'), false);
+});
+
+test('cheese, powder and paste name a different ingredient', () => {
+  assert.equal(scoreMatch('cream', 'cream cheese'), 0.3);
+  assert.equal(scoreMatch('garlic', 'garlic powder'), 0.3);
+  assert.equal(scoreMatch('tomatoes', 'tomato paste'), 0.3);
+  assert.equal(scoreMatch('cheese', 'cheddar cheese'), 0.85);
+});
+
+test('confidence scores stay between 0 and 1', () => {
+  assert.equal(scoreMatch('Tomatoes', 'tomato'), 1);
+  assert.equal(scoreMatch('', 'tomato'), 0);
+  assert.equal(isMatch('tomatoes', 'cherry tomato', 0.9), false);
+});
+
+test('findBestMatch returns the most confident item', () => {
+  const items = [{ name: 'Eggplant' }, { name: 'Free range eggs' }, { name: 'Egg noodles' }];
+  const match = findBestMatch('egg', items);
+
+  assert.equal(match.item.name, 'Free range eggs');
+  assert.equal(match.confidence, 0.85);
+  assert.equal(findBestMatch('saffron', items), null);
+});
@@ -0,0 +1,149 @@
+// The AI features end to end against the mock LLM provider, without a
+// database or network
+const test = require('node:test');
+const { mock } = require('node:test');
+const assert = require('node:assert/strict');
+const { MockProvider } = require('../services/llmProviders');
+const GeminiService = require('../services/geminiService');
+const RAGService = require('../services/ragService');
+
+// The services log every step; keep test output to the results
+test.before(() => {
+  ['log', 'warn', 'error'].forEach(method => mock.method(console, method, () => {}));
+});
+
+const inventory = {
+  Vegetables: [
+    { name: 'Tomato', quantity: { amount: 3, unit: 'pieces' }, expirationDate: new Date(Date.now() + 86400000) },
+    { name: 'Spinach', quantity: { amount: 200, unit: 'g' }, expirationDate: new Date(Date.now() + 5 * 86400000) }
+  ],
+  Dairy: [
+    { name: 'Paneer', quantity: { amount: 250, unit: 'g' }, expirationDate: new Date(Date.now() + 3 * 86400000) }
+  ]
+};
+
+// An in-memory knowledge base with one document per owner
+const createRagService = async (llm) => {
+  const ragService = new RAGService(llm);
+  ragService.sleep = async () => {};
+  ragService.lastSyncedAt = Date.now();
+  await ragService.indexDocument(
+    { id: 'storage', title: 'Storage guide', format: 'txt', userId: null },
+    Buffer.from('Keep spinach in the fridge wrapped in a paper towel. Tomatoes keep best at room temperature.')
+  );
+  await ragService.indexDocument(
+    { id: 'notes', title: 'My notes', format: 'txt', userId: 'user-1' },
+    Buffer.from('Paneer can be frozen for up to three months.')
+  );
+  ragService.initialized = true;
+  return ragService;
+};
+
+const createService = async () => {
+  const llm = new MockProvider();
+  const service = new GeminiService(llm);
+  // Let the constructor's initialization (no built-in PDF here) finish first
+  await service.ragService.syncing;
+  service.ragService = await createRagService(llm);
+  return { service, llm };
+};
+
+test('recipe recommendations come back validated and built from the inventory', async () => {
+  const { service } = await createService();
+  const recipes = await service.generateRecipeRecommendations(inventory, {}, undefined, { userId: 'user-1' });
+
+  assert.equal(recipes.length, 5);
+  recipes.forEach(recipe => {
+    assert.equal(typeof recipe.name, 'string');
+    assert.ok(recipe.mainIngredients.length > 0);
+    assert.ok(['Easy', 'Medium', 'Hard'].includes(recipe.difficulty));
+  });
+  assert.ok(recipes.some(recipe => recipe.mainIngredients.includes('Tomato')));
+});
+
+test('recommendations leave out recipes the user\'s diet rules out', async () => {
+  const { service } = await createService();
+  const recipes = await service.generateRecipeRecommendations(inventory, { diet: 'vegan' });
+
+  recipes.forEach(recipe => assert.ok(!recipe.mainIngredients.includes('Paneer'), recipe.name));
+});
+
+test('meal plans have one valid meal per requested slot', async () => {
+  const { service } = await createService();
+  const slots = [{ date: '2025-06-02', slot: 'lunch' }, { date: '2025-06-02', slot: 'dinner' }];
+  const meals = await service.generateMealPlan(inventory, {}, undefined, { slots });
+
+  assert.deepEqual(meals.map(meal => `${meal.date} ${meal.slot}`), ['2025-06-02 lunch', '2025-06-02 dinner']);
+  meals.forEach(meal => assert.ok(meal.mainIngredients.length > 0));
+
+  const meal = await service.generateMeal(inventory, {}, undefined, { date: '2025-06-03', slot: 'breakfast' });
+  assert.match(meal.name, /2025-06-03 breakfast/);
+});
+
+test('meal generation fails loudly when the model never returns a plan', async () => {
+  const { service } = await createService();
+  service.llm = { generateText: async () => 'Sorry, I cannot help with that.' };
+
+  await assert.rejects(service.generateMealPlan(inventory, {}, undefined, { slots: [{ date: '2025-06-02', slot: 'dinner' }] }), {
+    name: 'StructuredOutputError',
+    reason: 'invalid_json'
+  });
+  await assert.rejects(service.generateMeal(inventory, {}, undefined, { date: '2025-06-02', slot: 'dinner' }), {
+    name: 'StructuredOutputError'
+  });
+});
+
+test('recipe details come back with ingredients and steps', async () => {
+  const { service } = await createService();
+  const details = await service.generateRecipeDetails({ name: 'Palak Paneer', mainIngredients: ['Spinach', 'Paneer'] });
+
+  assert.ok(details.ingredients.every(ingredient => ingredient.name));
+  assert.ok(details.steps.length > 0);
+  details.steps.forEach(step => assert.equal(typeof step, 'string'));
+});
+
+test('recipe details without steps are rejected', async () => {
+  const { service } = await createService();
+  service.llm = { generateText: async () => JSON.stringify({ ingredients: [{ name: 'spinach' }], steps: [] }) };
+
+  await assert.rejects(service.generateRecipeDetails({ name: 'Palak Paneer' }), {
+    name: 'StructuredOutputError',
+    reason: 'validation_failed',
+    errors: ['steps must be a non-empty list']
+  });
+});
+
+test('chat prompts include knowledge base context and stream a reply', async () => {
+  const { service, llm } = await createService();
+  const context = { currentRecipe: 'Palak Paneer', userId: 'user-1' };
+
+  const reply = await service.handleChatMessage('How do I store spinach?', context);
+  assert.ok(reply.length > 0);
+  assert.match(llm.calls.find(call => call.type === 'text').prompt, /Storage guide/);
+
+  let streamed = '';
+  for await (const piece of service.streamChatMessage('How do I store spinach?', context)) {
+    streamed += piece;
+  }
+  assert.equal(streamed, reply);
+});
+
+test('retrieval ranks chunks by similarity and only searches the user\'s own uploads', async () => {
+  const ragService = await createRagService(new MockProvider());
+
+  const own = await ragService.getContext('can paneer be frozen', 3, { userId: 'user-1' });
+  assert.equal(own[0].documentId, 'notes');
+  assert.ok(Number(own[0].similarity) > Number(own[own.length - 1].similarity));
+
+  const other = await ragService.getContext('can paneer be frozen', 3, { userId: 'user-2' });
+  assert.deepEqual(other.map(chunk => chunk.documentId), ['storage']);
+});
+
+test('the brute-force index returns nearest vectors first', () => {
+  const index = new RAGService.BruteForceIndex(2);
+  index.add([1, 0, 0, 1, 0.6, 0.8]);
+
+  const { labels } = index.search([0, 1], 3);
+  assert.deepEqual(labels, [1, 2, 0]);
+  assert.equal(index.ntotal(), 3);
+});
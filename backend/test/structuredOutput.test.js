@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { StructuredOutputError, parseModelJson, generateStructured } = require('../services/structuredOutput');
+
+// A provider answering with `responses` in turn
+const scriptedLlm = (responses) => ({
+  prompts: [],
+  async generateText(prompt) {
+    this.prompts.push(prompt);
+    const response = responses.shift();
+    if (response instanceof Error) throw response;
+    return response;
+  }
+});
+
+const validateNumbers = (data) => (Array.isArray(data) && data.every(Number.isFinite)
+  ? { value: data, errors: [] }
+  : { value: null, errors: ['Expected an array of numbers'] });
+
+test('parseModelJson cleans up fences, surrounding text and trailing commas', () => {
+  assert.deepEqual(parseModelJson('```json\n[1, 2,]\n```'), [1, 2]);
+  assert.deepEqual(parseModelJson('Here you go: {"a": “b”}'), { a: 'b' });
+  assert.equal(parseModelJson('no json here'), undefined);
+  assert.equal(parseModelJson(null), undefined);
+});
+
+test('generateStructured returns the validated value', async () => {
+  const llm = scriptedLlm(['[1, 2, 3]']);
+  assert.deepEqual(await generateStructured(llm, 'numbers', validateNumbers), [1, 2, 3]);
+  assert.equal(llm.prompts.length, 1);
+});
+
+test('generateStructured retries with the validation errors', async () => {
+  const llm = scriptedLlm(['["one"]', '[1]']);
+
+  assert.deepEqual(await generateStructured(llm, 'numbers', validateNumbers), [1]);
+  assert.match(llm.prompts[1], /Expected an array of numbers/);
+});
+
+test('generateStructured asks the model to repair unparseable JSON', async () => {
+  const llm = scriptedLlm(['[1, 2', '[1, 2]']);
+  assert.deepEqual(await generateStructured(llm, 'numbers', validateNumbers, { retries: 0 }), [1, 2]);
+});
+
+test('generateStructured throws once the retries are used up', async () => {
+  const llm = scriptedLlm(['["one"]', '["two"]']);
+
+  await assert.rejects(generateStructured(llm, 'numbers', validateNumbers, { label: 'numbers' }), (error) => {
+    assert.ok(error instanceof StructuredOutputError);
+    assert.equal(error.reason, 'validation_failed');
+    assert.deepEqual(error.errors, ['Expected an array of numbers']);
+    return true;
+  });
+});
+
+test('generateStructured reports provider failures', async () => {
+  const llm = scriptedLlm([new Error('quota exceeded')]);
+
+  await assert.rejects(generateStructured(llm, 'numbers', validateNumbers), {
+    name: 'StructuredOutputError',
+    reason: 'generation_failed',
+    errors: ['quota exceeded']
+  });
+});
@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeUnit, getDensity, convert, toBaseQuantity, sumQuantities } = require('../services/unitConverter');
+
+test('normalizeUnit maps recipe spellings onto the Item units', () => {
+  assert.equal(normalizeUnit('Tablespoons'), 'tbsp');
+  assert.equal(normalizeUnit('lbs.'), 'lb');
+  assert.equal(normalizeUnit('kg'), 'kg');
+  assert.equal(normalizeUnit('handful'), null);
+  assert.equal(normalizeUnit(''), null);
+});
+
+test('convert works within a dimension', () => {
+  assert.equal(convert(1.5, 'kg', 'g'), 1500);
+  assert.equal(convert(2, 'l', 'ml'), 2000);
+  assert.equal(convert(3, 'tsp', 'tbsp'), 1);
+});
+
+test('convert crosses mass and volume only with a density', () => {
+  assert.equal(convert(1, 'cup', 'g', { ingredient: 'sugar' }), 204);
+  assert.equal(convert(100, 'g', 'ml', { density: 0.5 }), 200);
+  assert.equal(convert(1, 'cup', 'g', { ingredient: 'saffron' }), null);
+});
+
+test('densities are looked up by whole words, most specific first', () => {
+  assert.equal(convert(1, 'cup', 'g', { ingredient: 'salted butter' }), convert(1, 'cup', 'g', { ingredient: 'butter' }));
+  assert.equal(getDensity('Salted Butter'), 0.96);
+  assert.equal(getDensity('peanut butter'), 1.08);
+  assert.equal(getDensity('light brown sugar'), 0.83);
+  assert.equal(getDensity('sea salt'), 1.2);
+  assert.equal(getDensity('boiled potatoes'), null);
+});
+
+test('convert never turns one count unit into another', () => {
+  assert.equal(convert(3, 'cans', 'cans'), 3);
+  assert.equal(convert(3, 'cans', 'bottles'), null);
+  assert.equal(convert(3, 'pieces', 'g'), null);
+});
+
+test('toBaseQuantity expresses amounts in grams or millilitres', () => {
+  assert.deepEqual(toBaseQuantity(2, 'kg'), { amount: 2000, unit: 'g', dimension: 'mass' });
+  assert.deepEqual(toBaseQuantity(2, 'tbsp'), { amount: 30, unit: 'ml', dimension: 'volume' });
+  assert.deepEqual(toBaseQuantity(4, 'pcs'), { amount: 4, unit: 'pieces', dimension: 'count' });
+  assert.equal(toBaseQuantity(1, 'pinch'), null);
+});
+
+test('sumQuantities adds what converts and returns the rest', () => {
+  const result = sumQuantities([
+    { amount: 500, unit: 'g' },
+    { amount: 1, unit: 'kg' },
+    { amount: 2, unit: 'pieces' }
+  ], 'g');
+
+  assert.equal(result.total, 1500);
+  assert.equal(result.unit, 'g');
+  assert.deepEqual(result.unconvertible, [{ amount: 2, unit: 'pieces' }]);
+});